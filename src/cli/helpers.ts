@@ -1,6 +1,10 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import { logger } from '../utils/logger';
+import { writeOpenAPITypes } from '../core/openapiSource';
+import { ENDPOINT_SOURCES } from '../utils/typeMapping';
+import { ENVELOPE_PRESETS, validateEnvelopeTemplate } from '../core/envelope';
+import { EndpointSource, EnvelopePreset, EnvelopeTemplate } from '../types/config';
 
 /**
  * Validate and resolve the types directory
@@ -26,6 +30,26 @@ export async function validateTypesDir(dirPath: string): Promise<string> {
   return resolvedPath;
 }
 
+/**
+ * Validate an OpenAPI document and generate its types
+ * Returns the resolved document path and the directory of the generated types
+ */
+export function prepareOpenAPITypes(specPath: string): { openapi: string; typesDir: string } {
+  const resolvedPath = path.resolve(process.cwd(), specPath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    logger.error(`OpenAPI document not found: ${resolvedPath}`);
+    process.exit(1);
+  }
+
+  try {
+    return { openapi: resolvedPath, typesDir: writeOpenAPITypes(resolvedPath) };
+  } catch (error) {
+    logger.error(`Failed to read OpenAPI document: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+}
+
 /**
  * Parse latency format from CLI string (e.g., "500-2000" -> { min: 500, max: 2000 })
  */
@@ -52,6 +76,115 @@ export function parseLatency(latencyStr?: string): { min: number; max: number }
   return undefined;
 }
 
+/**
+ * Parse the seed for deterministic generation from CLI string (e.g., "42" -> 42)
+ * Exits on invalid input: silently ignoring a bad seed would defeat reproducibility
+ */
+export function parseSeed(seedStr?: string): number | undefined {
+  if (seedStr === undefined) return undefined;
+
+  const seed = Number(seedStr);
+
+  if (!/^\d+$/.test(seedStr.trim()) || !Number.isSafeInteger(seed)) {
+    logger.error(`Invalid seed: "${seedStr}". Expected a non-negative integer (e.g., "42")`);
+    process.exit(1);
+  }
+
+  return seed;
+}
+
+/**
+ * Parse the upstream URL of proxy mode (e.g., "http://localhost:3000/api")
+ * Exits on invalid input: every forwarded request would fail otherwise
+ */
+export function parseProxyUrl(urlStr: string): string {
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(urlStr).protocol;
+  } catch {
+    protocol = undefined;
+  }
+
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    logger.error(`Invalid proxy URL: "${urlStr}". Expected an http(s) URL (e.g., "http://localhost:3000")`);
+    process.exit(1);
+  }
+
+  return urlStr.replace(/\/+$/, '');
+}
+
+/**
+ * Parse per-type sources from CLI string (e.g., "User=proxy,Order=hybrid" -> { User: 'proxy', Order: 'hybrid' })
+ * Exits on invalid input: a mistyped rule would silently mock a type meant to be proxied
+ */
+export function parseSourceRules(rulesStr?: string): Record<string, EndpointSource> | undefined {
+  if (rulesStr === undefined) return undefined;
+
+  const sources: Record<string, EndpointSource> = {};
+  for (const rule of rulesStr.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = rule.match(/^([A-Za-z_$][\w$]*)=([\w-]+)$/);
+    if (!match || !(ENDPOINT_SOURCES as string[]).includes(match[2]!)) {
+      logger.error(
+        `Invalid source rule: "${rule}". Expected "Type=${ENDPOINT_SOURCES.join('|')}" (e.g., "User=proxy,Order=hybrid")`
+      );
+      process.exit(1);
+    }
+    sources[match[1]!] = match[2] as EndpointSource;
+  }
+
+  return sources;
+}
+
+/**
+ * Parse the envelope of list responses: a preset name (e.g., "bare") or a JSON template file
+ * Exits on invalid input: clients would otherwise receive an unexpected shape
+ */
+export function parseEnvelope(envelopeStr?: string): EnvelopePreset | EnvelopeTemplate | undefined {
+  if (envelopeStr === undefined) return undefined;
+  if (Object.keys(ENVELOPE_PRESETS).includes(envelopeStr)) return envelopeStr as EnvelopePreset;
+
+  const resolvedPath = path.resolve(process.cwd(), envelopeStr);
+  if (!fs.existsSync(resolvedPath)) {
+    logger.error(
+      `Invalid envelope: "${envelopeStr}". Expected one of ${Object.keys(ENVELOPE_PRESETS).join(', ')}, or a JSON template file`
+    );
+    process.exit(1);
+  }
+
+  let template: unknown;
+  try {
+    template = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+  } catch (error) {
+    logger.error(`Failed to read envelope template ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  const problem = validateEnvelopeTemplate(template);
+  if (problem) {
+    logger.error(`Invalid envelope template ${resolvedPath}: ${problem}`);
+    process.exit(1);
+  }
+  return template as EnvelopeTemplate;
+}
+
+/**
+ * Parse request headers from CLI strings (e.g., ["Authorization: Bearer abc"] -> { Authorization: 'Bearer abc' })
+ * Exits on invalid input
+ */
+export function parseHeaders(headerStrs: string[] = []): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const header of headerStrs) {
+    const separator = header.indexOf(':');
+    const name = separator > 0 ? header.slice(0, separator).trim() : '';
+    if (!/^[\w-]+$/.test(name)) {
+      logger.error(`Invalid header: "${header}". Expected "Name: value" (e.g., "Authorization: Bearer abc")`);
+      process.exit(1);
+    }
+    headers[name] = header.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
 /**
  * Display startup success message
  */
@@ -285,6 +285,10 @@ export async function runWizard(): Promise<ServerConfig> {
       writeMethods,
       mockMode,
       persistData: persistData || undefined,
+      seed: savedConfig?.seed,
+      onDelete: savedConfig?.onDelete,
+      validateBody: savedConfig?.validateBody,
+      strictFilters: savedConfig?.strictFilters,
     };
 
     displayConfigSummary(config);
@@ -339,6 +343,12 @@ function displayConfigSummary(config: ServerConfig): void {
   console.log(`  ${chalk.cyan('Cache:')} ${config.cache ? 'enabled' : 'disabled'}`);
   console.log(`  ${chalk.cyan('Verbose:')} ${config.verbose ? 'enabled' : 'disabled'}`);
   console.log(`  ${chalk.cyan('Persist data:')} ${config.persistData ? config.persistData : 'disabled'}`);
+  console.log(`  ${chalk.cyan('Seed:')} ${config.seed !== undefined ? config.seed : 'random'}`);
+  console.log(`  ${chalk.cyan('On delete:')} ${config.onDelete ?? 'none'}`);
+  const validateBody = config.validateBody ?? config.mockMode === 'strict';
+  console.log(`  ${chalk.cyan('Body validation:')} ${validateBody ? 'enabled' : 'disabled'}`);
+  const strictFilters = config.strictFilters ?? config.mockMode === 'strict';
+  console.log(`  ${chalk.cyan('Strict filters:')} ${strictFilters ? 'enabled' : 'disabled'}`);
 
   const wm = config.writeMethods;
   if (wm) {
@@ -368,7 +378,7 @@ function displayConfigSummary(config: ServerConfig): void {
 export function hasExplicitCliArgs(): boolean {
   const args = process.argv.slice(2);
 
-  // If no args at all, or only non-option arguments (commands like 'stats', 'clear-cache')
+  // If no args at all, or only non-option arguments (commands like 'stats', 'clear-cache', 'export-openapi', 'infer', 'verify')
   if (args.length === 0) return false;
 
   // Check for interactive flag or if any option flags are provided
@@ -377,6 +387,9 @@ export function hasExplicitCliArgs(): boolean {
       arg.startsWith('-') ||
       arg === 'stats' ||
       arg === 'clear-cache' ||
+      arg === 'export-openapi' ||
+      arg === 'infer' ||
+      arg === 'verify' ||
       arg === '--help' ||
       arg === '--version'
   );
@@ -0,0 +1,201 @@
+/**
+ * Aggregations over the items of a collection (`GET /orders/_aggregate`):
+ * counts, sums, averages, minimums and maximums, by group and as facets.
+ */
+
+import { collectFieldPaths, compareValues, getFieldValue } from './queryProcessor';
+
+export type AggregateMetric = 'sum' | 'avg' | 'min' | 'max';
+
+const METRICS: AggregateMetric[] = ['sum', 'avg', 'min', 'max'];
+
+export interface AggregateParams {
+  /** Fields whose values split the items into groups (`groupBy=status,country`) */
+  groupBy: string[];
+  /** Fields whose values are counted (`facets=status,tags`) */
+  facets: string[];
+  /** Fields of each metric (`sum=total&max=total,createdAt`) */
+  metrics: Partial<Record<AggregateMetric, string[]>>;
+}
+
+/** Count and metrics of a set of items; only the requested metrics are present */
+export interface AggregateBucket {
+  count: number;
+  sum?: Record<string, number>;
+  /** Null when the field holds no number */
+  avg?: Record<string, number | null>;
+  /** Null when the field holds no value */
+  min?: Record<string, unknown>;
+  max?: Record<string, unknown>;
+}
+
+export interface AggregateGroup extends AggregateBucket {
+  /** Value of each `groupBy` field shared by the items of the group */
+  key: Record<string, unknown>;
+}
+
+export interface FacetCount {
+  value: unknown;
+  count: number;
+}
+
+export interface AggregateResponse extends AggregateBucket {
+  /** Present with `groupBy`, largest groups first */
+  groups?: AggregateGroup[];
+  /** Present with `facets`, most frequent values first */
+  facets?: Record<string, FacetCount[]>;
+}
+
+/**
+ * Separates the aggregation params from a query; the remaining params are filters
+ * (and `q`) to be parsed by parseQueryParams.
+ */
+export function parseAggregateParams(query: Record<string, string | string[] | undefined>): {
+  params: AggregateParams;
+  filterQuery: Record<string, string | string[] | undefined>;
+} {
+  const list = (key: string): string[] => {
+    const raw = query[key];
+    const values = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+    return [...new Set(values.flatMap((value) => value.split(',')).map((field) => field.trim()).filter(Boolean))];
+  };
+
+  const metrics: AggregateParams['metrics'] = {};
+  for (const metric of METRICS) {
+    const fields = list(metric);
+    if (fields.length > 0) metrics[metric] = fields;
+  }
+
+  const aggregateKeys = new Set<string>(['groupBy', 'facets', ...METRICS]);
+  const filterQuery = Object.fromEntries(Object.entries(query).filter(([key]) => !aggregateKeys.has(key)));
+  return { params: { groupBy: list('groupBy'), facets: list('facets'), metrics }, filterQuery };
+}
+
+/**
+ * Validates that the aggregated fields exist on the items, and that `sum` and `avg`
+ * fields hold numbers. Returns an error message string, or null if the params are valid.
+ */
+export function validateAggregateParams(params: AggregateParams, items: Record<string, unknown>[]): string | null {
+  if (items.length === 0) return null;
+  const allowedFields = collectFieldPaths(items, true);
+  const fields = [...params.groupBy, ...params.facets, ...METRICS.flatMap((metric) => params.metrics[metric] ?? [])];
+
+  for (const field of fields) {
+    if (!allowedFields.has(field)) {
+      return `Cannot aggregate unknown field "${field}". Allowed fields: ${[...allowedFields].sort().join(', ')}`;
+    }
+  }
+  for (const metric of ['sum', 'avg'] as const) {
+    const nonNumeric = (params.metrics[metric] ?? []).find(
+      (field) => !items.some((item) => fieldValues(item, field).some((value) => typeof value === 'number'))
+    );
+    if (nonNumeric !== undefined) {
+      return `"${metric}" requires a numeric field, "${nonNumeric}" holds no numbers`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Aggregates items: the count and metrics of all of them, of each group of items
+ * sharing the values of the `groupBy` fields, and the facet counts of their values.
+ * Items with several values for a field (arrays) count in the group of each value.
+ */
+export function aggregate(items: Record<string, unknown>[], params: AggregateParams): AggregateResponse {
+  const response: AggregateResponse = bucket(items, params);
+
+  if (params.groupBy.length > 0) {
+    const groups = new Map<string, { key: Record<string, unknown>; items: Record<string, unknown>[] }>();
+    for (const item of items) {
+      for (const key of groupKeys(item, params.groupBy)) {
+        const id = JSON.stringify(params.groupBy.map((field) => key[field]));
+        const group = groups.get(id) ?? { key, items: [] };
+        group.items.push(item);
+        groups.set(id, group);
+      }
+    }
+    response.groups = [...groups.values()]
+      .map(({ key, items: members }) => ({ key, ...bucket(members, params) }))
+      .sort(
+        (a, b) =>
+          b.count - a.count ||
+          params.groupBy.reduce((cmp, field) => cmp || compareValues(a.key[field], b.key[field], 'asc'), 0)
+      );
+  }
+
+  if (params.facets.length > 0) {
+    response.facets = {};
+    for (const field of params.facets) {
+      const counts = new Map<string, FacetCount>();
+      for (const item of items) {
+        for (const value of valuesOrNull(item, field)) {
+          const id = JSON.stringify(value);
+          const facet = counts.get(id) ?? { value, count: 0 };
+          facet.count++;
+          counts.set(id, facet);
+        }
+      }
+      response.facets[field] = [...counts.values()].sort(
+        (a, b) => b.count - a.count || compareValues(a.value, b.value, 'asc')
+      );
+    }
+  }
+
+  return response;
+}
+
+/** Count and requested metrics of a set of items */
+function bucket(items: Record<string, unknown>[], params: AggregateParams): AggregateBucket {
+  const result: AggregateBucket = { count: items.length };
+  for (const metric of METRICS) {
+    const fields = params.metrics[metric];
+    if (!fields) continue;
+    const values: Record<string, unknown> = {};
+    for (const field of fields) {
+      values[field] = computeMetric(metric, items.flatMap((item) => fieldValues(item, field)));
+    }
+    Object.assign(result, { [metric]: values });
+  }
+  return result;
+}
+
+function computeMetric(metric: AggregateMetric, values: unknown[]): unknown {
+  if (metric === 'min' || metric === 'max') {
+    const present = values.filter((value) => value !== null && typeof value !== 'object');
+    if (present.length === 0) return null;
+    return present.reduce((best, value) => {
+      const cmp = compareValues(value, best, 'asc');
+      return (metric === 'min' ? cmp < 0 : cmp > 0) ? value : best;
+    });
+  }
+
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  const sum = numbers.reduce((total, value) => total + value, 0);
+  if (metric === 'sum') return sum;
+  return numbers.length > 0 ? sum / numbers.length : null;
+}
+
+/** Every combination of the values of the `groupBy` fields held by an item */
+function groupKeys(item: Record<string, unknown>, groupBy: string[]): Record<string, unknown>[] {
+  return groupBy.reduce<Record<string, unknown>[]>(
+    (keys, field) => keys.flatMap((key) => valuesOrNull(item, field).map((value) => ({ ...key, [field]: value }))),
+    [{}]
+  );
+}
+
+/** Values of a field, one per element through arrays; empty when missing */
+function fieldValues(item: Record<string, unknown>, field: string): unknown[] {
+  const value = getFieldValue(item, field);
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Distinct values of a field, so an item counts once per value, with null
+ * standing for a missing field or an empty array
+ */
+function valuesOrNull(item: Record<string, unknown>, field: string): unknown[] {
+  const values = fieldValues(item, field);
+  if (values.length === 0) return [null];
+  return [...new Map(values.map((value) => [JSON.stringify(value), value])).values()];
+}
@@ -134,6 +134,8 @@ export class MockDataStore {
   private pools: Map<string, MockEntry<Record<string, unknown>[]>> = new Map();
   private writeStore: Map<string, Map<string, Record<string, unknown>>> = new Map();
   private deletedIds: Map<string, Set<string>> = new Map();
+  private sequences: Map<string, number> = new Map();
+  private versions: Map<string, Map<string, number>> = new Map();
 
   private key(typeName: string, filePath: string): string {
     return `${filePath}::${typeName}`;
@@ -159,6 +161,7 @@ export class MockDataStore {
       this.writeStore.set(k, new Map());
     }
     this.writeStore.get(k)!.set(id, obj);
+    this.bumpVersion(k, id);
   }
 
   markDeleted(typeName: string, filePath: string, id: string): void {
@@ -169,12 +172,40 @@ export class MockDataStore {
     this.deletedIds.get(k)!.add(id);
     // Remove from write store if present
     this.writeStore.get(k)?.delete(id);
+    this.bumpVersion(k, id);
+  }
+
+  /**
+   * Returns the version of an item: the number of writes (including deletes) it went
+   * through, 0 for an item only ever seen in the seeded pool.
+   */
+  getVersion(typeName: string, filePath: string, id: string): number {
+    return this.versions.get(this.key(typeName, filePath))?.get(id) ?? 0;
+  }
+
+  private bumpVersion(k: string, id: string): void {
+    if (!this.versions.has(k)) {
+      this.versions.set(k, new Map());
+    }
+    const versions = this.versions.get(k)!;
+    versions.set(id, (versions.get(id) ?? 0) + 1);
   }
 
   getDeletedIds(typeName: string, filePath: string): Set<string> {
     return this.deletedIds.get(this.key(typeName, filePath)) ?? new Set();
   }
 
+  /**
+   * Returns the next value of a per-type counter, starting at 0.
+   * Used to derive a distinct, reproducible seed for each generated write filler.
+   */
+  nextSequence(typeName: string, filePath: string): number {
+    const k = this.key(typeName, filePath);
+    const next = this.sequences.get(k) ?? 0;
+    this.sequences.set(k, next + 1);
+    return next;
+  }
+
   getAllWriteEntries(typeName: string, filePath: string): Map<string, Record<string, unknown>> {
     return this.writeStore.get(this.key(typeName, filePath)) ?? new Map();
   }
@@ -219,6 +250,16 @@ export class MockDataStore {
         this.deletedIds.delete(key);
       }
     }
+    for (const key of this.sequences.keys()) {
+      if (key.startsWith(`${filePath}::`)) {
+        this.sequences.delete(key);
+      }
+    }
+    for (const key of this.versions.keys()) {
+      if (key.startsWith(`${filePath}::`)) {
+        this.versions.delete(key);
+      }
+    }
     if (count > 0) {
       logger.info(`MockDataStore invalidated: ${count} entry/entries from ${filePath}`);
     }
@@ -229,6 +270,8 @@ export class MockDataStore {
     this.pools.delete(k);
     this.writeStore.delete(k);
     this.deletedIds.delete(k);
+    this.sequences.delete(k);
+    this.versions.delete(k);
   }
 
   clear(): { pools: number } {
@@ -236,6 +279,8 @@ export class MockDataStore {
     this.pools.clear();
     this.writeStore.clear();
     this.deletedIds.clear();
+    this.sequences.clear();
+    this.versions.clear();
     logger.info(`MockDataStore cleared: ${pools} pool(s)`);
     return { pools };
   }
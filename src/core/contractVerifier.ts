@@ -0,0 +1,315 @@
+import * as fs from 'fs';
+import { buildTypeMap } from '../utils/typeMapping';
+import { findFieldIssues, FieldIssueKind } from '../utils/bodyValidator';
+import { extractMockId } from '../utils/mockId';
+import { interfaceNameToPath } from './swagger';
+import { loadRecording } from '../utils/recordings';
+
+/** Category of a contract problem: a field problem, or a body / status that is not the expected resource */
+export type ContractIssueKind = FieldIssueKind | 'shape' | 'status';
+
+/**
+ * A difference between an API response and the interface of its endpoint
+ */
+export interface ContractIssue {
+  kind: ContractIssueKind;
+
+  /** Offending location: a field (`email`), an item of a list (`[2].email`), or `body` */
+  path: string;
+
+  message: string;
+}
+
+/**
+ * Result of checking one endpoint response against its interface
+ * - `passed`: the response matches the interface
+ * - `failed`: contract issues were found
+ * - `error`: the API could not be queried (unreachable, timeout, non-JSON response)
+ * - `skipped`: nothing to check (no recording, or no item to fetch)
+ */
+export interface ContractCheck {
+  typeName: string;
+  method: 'GET';
+  path: string;
+  outcome: 'passed' | 'failed' | 'error' | 'skipped';
+  issues: ContractIssue[];
+
+  /** Reason of an error or a skipped check */
+  message?: string;
+
+  durationMs: number;
+}
+
+/**
+ * Options of a contract verification run
+ */
+export interface VerifyOptions {
+  /** Directory containing the TypeScript type definitions */
+  typesDir: string;
+
+  /** Base URL of a live API, or a recordings directory of proxy mode */
+  against: string;
+
+  /** Path prepended to the endpoint paths (e.g. '/api/v1') */
+  basePath?: string;
+
+  /** Headers sent with each request (e.g. Authorization) */
+  headers?: Record<string, string>;
+
+  /** Request timeout in milliseconds (default: 10000) */
+  timeout?: number;
+}
+
+/** Response of the API under verification; undefined when a recordings directory has none */
+interface SourceResponse {
+  status: number;
+  isJson: boolean;
+  body: unknown;
+}
+
+type ResponseSource = (path: string) => Promise<SourceResponse | undefined>;
+
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Checks a JSON response body against an interface: the object itself or, for a collection,
+ * each item of a bare array or of the first array of an envelope (`{ data: [...] }`)
+ */
+export function findContractIssues(
+  filePath: string,
+  typeName: string,
+  body: unknown,
+  collection: boolean
+): ContractIssue[] {
+  const items = collection ? collectionItems(body) : [body];
+  if (!items) {
+    return [{ kind: 'shape', path: 'body', message: `Expected an array of ${typeName}, or an envelope holding one` }];
+  }
+
+  return items.flatMap((item, index): ContractIssue[] => {
+    const prefix = collection ? `[${index}]` : '';
+    if (!isRecord(item)) {
+      return [{ kind: 'shape', path: prefix || 'body', message: `Expected a ${typeName} object` }];
+    }
+    return findFieldIssues(filePath, typeName, item, 'response').map((issue) => ({
+      kind: issue.kind,
+      path: prefix ? `${prefix}.${issue.field}` : issue.field,
+      message: issue.message,
+    }));
+  });
+}
+
+/**
+ * Fetches the list and a single item of every @endpoint type from a live API (or from the
+ * recordings of proxy mode) and checks each response against the interface
+ */
+export async function verifyContracts(options: VerifyOptions): Promise<ContractCheck[]> {
+  const source = /^https?:\/\//i.test(options.against)
+    ? httpSource(options.against, options.headers ?? {}, options.timeout ?? DEFAULT_TIMEOUT)
+    : recordingSource(options.against);
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const checks: ContractCheck[] = [];
+
+  for (const [typeName, filePath] of buildTypeMap(options.typesDir)) {
+    const listPath = `${basePath}${interfaceNameToPath(typeName)}`;
+    const list = await checkEndpoint(source, typeName, filePath, listPath, true);
+    checks.push(list.check);
+
+    const first = list.body !== undefined ? collectionItems(list.body)?.[0] : undefined;
+    const id = isRecord(first) ? extractMockId(first) : undefined;
+    if (id === undefined) {
+      checks.push({
+        typeName,
+        method: 'GET',
+        path: `${listPath}/{id}`,
+        outcome: 'skipped',
+        issues: [],
+        message: 'No item with an ID in the list response to fetch',
+        durationMs: 0,
+      });
+      continue;
+    }
+
+    const item = await checkEndpoint(source, typeName, filePath, `${listPath}/${encodeURIComponent(id)}`, false);
+    checks.push(item.check);
+  }
+
+  return checks;
+}
+
+/**
+ * Renders the checks as a human-readable report, grouped by type
+ */
+export function formatVerifyReport(checks: ContractCheck[]): string {
+  const lines: string[] = [];
+  let currentType: string | undefined;
+
+  for (const check of checks) {
+    if (check.typeName !== currentType) {
+      currentType = check.typeName;
+      lines.push(lines.length > 0 ? `\n${currentType}` : currentType);
+    }
+
+    const symbol = { passed: '✓', failed: '✗', error: '!', skipped: '-' }[check.outcome];
+    const reason = check.message ? ` — ${check.message}` : '';
+    lines.push(`  ${symbol} ${check.method} ${check.path}${reason}`);
+    for (const issue of check.issues) {
+      lines.push(`      ${issue.kind.padEnd(10)} ${issue.path}: ${issue.message}`);
+    }
+  }
+
+  const count = (outcome: ContractCheck['outcome']) => checks.filter((check) => check.outcome === outcome).length;
+  lines.push(
+    '',
+    `${checks.length} check(s): ${count('passed')} passed, ${count('failed')} failed, ` +
+      `${count('error')} error(s), ${count('skipped')} skipped`
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders the checks as a JUnit XML report: one test suite per type, one test case per endpoint
+ */
+export function renderJUnitReport(checks: ContractCheck[]): string {
+  const suites = new Map<string, ContractCheck[]>();
+  for (const check of checks) {
+    suites.set(check.typeName, [...(suites.get(check.typeName) ?? []), check]);
+  }
+
+  const totals = summarize(checks);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="ts-mock-proxy verify"${totals}>`,
+  ];
+
+  for (const [typeName, suiteChecks] of suites) {
+    lines.push(`  <testsuite name="${escapeXml(typeName)}"${summarize(suiteChecks)}>`);
+    for (const check of suiteChecks) {
+      const attributes = `classname="${escapeXml(typeName)}" name="${escapeXml(`${check.method} ${check.path}`)}" time="${seconds(check.durationMs)}"`;
+      const message = escapeXml(check.message ?? '');
+
+      if (check.outcome === 'passed') {
+        lines.push(`    <testcase ${attributes}/>`);
+        continue;
+      }
+
+      lines.push(`    <testcase ${attributes}>`);
+      if (check.outcome === 'failed') {
+        const details = check.issues.map((issue) => `[${issue.kind}] ${issue.path}: ${issue.message}`).join('\n');
+        lines.push(
+          `      <failure message="${escapeXml(`${check.issues.length} contract issue(s)`)}" type="ContractDrift">${escapeXml(details)}</failure>`
+        );
+      } else if (check.outcome === 'error') {
+        lines.push(`      <error message="${message}" type="RequestError"/>`);
+      } else {
+        lines.push(`      <skipped message="${message}"/>`);
+      }
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+/** Fetches and checks one endpoint; the body is returned to find an item of a list */
+async function checkEndpoint(
+  source: ResponseSource,
+  typeName: string,
+  filePath: string,
+  path: string,
+  collection: boolean
+): Promise<{ check: ContractCheck; body?: unknown }> {
+  const startedAt = Date.now();
+  const result = (outcome: ContractCheck['outcome'], issues: ContractIssue[], message?: string): ContractCheck => ({
+    typeName,
+    method: 'GET',
+    path,
+    outcome,
+    issues,
+    message,
+    durationMs: Date.now() - startedAt,
+  });
+
+  let response: SourceResponse | undefined;
+  try {
+    response = await source(path);
+  } catch (error) {
+    return { check: result('error', [], describeError(error)) };
+  }
+
+  if (!response) return { check: result('skipped', [], 'Not recorded') };
+  if (response.status < 200 || response.status >= 300) {
+    const issue: ContractIssue = { kind: 'status', path: 'body', message: `Expected a 2xx response, got ${response.status}` };
+    return { check: result('failed', [issue]) };
+  }
+  if (!response.isJson) return { check: result('error', [], 'Response is not JSON') };
+
+  const issues = findContractIssues(filePath, typeName, response.body, collection);
+  return { check: result(issues.length > 0 ? 'failed' : 'passed', issues), body: response.body };
+}
+
+function httpSource(baseUrl: string, headers: Record<string, string>, timeout: number): ResponseSource {
+  const base = baseUrl.replace(/\/+$/, '');
+  return async (path) => {
+    const response = await fetch(`${base}${path}`, {
+      headers: { accept: 'application/json', ...headers },
+      signal: AbortSignal.timeout(timeout),
+    });
+    const text = await response.text();
+    try {
+      return { status: response.status, isJson: true, body: JSON.parse(text) };
+    } catch {
+      return { status: response.status, isJson: false, body: text };
+    }
+  };
+}
+
+function recordingSource(recordingsDir: string): ResponseSource {
+  if (!fs.existsSync(recordingsDir)) {
+    throw new Error(`Recordings directory not found: ${recordingsDir}`);
+  }
+  return async (path) => {
+    const recording = loadRecording(recordingsDir, 'GET', path);
+    if (!recording) return undefined;
+    const { status, encoding, body } = recording.response;
+    return { status, isJson: encoding === 'json', body };
+  };
+}
+
+/** Items of a collection response: a bare array, or the first array of an envelope */
+function collectionItems(body: unknown): unknown[] | undefined {
+  if (Array.isArray(body)) return body;
+  if (!isRecord(body)) return undefined;
+  return Object.values(body).find((value): value is unknown[] => Array.isArray(value));
+}
+
+/** Error message, with the underlying cause fetch hides behind "fetch failed" (e.g. ECONNREFUSED) */
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  return error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message;
+}
+
+function summarize(checks: ContractCheck[]): string {
+  const count = (outcome: ContractCheck['outcome']) => checks.filter((check) => check.outcome === outcome).length;
+  const time = seconds(checks.reduce((total, check) => total + check.durationMs, 0));
+  return ` tests="${checks.length}" failures="${count('failed')}" errors="${count('error')}" skipped="${count('skipped')}" time="${time}"`;
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,247 @@
+/**
+ * Response envelopes of list endpoints: where the items of a page and its
+ * pagination metadata go in the body and headers of the response.
+ */
+
+import { EnvelopePreset, EnvelopeTemplate, PaginationMode, ServerConfig } from '../types/config';
+import { OpenAPISchema, schemaRef } from './openapiSchema';
+import { CursorPaginationMeta, PaginationMeta } from './queryProcessor';
+
+/** Templates of the built-in envelopes */
+export const ENVELOPE_PRESETS: Record<EnvelopePreset, EnvelopeTemplate> = {
+  default: { body: { data: '$data', meta: '$meta' } },
+  items: { body: { items: '$data', count: '$total' } },
+  bare: { body: '$data', headers: { 'X-Total-Count': '$total' }, linkHeader: true },
+  jsonapi: { body: { data: '$data', meta: { total: '$total' }, links: '$links' } },
+};
+
+/** URLs of the current page and of the pages around it; null when there is no such page */
+export interface PageLinks {
+  self: string;
+  first: string;
+  prev: string | null;
+  next: string | null;
+  /** Null in cursor mode, where the last page has no address */
+  last: string | null;
+}
+
+/** A page of items with the metadata of its pagination mode */
+export interface EnvelopePage {
+  data: Record<string, unknown>[];
+  meta: PaginationMeta | CursorPaginationMeta;
+}
+
+export interface RenderedEnvelope {
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/** Placeholders of every mode, then those of each pagination mode */
+const COMMON_PLACEHOLDERS = ['data', 'meta', 'total', 'links'];
+const MODE_PLACEHOLDERS: Record<PaginationMode, string[]> = {
+  offset: ['page', 'pageSize', 'totalPages'],
+  cursor: ['limit', 'nextCursor', 'prevCursor'],
+};
+const PLACEHOLDERS = [...COMMON_PLACEHOLDERS, ...MODE_PLACEHOLDERS.offset, ...MODE_PLACEHOLDERS.cursor];
+
+const PLACEHOLDER_PATTERN = /^\$(\w+(?:\.\w+)*)$/;
+
+/**
+ * Returns the template of the configured envelope (a preset name or a custom template)
+ */
+export function resolveEnvelope(envelope: ServerConfig['envelope']): EnvelopeTemplate {
+  if (envelope === undefined) return ENVELOPE_PRESETS.default;
+  return typeof envelope === 'string' ? ENVELOPE_PRESETS[envelope] : envelope;
+}
+
+/**
+ * Checks the shape and placeholders of a custom template, e.g. read from a JSON file.
+ * Returns a description of the first problem, or null when the template is valid.
+ */
+export function validateEnvelopeTemplate(template: unknown): string | null {
+  if (!isRecord(template) || !('body' in template)) {
+    return 'Expected an object with a "body" (and optional "headers" and "linkHeader")';
+  }
+
+  const headers = template['headers'];
+  if (headers !== undefined && (!isRecord(headers) || !Object.values(headers).every((v) => typeof v === 'string'))) {
+    return '"headers" must map header names to strings';
+  }
+  if (template['linkHeader'] !== undefined && typeof template['linkHeader'] !== 'boolean') {
+    return '"linkHeader" must be a boolean';
+  }
+
+  const bodyPlaceholders = collectPlaceholders(template['body']);
+  const placeholders = [...bodyPlaceholders, ...collectPlaceholders(headers)];
+  const unknown = placeholders.find((placeholder) => !PLACEHOLDERS.includes(placeholder.split('.')[0]!));
+  if (unknown !== undefined) {
+    return `Unknown placeholder "$${unknown}". Expected one of ${PLACEHOLDERS.map((p) => `$${p}`).join(', ')}`;
+  }
+  if (!bodyPlaceholders.includes('data')) {
+    return 'The body must hold the items as "$data"';
+  }
+  return null;
+}
+
+/**
+ * Lays out a page of items as the body and headers described by a template.
+ * Placeholders not available in the pagination mode of the page (e.g. `$nextCursor`
+ * in offset mode) resolve to undefined, which drops them from the body.
+ */
+export function renderEnvelope(template: EnvelopeTemplate, page: EnvelopePage, links: PageLinks): RenderedEnvelope {
+  const values: Record<string, unknown> = { ...page.meta, data: page.data, meta: page.meta, links };
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(template.headers ?? {})) {
+    const resolved = fill(value, values);
+    if (resolved !== undefined && resolved !== null) headers[name] = String(resolved);
+  }
+  if (template.linkHeader) {
+    const link = formatLinkHeader(links);
+    if (link) headers['Link'] = link;
+  }
+
+  return { body: fill(template.body, values), headers };
+}
+
+/**
+ * Builds the URLs of the pages around a page: the request URL with its `page`
+ * (or `cursor`) param replaced, other params kept
+ */
+export function buildPageLinks(
+  baseUrl: string,
+  query: Record<string, string | string[] | undefined>,
+  meta: PaginationMeta | CursorPaginationMeta
+): PageLinks {
+  const url = (changes: Record<string, string | number | null>): string => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined || key in changes) continue;
+      for (const item of Array.isArray(value) ? value : [value]) params.append(key, item);
+    }
+    for (const [key, value] of Object.entries(changes)) {
+      if (value !== null) params.set(key, String(value));
+    }
+    const search = params.toString();
+    return search ? `${baseUrl}?${search}` : baseUrl;
+  };
+
+  if ('nextCursor' in meta) {
+    return {
+      self: url({}),
+      first: url({ cursor: null }),
+      prev: meta.prevCursor ? url({ cursor: meta.prevCursor }) : null,
+      next: meta.nextCursor ? url({ cursor: meta.nextCursor }) : null,
+      last: null,
+    };
+  }
+
+  return {
+    self: url({ page: meta.page }),
+    first: url({ page: 1 }),
+    prev: meta.page > 1 ? url({ page: meta.page - 1 }) : null,
+    next: meta.page < meta.totalPages ? url({ page: meta.page + 1 }) : null,
+    last: url({ page: Math.max(1, meta.totalPages) }),
+  };
+}
+
+/**
+ * OpenAPI description of the responses a template produces for a type:
+ * the body schema and the headers
+ */
+export function envelopeSchema(
+  template: EnvelopeTemplate,
+  typeName: string,
+  mode: PaginationMode
+): { body: OpenAPISchema; headers: Record<string, { schema: { type: string } }> } {
+  const placeholderSchema = (placeholder: string): OpenAPISchema | undefined => {
+    const [root, key] = placeholder.split('.');
+    if (!COMMON_PLACEHOLDERS.includes(root!) && !MODE_PLACEHOLDERS[mode].includes(root!)) return undefined;
+    if (root === 'links') {
+      if (key === undefined) return schemaRef('PageLinks');
+      return key === 'self' || key === 'first' ? { type: 'string' } : { type: ['string', 'null'] };
+    }
+    if (root === 'meta' && key !== undefined) return placeholderSchema(key);
+    switch (root) {
+      case 'data':
+        return { type: 'array', items: schemaRef(typeName) };
+      case 'meta':
+        return schemaRef(mode === 'cursor' ? 'CursorPaginationMeta' : 'PaginationMeta');
+      case 'nextCursor':
+      case 'prevCursor':
+        return { type: ['string', 'null'] };
+      default:
+        return { type: 'integer' };
+    }
+  };
+
+  const toSchema = (value: unknown): OpenAPISchema | undefined => {
+    if (typeof value === 'string') {
+      const placeholder = PLACEHOLDER_PATTERN.exec(value)?.[1];
+      return placeholder !== undefined ? placeholderSchema(placeholder) : { type: 'string', enum: [value] };
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') return { type: typeof value, enum: [value] };
+    if (value === null) return { type: 'null' };
+    if (Array.isArray(value)) {
+      const items = value.map((item) => toSchema(item) ?? {});
+      return { type: 'array', prefixItems: items, minItems: items.length, maxItems: items.length };
+    }
+    if (isRecord(value)) {
+      const properties: Record<string, OpenAPISchema> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const schema = toSchema(item);
+        if (schema) properties[key] = schema;
+      }
+      return { type: 'object', properties };
+    }
+    return {};
+  };
+
+  const headers: Record<string, { schema: { type: string } }> = {};
+  for (const [name, value] of Object.entries(template.headers ?? {})) {
+    const type = toSchema(value)?.type;
+    headers[name] = { schema: { type: typeof type === 'string' ? type : 'string' } };
+  }
+  if (template.linkHeader) headers['Link'] = { schema: { type: 'string' } };
+
+  return { body: toSchema(template.body) ?? {}, headers };
+}
+
+/** Replaces the placeholders of a template value by the values they name */
+function fill(template: unknown, values: Record<string, unknown>): unknown {
+  if (typeof template === 'string') {
+    const placeholder = PLACEHOLDER_PATTERN.exec(template)?.[1];
+    if (placeholder === undefined) return template;
+    return placeholder
+      .split('.')
+      .reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), values);
+  }
+  if (Array.isArray(template)) return template.map((item) => fill(item, values));
+  if (isRecord(template)) {
+    return Object.fromEntries(Object.entries(template).map(([key, item]) => [key, fill(item, values)]));
+  }
+  return template;
+}
+
+/** Names of the placeholders found in a template value (without the `$`) */
+function collectPlaceholders(template: unknown): string[] {
+  if (typeof template === 'string') {
+    const placeholder = PLACEHOLDER_PATTERN.exec(template)?.[1];
+    return placeholder !== undefined ? [placeholder] : [];
+  }
+  if (Array.isArray(template)) return template.flatMap(collectPlaceholders);
+  if (isRecord(template)) return Object.values(template).flatMap(collectPlaceholders);
+  return [];
+}
+
+/** RFC 8288 Link header of the existing pages, e.g. `<...?page=3>; rel="next"` */
+function formatLinkHeader(links: PageLinks): string {
+  return (['first', 'prev', 'next', 'last'] as const)
+    .filter((rel) => links[rel] !== null)
+    .map((rel) => `<${links[rel]}>; rel="${rel}"`)
+    .join(', ');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
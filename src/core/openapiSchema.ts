@@ -0,0 +1,331 @@
+import * as ts from 'typescript';
+import { extractJSDocConstraints, FieldConstraint } from '../utils/constraintExtractor';
+import {
+  findNamedType,
+  getTypeChecker,
+  NamedType,
+  resolvePropertiesOfType,
+  resolveTypeProperties,
+  ResolvedProperty,
+} from '../utils/typeResolver';
+
+/**
+ * OpenAPI 3.1 (JSON Schema 2020-12) schema object, limited to the keywords generated here
+ */
+export interface OpenAPISchema {
+  type?: string | string[];
+  $ref?: string;
+  format?: string;
+  enum?: Array<string | number | boolean | null>;
+  oneOf?: OpenAPISchema[];
+  items?: OpenAPISchema;
+  prefixItems?: OpenAPISchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, OpenAPISchema>;
+  required?: string[];
+  additionalProperties?: OpenAPISchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+}
+
+/** Returns a `$ref` to a schema of `components.schemas` */
+export function schemaRef(name: string): OpenAPISchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * A field reachable by dot path (`address.city`, `lines.sku`) in an object schema
+ */
+export interface SchemaField {
+  path: string;
+
+  /** Schema of the values, `$ref`s and nullability resolved; of the elements for arrays */
+  schema: OpenAPISchema;
+
+  /** The values are array elements: the field is an array (`tags`) or lies inside one (`lines.sku`) */
+  inArray: boolean;
+}
+
+/** Depth down to which nested fields are listed */
+const MAX_FIELD_DEPTH = 4;
+
+/**
+ * Lists the fields of an object schema, nested ones included as dot paths. `$ref`s are
+ * resolved against `components`; a named type is not expanded again inside itself.
+ */
+export function flattenSchemaFields(
+  schema: OpenAPISchema,
+  components: Record<string, OpenAPISchema>
+): SchemaField[] {
+  const fields: SchemaField[] = [];
+
+  const visit = (objectSchema: OpenAPISchema, prefix: string, inArray: boolean, refs: Set<string>): void => {
+    for (const [name, propertySchema] of Object.entries(objectSchema.properties ?? {})) {
+      const path = prefix ? `${prefix}.${name}` : name;
+      let { schema: resolved, ref } = resolveSchema(propertySchema, components);
+      let isArray = inArray;
+      if (resolved.items && (resolved.type === 'array' || resolved.type?.includes('array'))) {
+        ({ schema: resolved, ref } = resolveSchema(resolved.items, components));
+        isArray = true;
+      }
+      fields.push({ path, schema: resolved, inArray: isArray });
+
+      const depth = path.split('.').length;
+      if (resolved.properties && depth < MAX_FIELD_DEPTH && !(ref && refs.has(ref))) {
+        visit(resolved, path, isArray, ref ? new Set(refs).add(ref) : refs);
+      }
+    }
+  };
+
+  visit(schema, '', false, new Set());
+  return fields;
+}
+
+/** Follows a `$ref` (or the only non-null branch of a `oneOf`) to the schema it names */
+function resolveSchema(
+  schema: OpenAPISchema,
+  components: Record<string, OpenAPISchema>
+): { schema: OpenAPISchema; ref?: string } {
+  const branches = schema.oneOf?.filter((branch) => branch.type !== 'null');
+  const current = branches?.length === 1 ? branches[0]! : schema;
+  if (!current.$ref) return { schema: current };
+  const ref = current.$ref.replace('#/components/schemas/', '');
+  return { schema: components[ref] ?? {}, ref };
+}
+
+/**
+ * Builds OpenAPI schemas from TypeScript types using the type checker.
+ *
+ * - primitives, literals and literal unions → `type` / `enum`
+ * - other unions → `oneOf`; `null` members → `"null"` added to `type` (or a `oneOf` branch)
+ * - arrays and tuples → `items` / `prefixItems`
+ * - inline objects and generic instantiations → nested `properties` + `required`
+ * - named interfaces, type aliases and enums of the project → `$ref`, emitted once in `components`
+ * - JSDoc constraints → `minLength`, `maxLength`, `minimum`, `maximum`, `pattern`, `enum`
+ */
+export class SchemaBuilder {
+  /** Schemas of the named types referenced so far, keyed by type name */
+  readonly components: Record<string, OpenAPISchema> = {};
+
+  /**
+   * Object schema of a named interface or type alias, with `required` derived from `?` markers
+   */
+  objectSchema(filePath: string, typeName: string): OpenAPISchema {
+    return this.propertiesSchema(filePath, resolveTypeProperties(filePath, typeName), new Set());
+  }
+
+  private propertiesSchema(
+    filePath: string,
+    resolved: ResolvedProperty[],
+    seen: Set<ts.Type>
+  ): OpenAPISchema {
+    const properties: Record<string, OpenAPISchema> = {};
+    const required: string[] = [];
+
+    for (const property of resolved) {
+      const schema = this.typeSchema(filePath, property.type, seen);
+      const declaration = property.declaration;
+      properties[property.name] = declaration
+        ? withConstraints(schema, extractJSDocConstraints(declaration, declaration.getSourceFile()))
+        : schema;
+      if (!property.optional) required.push(property.name);
+    }
+
+    return required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties };
+  }
+
+  /** Schema of a type obtained from the checker of `filePath`'s program */
+  private typeSchema(filePath: string, type: ts.Type, seen: Set<ts.Type>): OpenAPISchema {
+    const checker = getTypeChecker(filePath);
+    const flags = type.flags;
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+
+    const named = findNamedType(filePath, type);
+    if (named) return this.reference(named, type);
+
+    if (type.isUnion()) return this.unionSchema(filePath, type, seen);
+
+    if (type.isStringLiteral()) return { type: 'string', enum: [type.value] };
+    if (type.isNumberLiteral()) return { type: 'number', enum: [type.value] };
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return { type: 'boolean', enum: [checker.typeToString(type) === 'true'] };
+    }
+    if (flags & ts.TypeFlags.StringLike) return { type: 'string' };
+    if (flags & ts.TypeFlags.NumberLike) return { type: 'number' };
+    if (flags & ts.TypeFlags.BooleanLike) return { type: 'boolean' };
+    if (flags & ts.TypeFlags.BigIntLike) return { type: 'integer', format: 'int64' };
+    if (flags & ts.TypeFlags.Null) return { type: 'null' };
+    if (flags & ts.TypeFlags.NonPrimitive) return { type: 'object' };
+
+    if ((flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) === 0) return {};
+
+    if (checker.isArrayType(type)) {
+      const [itemType] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', items: itemType ? this.typeSchema(filePath, itemType, seen) : {} };
+    }
+
+    if (checker.isTupleType(type)) {
+      const elements = checker.getTypeArguments(type as ts.TypeReference);
+      return {
+        type: 'array',
+        prefixItems: elements.map((element) => this.typeSchema(filePath, element, seen)),
+        minItems: elements.length,
+        maxItems: elements.length,
+      };
+    }
+
+    if (type.getSymbol()?.name === 'Date') return { type: 'string', format: 'date-time' };
+
+    // Anonymous recursive structures (e.g. a generic tree instantiation) stop at the first repeat
+    if (seen.has(type)) return { type: 'object' };
+    const nextSeen = new Set(seen).add(type);
+
+    const properties = resolvePropertiesOfType(filePath, type);
+    const [indexInfo] = checker.getIndexInfosOfType(type);
+    const schema: OpenAPISchema =
+      properties.length > 0 || !indexInfo
+        ? this.propertiesSchema(filePath, properties, nextSeen)
+        : { type: 'object' };
+    if (indexInfo) {
+      schema.additionalProperties = this.typeSchema(filePath, indexInfo.type, nextSeen);
+    }
+    return schema;
+  }
+
+  /**
+   * Literal members are grouped into one `enum` per primitive type; members of a TS enum
+   * become a `$ref` to the enum when all of them are present. `undefined` (optionality)
+   * is dropped and `null` makes the schema nullable.
+   */
+  private unionSchema(filePath: string, type: ts.UnionType, seen: Set<ts.Type>): OpenAPISchema {
+    const checker = getTypeChecker(filePath);
+    const members = type.types.filter((member) => (member.flags & ts.TypeFlags.Undefined) === 0);
+    const nullable = members.some((member) => member.flags & ts.TypeFlags.Null);
+
+    const parts: OpenAPISchema[] = [];
+    const literalGroups = new Map<unknown, OpenAPISchema>();
+    const enumGroups = new Map<ts.Type, OpenAPISchema>();
+
+    const addLiteral = (key: unknown, literalType: string, value: string | number | boolean) => {
+      let group = literalGroups.get(key);
+      if (!group) {
+        group = { type: literalType, enum: [] };
+        literalGroups.set(key, group);
+        parts.push(group);
+      }
+      group.enum!.push(value);
+    };
+
+    for (const member of members) {
+      if (member.flags & ts.TypeFlags.Null) continue;
+
+      if (member.flags & ts.TypeFlags.EnumLiteral && (member.isStringLiteral() || member.isNumberLiteral())) {
+        const enumType = checker.getBaseTypeOfLiteralType(member);
+        addLiteral(enumType, member.isStringLiteral() ? 'string' : 'number', member.value);
+        enumGroups.set(enumType, literalGroups.get(enumType)!);
+      } else if (member.isStringLiteral()) {
+        addLiteral('string', 'string', member.value);
+      } else if (member.isNumberLiteral()) {
+        addLiteral('number', 'number', member.value);
+      } else if (member.flags & ts.TypeFlags.BooleanLiteral) {
+        addLiteral('boolean', 'boolean', checker.typeToString(member) === 'true');
+      } else {
+        parts.push(this.typeSchema(filePath, member, seen));
+      }
+    }
+
+    // `true | false` is plain boolean
+    const booleans = literalGroups.get('boolean');
+    if (booleans?.enum?.length === 2) delete booleans.enum;
+
+    enumGroups.forEach((group, enumType) => {
+      const named = findNamedType(filePath, enumType);
+      const enumSize = enumType.isUnion() ? enumType.types.length : 1;
+      if (named && group.enum!.length === enumSize) {
+        parts[parts.indexOf(group)] = this.reference(named, enumType);
+      }
+    });
+
+    const schema = parts.length === 1 ? parts[0]! : parts.length === 0 ? {} : { oneOf: parts };
+    return nullable ? withNull(schema) : schema;
+  }
+
+  /** Registers the schema of a named type in `components` (once) and returns a `$ref` to it */
+  private reference(named: NamedType, type: ts.Type): OpenAPISchema {
+    if (!(named.typeName in this.components)) {
+      // Placeholder first: self-referencing types resolve to the `$ref` being built
+      this.components[named.typeName] = {};
+      this.components[named.typeName] =
+        named.kind === 'enum' ? enumSchema(type) : this.objectSchema(named.filePath, named.typeName);
+    }
+    return schemaRef(named.typeName);
+  }
+}
+
+/** Schema listing the member values of a TS enum */
+function enumSchema(type: ts.Type): OpenAPISchema {
+  const members = type.isUnion() ? type.types : [type];
+  const values = members
+    .filter((member): member is ts.LiteralType => member.isLiteral())
+    .map((member) => member.value)
+    .filter((value): value is string | number => typeof value !== 'object');
+
+  if (values.every((value) => typeof value === 'string')) return { type: 'string', enum: values };
+  if (values.every((value) => typeof value === 'number')) return { type: 'number', enum: values };
+  return { enum: values };
+}
+
+/** Makes a schema accept `null` */
+function withNull(schema: OpenAPISchema): OpenAPISchema {
+  if (Object.keys(schema).length === 0) return schema;
+  if (schema.type === undefined) {
+    return { oneOf: [...(schema.oneOf ?? [schema]), { type: 'null' }] };
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return {
+    ...schema,
+    type: [...types, 'null'],
+    ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+  };
+}
+
+/** Adds the JSON Schema keywords matching a property's JSDoc constraints */
+function withConstraints(schema: OpenAPISchema, constraints: FieldConstraint[]): OpenAPISchema {
+  if (constraints.length === 0) return schema;
+
+  const constrained: OpenAPISchema = { ...schema };
+  for (const constraint of constraints) {
+    switch (constraint.type) {
+      case 'minLength':
+        constrained.minLength = constraint.value as number;
+        break;
+      case 'maxLength':
+        constrained.maxLength = constraint.value as number;
+        break;
+      case 'min':
+        constrained.minimum = constraint.value as number;
+        break;
+      case 'max':
+        constrained.maximum = constraint.value as number;
+        break;
+      case 'pattern':
+        constrained.pattern = constraint.value as string;
+        break;
+      case 'enum': {
+        const values = constraint.value as string[];
+        const isNumeric = schema.type === 'number' && values.every((value) => !isNaN(Number(value)));
+        constrained.enum = isNumeric ? values.map(Number) : values;
+        break;
+      }
+    }
+  }
+  return constrained;
+}
@@ -0,0 +1,405 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import pluralize from 'pluralize';
+import { logger } from '../utils/logger';
+import { parseUrlSegments, toPascalCase, urlSegmentToTypeName } from '../utils/pluralize';
+
+/**
+ * Schema object of an OpenAPI 3.0 / 3.1 document, limited to the keywords converted here
+ */
+interface SpecSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: SpecSchema[];
+  anyOf?: SpecSchema[];
+  allOf?: SpecSchema[];
+  items?: SpecSchema;
+  properties?: Record<string, SpecSchema>;
+  required?: string[];
+  additionalProperties?: boolean | SpecSchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  description?: string;
+}
+
+/** Request body or response object, either inline or a `$ref` to `components` */
+interface SpecContentHolder {
+  $ref?: string;
+  content?: Record<string, { schema?: SpecSchema }>;
+}
+
+interface SpecOperation {
+  requestBody?: SpecContentHolder;
+  responses?: Record<string, SpecContentHolder>;
+}
+
+/**
+ * OpenAPI 3.x document, limited to the parts used to build the mock
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  paths?: Record<string, Record<string, SpecOperation>>;
+  components?: {
+    schemas?: Record<string, SpecSchema>;
+    [section: string]: Record<string, unknown> | undefined;
+  };
+}
+
+/** Faker methods given to Intermock (`@mockType`) for string formats */
+const FORMAT_MOCK_TYPES: Record<string, string> = {
+  email: 'internet.email',
+  uuid: 'random.uuid',
+  uri: 'internet.url',
+  url: 'internet.url',
+};
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/** Fields recognised as resource IDs by the data store */
+const ID_FIELDS = ['id', 'uuid', '_id'];
+
+/**
+ * Reads an OpenAPI 3.x document (JSON or YAML)
+ *
+ * @throws If the file is not an OpenAPI 3.x document
+ */
+export function loadOpenAPIDocument(specPath: string): OpenAPIDocument {
+  const content = fs.readFileSync(specPath, 'utf-8');
+  // YAML is a superset of JSON: one parser covers both formats
+  const document = yaml.load(content) as Partial<OpenAPIDocument> | null | undefined;
+
+  if (
+    typeof document !== 'object' ||
+    document === null ||
+    typeof document.openapi !== 'string' ||
+    !document.openapi.startsWith('3.')
+  ) {
+    throw new Error(`Not an OpenAPI 3.x document: ${specPath}`);
+  }
+
+  return document as OpenAPIDocument;
+}
+
+/**
+ * Converts an OpenAPI document to TypeScript declarations the mock server can serve.
+ *
+ * Every `components.schemas` entry becomes an interface or type alias. Each collection
+ * of `paths` (e.g. `/pets` and `/pets/{petId}`) marks the type of its items with
+ * `// @endpoint`, named after the collection like hand-written types (`pets` → `Pet`).
+ * When the item schema has another name or is inline, an endpoint alias is declared.
+ */
+export function generateTypesFromOpenAPI(document: OpenAPIDocument): string {
+  const schemas = document.components?.schemas ?? {};
+  const endpoints = findEndpointSchemas(document);
+  const componentNames = new Set(Object.keys(schemas).map(toIdentifier));
+  const emitter = new DeclarationEmitter(document, [...componentNames, ...endpoints.keys()]);
+
+  for (const [name, schema] of Object.entries(schemas)) {
+    const identifier = toIdentifier(name);
+    const isEndpoint = endpoints.get(identifier)?.$ref === `${SCHEMA_REF_PREFIX}${name}`;
+    if (isEndpoint) endpoints.delete(identifier);
+    emitter.declare(identifier, schema, isEndpoint);
+  }
+
+  endpoints.forEach((schema, typeName) => {
+    if (componentNames.has(typeName)) {
+      logger.warn(
+        `OpenAPI collection "${typeName}" conflicts with the component schema of the same name — skipped`
+      );
+      return;
+    }
+    emitter.declare(typeName, schema, true);
+  });
+
+  return `// Generated by ts-mock-proxy from an OpenAPI document — do not edit\n\n${emitter.blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Generates the types of an OpenAPI document into `outDir` and returns the directory,
+ * to be used as `typesDir`. The default directory is stable for a given document path,
+ * so persisted data and the hot-reload watcher keep working across restarts.
+ */
+export function writeOpenAPITypes(specPath: string, outDir = defaultTypesDir(specPath)): string {
+  const source = generateTypesFromOpenAPI(loadOpenAPIDocument(specPath));
+  const filePath = path.join(outDir, `${path.basename(specPath).replace(/\.[^.]+$/, '')}.ts`);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  // Rewriting identical content would trigger a needless hot reload
+  if (!fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf-8') !== source) {
+    fs.writeFileSync(filePath, source, 'utf-8');
+  }
+
+  return outDir;
+}
+
+function defaultTypesDir(specPath: string): string {
+  const hash = crypto.createHash('sha1').update(path.resolve(specPath)).digest('hex').slice(0, 12);
+  return path.join(os.tmpdir(), 'ts-mock-proxy-openapi', hash);
+}
+
+/**
+ * Finds the item schema of every collection of the document, keyed by the type name
+ * the router derives from the collection segment.
+ * Sources, by preference: item GET response, collection GET response (array or
+ * envelope holding an array), collection POST body.
+ */
+function findEndpointSchemas(document: OpenAPIDocument): Map<string, SpecSchema> {
+  const found = new Map<string, { schema: SpecSchema; rank: number }>();
+
+  for (const [route, operations] of Object.entries(document.paths ?? {})) {
+    const segments = parseUrlSegments(route);
+    const isItemPath = segments.length > 0 && isPathParameter(segments[segments.length - 1]!);
+    const collection = segments[segments.length - (isItemPath ? 2 : 1)];
+    if (!collection || isPathParameter(collection)) continue;
+
+    const { typeName, isArray } = urlSegmentToTypeName(collection);
+    // Singular collections are not routed (e.g. /user)
+    if (!isArray) continue;
+
+    const candidates: Array<[SpecSchema | undefined, number]> = isItemPath
+      ? [[responseSchema(document, operations['get']), 0]]
+      : [
+          [listItemSchema(document, responseSchema(document, operations['get'])), 1],
+          [contentSchema(document, operations['post']?.requestBody), 2],
+        ];
+
+    for (const [schema, rank] of candidates) {
+      const current = found.get(typeName);
+      if (schema && (!current || rank < current.rank)) {
+        found.set(typeName, { schema, rank });
+      }
+    }
+  }
+
+  return new Map(Array.from(found, ([typeName, { schema }]) => [typeName, schema]));
+}
+
+function isPathParameter(segment: string): boolean {
+  return /^\{.+\}$/.test(segment);
+}
+
+/** JSON schema of the first successful response of an operation */
+function responseSchema(document: OpenAPIDocument, operation?: SpecOperation): SpecSchema | undefined {
+  const responses = operation?.responses ?? {};
+  const status = ['200', '201', '2XX', 'default'].find((code) => code in responses);
+  return status ? contentSchema(document, responses[status]) : undefined;
+}
+
+function contentSchema(document: OpenAPIDocument, holder?: SpecContentHolder): SpecSchema | undefined {
+  const resolved = holder ? resolvePointer<SpecContentHolder>(document, holder) : undefined;
+  const content = resolved?.content ?? {};
+  const mediaType = content['application/json'] ? 'application/json' : Object.keys(content).find((type) => type.includes('json'));
+  return mediaType ? content[mediaType]?.schema : undefined;
+}
+
+/** Item schema of a list response: a plain array or an envelope with an array property */
+function listItemSchema(document: OpenAPIDocument, schema?: SpecSchema): SpecSchema | undefined {
+  const resolved = schema ? resolvePointer<SpecSchema>(document, schema) : undefined;
+  if (!resolved) return undefined;
+  if (resolved.items) return resolved.items;
+
+  const arrayProperty = Object.values(resolved.properties ?? {})
+    .map((property) => resolvePointer<SpecSchema>(document, property))
+    .find((property) => property?.items);
+  return arrayProperty?.items;
+}
+
+/** Follows a local `$ref` (`#/components/...`); other values are returned as-is */
+function resolvePointer<T extends { $ref?: string }>(document: OpenAPIDocument, value: T): T | undefined {
+  if (!value.$ref) return value;
+  if (!value.$ref.startsWith('#/')) return undefined;
+
+  let target: unknown = document;
+  for (const token of value.$ref.slice(2).split('/')) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    target = typeof target === 'object' && target !== null ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  return typeof target === 'object' && target !== null ? resolvePointer(document, target as T) : undefined;
+}
+
+/** Turns a component name into a valid TypeScript identifier (e.g. `pet-owner` → `PetOwner`) */
+function toIdentifier(name: string): string {
+  const identifier = toPascalCase(name.replace(/[^A-Za-z0-9_$]+/g, '-'));
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Renders schemas as declarations Intermock can mock: it does not support inline object
+ * types, intersections, `Record` or `unknown`, so nested objects are hoisted into named
+ * interfaces, `allOf` is merged into one object, maps become `object` and untyped values `any`.
+ */
+class DeclarationEmitter {
+  readonly blocks: string[] = [];
+  private readonly taken: Set<string>;
+
+  constructor(
+    private readonly document: OpenAPIDocument,
+    reserved: Iterable<string>
+  ) {
+    this.taken = new Set(reserved);
+  }
+
+  declare(name: string, schema: SpecSchema, isEndpoint: boolean): void {
+    const header = `${isEndpoint ? '// @endpoint\n' : ''}${renderDocs(schema.description, [], '')}`;
+    const object = isNullable(schema) ? undefined : this.asObject(schema);
+
+    if (object) {
+      const members = this.renderMembers(name, object);
+      this.blocks.push(`${header}export interface ${name} {\n${members}\n}`);
+    } else {
+      this.blocks.push(`${header}export type ${name} = ${this.typeText(schema, name)};`);
+    }
+  }
+
+  /** Object schema with its properties, `allOf` parts merged; undefined for other schemas */
+  private asObject(schema: SpecSchema, seen = new Set<SpecSchema>()): SpecSchema | undefined {
+    if (seen.has(schema)) return undefined;
+    seen.add(schema);
+
+    if (schema.allOf) {
+      const merged: SpecSchema = { description: schema.description, properties: {}, required: [] };
+      for (const part of schema.allOf) {
+        const resolved = resolvePointer(this.document, part);
+        const object = resolved ? this.asObject(resolved, seen) : undefined;
+        if (!object) return undefined;
+        Object.assign(merged.properties!, object.properties);
+        merged.required!.push(...(object.required ?? []));
+      }
+      return merged;
+    }
+
+    const isObject = schema.properties !== undefined && !schema.$ref && !schema.oneOf && !schema.anyOf;
+    return isObject ? schema : undefined;
+  }
+
+  private renderMembers(parentName: string, schema: SpecSchema): string {
+    const required = new Set(schema.required ?? []);
+    return Object.entries(schema.properties ?? {})
+      .map(([key, property]) => {
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        // Hoisted nested objects are named after their parent and property (Pet.tags → PetTag)
+        const type = this.typeText(property, `${parentName}${toIdentifier(pluralize.singular(key))}`);
+        // ID fields keep the unique IDs generated for them: range constraints would collide
+        const tags = ID_FIELDS.includes(key) ? [] : propertyTags(property);
+        const docs = renderDocs(property.description, tags, '  ');
+        return `${docs}  ${name}${required.has(key) ? '' : '?'}: ${type};`;
+      })
+      .join('\n');
+  }
+
+  /** TypeScript type of a schema; `hint` names the nested objects it hoists */
+  private typeText(schema: SpecSchema, hint: string): string {
+    if (schema.$ref) {
+      return schema.$ref.startsWith(SCHEMA_REF_PREFIX)
+        ? toIdentifier(schema.$ref.slice(SCHEMA_REF_PREFIX.length))
+        : 'any';
+    }
+
+    const text = this.baseTypeText(schema, hint);
+    return isNullable(schema) && text !== 'any' && text !== 'null' ? `${text} | null` : text;
+  }
+
+  private baseTypeText(schema: SpecSchema, hint: string): string {
+    if (schema.const !== undefined) return literalText(schema.const);
+    if (schema.enum) {
+      const values = schema.enum.filter((value) => value !== null).map(literalText);
+      return values.length > 0 ? values.join(' | ') : 'null';
+    }
+
+    const alternatives = schema.oneOf ?? schema.anyOf;
+    if (alternatives) return alternatives.map((alternative) => this.typeText(alternative, hint)).join(' | ');
+
+    const object = this.asObject(schema);
+    if (object) {
+      const name = this.uniqueName(hint);
+      this.declare(name, object, false);
+      return name;
+    }
+
+    const declared = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const types = declared.filter((type) => type !== 'null');
+    if (types.length === 0) {
+      if (declared.length > 0) return 'null';
+      if (schema.items) return `${wrapType(this.typeText(schema.items, hint))}[]`;
+      return 'any';
+    }
+
+    return types
+      .map((type) => {
+        switch (type) {
+          case 'string':
+            return 'string';
+          case 'number':
+          case 'integer':
+            return 'number';
+          case 'boolean':
+            return 'boolean';
+          case 'array':
+            return `${wrapType(schema.items ? this.typeText(schema.items, hint) : 'any')}[]`;
+          case 'object':
+            // Objects without declared properties (maps, free-form objects)
+            return 'object';
+          default:
+            return 'any';
+        }
+      })
+      .join(' | ');
+  }
+
+  private uniqueName(hint: string): string {
+    let name = hint;
+    for (let i = 2; this.taken.has(name); i++) name = `${hint}${i}`;
+    this.taken.add(name);
+    return name;
+  }
+}
+
+/** Constraint tags read by the constraint extractor and Intermock */
+function propertyTags(schema: SpecSchema): string[] {
+  const tags: string[] = [];
+  if (schema.minLength !== undefined) tags.push(`@minLength ${schema.minLength}`);
+  if (schema.maxLength !== undefined) tags.push(`@maxLength ${schema.maxLength}`);
+  if (schema.minimum !== undefined) tags.push(`@min ${schema.minimum}`);
+  if (schema.maximum !== undefined) tags.push(`@max ${schema.maximum}`);
+  // Tags end at the next `@` or `*/`: such patterns cannot be expressed
+  if (schema.pattern && !/@|\*\//.test(schema.pattern)) tags.push(`@pattern ${schema.pattern}`);
+  const mockType = schema.format ? FORMAT_MOCK_TYPES[schema.format] : undefined;
+  if (mockType) tags.push(`@mockType {${mockType}}`);
+  return tags;
+}
+
+function renderDocs(description: string | undefined, tags: string[], indent: string): string {
+  // Descriptions must neither close the comment nor start tags
+  const text = (description ?? '')
+    .split('\n')
+    .map((line) => line.replace(/\*\//g, '* /').replace(/@/g, '(at)').trim())
+    .filter(Boolean);
+  const lines = [...text, ...tags];
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function isNullable(schema: SpecSchema): boolean {
+  return schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+}
+
+function literalText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? JSON.stringify(value)
+    : 'any';
+}
+
+function wrapType(text: string): string {
+  return text.includes('|') ? `(${text})` : text;
+}
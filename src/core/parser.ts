@@ -1,9 +1,27 @@
 import * as intermock from 'intermock';
-import * as fs from 'fs';
+import * as ts from 'typescript';
 import { MockGenerationOptions } from '../types/config';
 import { extractConstraints } from '../utils/constraintExtractor';
 import { applyConstraintsToMock } from './constrainedGenerator';
 import { logger } from '../utils/logger';
+import { withSeed, deriveSeed } from '../utils/seededRandom';
+import { resolveIdStrategy } from '../utils/typeMapping';
+import { createIdAllocator } from '../utils/idStrategy';
+import {
+  getProgramSourceFiles,
+  getTypeChecker,
+  resolveTypeProperties,
+  ResolvedProperty,
+} from '../utils/typeResolver';
+
+/** Name prefix of the flattened interfaces handed to Intermock */
+const FLAT_INTERFACE_PREFIX = '__Flat_';
+
+/** `Date` and `Date | null` properties, which Intermock cannot mock */
+const DATE_TYPE = /^Date( \| null)?$/;
+
+/** Lets Intermock mock `Date` fields of nested types (as plain strings) instead of failing */
+const DATE_FALLBACK = 'type Date = string;';
 
 /**
  * Generates mock data from a TypeScript interface
@@ -16,28 +34,54 @@ import { logger } from '../utils/logger';
 export function generateMockFromInterface(
   filePath: string,
   interfaceName: string,
-  _options: MockGenerationOptions = {}
+  options: MockGenerationOptions = {}
 ): Record<string, unknown> {
+  if (options.seed !== undefined) {
+    const { seed, ...rest } = options;
+    return withSeed(seed, () => generateMockFromInterface(filePath, interfaceName, rest));
+  }
+
   try {
-    // Read the TypeScript file content
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
+    // Intermock resolves type names within a single file: merge the type file with every
+    // project file it imports so nested imported types (e.g. `address: Address`) are mocked,
+    // with every type reference renamed to a name unique across the merged files
+    const sourceFiles = getProgramSourceFiles(filePath);
+    const merge = new TypeNameMerger(getTypeChecker(filePath), sourceFiles);
+    const sources = sourceFiles.map((sourceFile) => merge.fileText(sourceFile));
+
+    // Intermock only understands plain interfaces: mock a flattened copy of the resolved type
+    // (inherited members, intersections, Pick/Omit/Partial) declared alongside the original
+    const flatName = `${FLAT_INTERFACE_PREFIX}${interfaceName}`;
+    const properties = resolveTypeProperties(filePath, interfaceName);
+    const flatInterface = renderFlatInterface(flatName, properties, merge);
 
     // Use Intermock to generate the mock
-    // Disable isFixedMode to have truly random data
+    // isFixedMode stays off: reproducibility comes from seeding the random sources instead
     const output = intermock.mock({
       language: 'typescript',
-      files: [[filePath, fileContent]],
-      interfaces: [interfaceName],
+      files: [[filePath, `${sources.join('\n')}\n${DATE_FALLBACK}\n${flatInterface}`]],
+      interfaces: [flatName],
       isFixedMode: false, // Always false to have variations
     });
 
     // Intermock returns an object with the interface name as key
-    let mockData = output[interfaceName as keyof typeof output];
+    let mockData = output[flatName as keyof typeof output];
 
     if (!mockData) {
       throw new Error(`Interface "${interfaceName}" not found in file ${filePath}`);
     }
 
+    // Dates are served as ISO 8601 strings, like a JSON API would
+    // (Intermock returns faker dates as `Date.toString()` text)
+    for (const property of properties) {
+      const value = (mockData as Record<string, unknown>)[property.name];
+      if (!DATE_TYPE.test(property.typeText) || (typeof value !== 'string' && !(value instanceof Date))) continue;
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+        (mockData as Record<string, unknown>)[property.name] = date.toISOString();
+      }
+    }
+
     // Extract and apply JSDoc constraints from the interface
     try {
       const constraints = extractConstraints(filePath, interfaceName);
@@ -75,16 +119,32 @@ export function generateMockArray(
   interfaceName: string,
   options: MockGenerationOptions = {}
 ): Record<string, unknown>[] {
-  const length = options.arrayLength ?? getRandomArrayLength();
+  const length =
+    options.arrayLength ??
+    (options.seed !== undefined ? withSeed(options.seed, getRandomArrayLength) : getRandomArrayLength());
   const items: Record<string, unknown>[] = [];
 
   for (let i = 0; i < length; i++) {
     // Generate each element independently
-    // Each call to generateMockFromInterface produces different data
-    const item = generateMockFromInterface(filePath, interfaceName, options);
+    // Each call to generateMockFromInterface produces different data; when seeded,
+    // every element gets its own derived seed so items differ but stay reproducible
+    const item = generateMockFromInterface(filePath, interfaceName, {
+      ...options,
+      seed: deriveSeed(options.seed, i),
+    });
     items.push(item);
   }
 
+  // Types with an `@idStrategy` get their IDs from it rather than from Intermock
+  const idStrategy = resolveIdStrategy(filePath, interfaceName);
+  if (idStrategy) {
+    const ids = createIdAllocator(idStrategy, [], deriveSeed(options.seed, 'id'));
+    for (const item of items) {
+      const idField = ['id', 'uuid', '_id'].find((field) => field in item);
+      if (idField !== undefined) item[idField] = ids.next();
+    }
+  }
+
   return items;
 }
 
@@ -94,3 +154,128 @@ export function generateMockArray(
 function getRandomArrayLength(): number {
   return Math.floor(Math.random() * 8) + 3; // 3 to 10
 }
+
+/**
+ * Renders resolved properties as a plain interface, keeping each property's JSDoc
+ * so Intermock's `@mockType` tags still apply. `Date` properties become strings
+ * mocked with a recent date.
+ */
+function renderFlatInterface(name: string, properties: ResolvedProperty[], merge: TypeNameMerger): string {
+  const members = properties.map((property) => {
+    const declaration = property.declaration;
+    const docs = declaration
+      ? (ts.getLeadingCommentRanges(declaration.getSourceFile().text, declaration.getFullStart()) ?? [])
+          .map((range) => declaration.getSourceFile().text.slice(range.pos, range.end))
+          .filter((comment) => comment.startsWith('/**'))
+      : [];
+    const key = /^[A-Za-z_$][\w$]*$/.test(property.name) ? property.name : JSON.stringify(property.name);
+    // The declared type node is written in its own file's names (e.g. an import alias)
+    let typeText = property.typeNode ? merge.nodeText(property.typeNode) : property.typeText;
+    if (DATE_TYPE.test(property.typeText)) {
+      typeText = typeText.replace('Date', 'string');
+      if (!docs.some((comment) => comment.includes('@mockType'))) docs.push('/** @mockType {date.recent} */');
+    }
+    return [...docs, `${key}${property.optional ? '?' : ''}: ${typeText};`]
+      .map((line) => `  ${line}`)
+      .join('\n');
+  });
+  return `interface ${name} {\n${members.join('\n')}\n}\n`;
+}
+
+/**
+ * Rewrites project files so they can be concatenated into one Intermock input. Import and
+ * re-export statements are dropped. References follow import aliases to the declared type
+ * (`import { Address as Addr }`: `Addr` → `Address`). A type name declared by several files
+ * is suffixed with the index of each declaring file, so the copies do not clash.
+ */
+class TypeNameMerger {
+  private names = new Map<ts.Symbol, string>();
+
+  constructor(
+    private checker: ts.TypeChecker,
+    sourceFiles: readonly ts.SourceFile[]
+  ) {
+    const declared = new Map<string, Array<{ symbol: ts.Symbol; index: number }>>();
+    sourceFiles.forEach((sourceFile, index) => {
+      for (const statement of sourceFile.statements) {
+        if (
+          !ts.isInterfaceDeclaration(statement) &&
+          !ts.isTypeAliasDeclaration(statement) &&
+          !ts.isEnumDeclaration(statement)
+        ) {
+          continue;
+        }
+        const symbol = this.targetSymbol(statement.name);
+        if (!symbol) continue;
+        const declarations = declared.get(statement.name.text) ?? [];
+        declarations.push({ symbol, index });
+        declared.set(statement.name.text, declarations);
+      }
+    });
+
+    for (const [name, declarations] of declared) {
+      const clashes = new Set(declarations.map(({ index }) => index)).size > 1;
+      for (const { symbol, index } of declarations) this.names.set(symbol, clashes ? `${name}__${index}` : name);
+    }
+  }
+
+  /** Text of a whole file, without its import / re-export statements */
+  fileText(sourceFile: ts.SourceFile): string {
+    const moduleStatements = sourceFile.statements.filter(
+      (statement) =>
+        ts.isImportDeclaration(statement) ||
+        ts.isImportEqualsDeclaration(statement) ||
+        (ts.isExportDeclaration(statement) && statement.moduleSpecifier !== undefined)
+    );
+    const edits = moduleStatements.map((statement) => ({
+      start: statement.getStart(sourceFile),
+      end: statement.getEnd(),
+      text: '',
+    }));
+    for (const statement of sourceFile.statements) {
+      if (!moduleStatements.includes(statement)) this.collectRenames(statement, edits);
+    }
+    return applyEdits(sourceFile.text, 0, edits);
+  }
+
+  /** Text of a node, e.g. a property's type */
+  nodeText(node: ts.Node): string {
+    const edits: TextEdit[] = [];
+    this.collectRenames(node, edits);
+    return applyEdits(node.getText(), node.getStart(), edits);
+  }
+
+  private collectRenames(node: ts.Node, edits: TextEdit[]): void {
+    if (ts.isIdentifier(node)) {
+      const symbol = this.targetSymbol(node);
+      const name = symbol && this.names.get(symbol);
+      if (name !== undefined && name !== node.text) {
+        edits.push({ start: node.getStart(), end: node.getEnd(), text: name });
+      }
+      return;
+    }
+    ts.forEachChild(node, (child) => this.collectRenames(child, edits));
+  }
+
+  /** The declared symbol an identifier refers to, through import aliases and exports */
+  private targetSymbol(identifier: ts.Identifier): ts.Symbol | undefined {
+    let symbol = this.checker.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = this.checker.getAliasedSymbol(symbol);
+    return symbol && this.checker.getExportSymbolOfSymbol(symbol);
+  }
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Applies non-overlapping edits, positioned in the file, to the text starting at `offset` */
+function applyEdits(text: string, offset: number, edits: TextEdit[]): string {
+  let result = text;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start - offset) + edit.text + result.slice(edit.end - offset);
+  }
+  return result;
+}
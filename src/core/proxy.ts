@@ -0,0 +1,216 @@
+import * as path from 'path';
+import type { IncomingMessage } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { EndpointSource, RouteTypeMapping, ServerConfig } from '../types/config';
+import { findTypeForUrl, getEndpointSource } from '../utils/typeMapping';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_RECORDINGS_DIR,
+  Recording,
+  RecordingEncoding,
+  loadRecording,
+  saveRecording,
+} from '../utils/recordings';
+import { findContractIssues } from './contractVerifier';
+
+/** Headers describing one connection, which must not be forwarded in either direction */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+/** Request headers recomputed by fetch for the upstream */
+const SKIPPED_REQUEST_HEADERS = [...HOP_BY_HOP_HEADERS, 'host', 'content-length'];
+
+/** Response headers invalidated by fetch, which decompresses the body */
+const SKIPPED_RESPONSE_HEADERS = [...HOP_BY_HOP_HEADERS, 'content-length', 'content-encoding'];
+
+/** Methods forwarded for `hybrid` types; the other methods are mocked */
+const READ_METHODS = ['GET', 'HEAD'];
+
+/** Drift problems listed per response before the rest are summarized */
+const MAX_DRIFT_ERRORS = 10;
+
+/** Raw request bodies captured by the body parsers, forwarded as-is */
+const rawBodies = new WeakMap<IncomingMessage, Buffer>();
+
+/**
+ * `verify` hook of the body parsers keeping the raw body of each request,
+ * so proxied requests are forwarded byte for byte
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer): void {
+  rawBodies.set(req, buffer);
+}
+
+/**
+ * Middleware forwarding requests the mocks do not serve to a real backend.
+ *
+ * A request is forwarded when no @endpoint type matches its URL, or when the source of
+ * the matched type (`config.sources`, else its `@source` tag) is `proxy`, or `hybrid`
+ * for reads; other requests go on to the mock routes.
+ * - `config.proxy`: forwarded to the upstream, and the response recorded to disk
+ * - `config.replay`: answered from the recordings, without network access;
+ *   requests never recorded go to the upstream when `config.proxy` is set too, else 404
+ * - `config.validateProxy`: JSON responses of typed routes are checked against the interface
+ */
+export function proxyMiddleware(config: ServerConfig) {
+  const recordingsDir = config.recordingsDir ?? DEFAULT_RECORDINGS_DIR;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const mapping = findTypeForUrl(req.path, config.typesDir);
+    if (mapping && !shouldForward(req.method, resolveEndpointSource(mapping, config))) {
+      next();
+      return;
+    }
+
+    try {
+      if (config.replay) {
+        const recording = loadRecording(recordingsDir, req.method, req.originalUrl);
+        if (recording) {
+          if (mapping && config.validateProxy) reportDrift(recording, mapping);
+          sendRecording(res, recording, 'replay');
+          return;
+        }
+        if (!config.proxy) {
+          res.status(404).json({
+            error: 'Recording not found',
+            message: `No recording of ${req.method} ${req.originalUrl} in ${path.resolve(recordingsDir)}`,
+            hint: 'Record it first by running the server with --proxy <url>',
+          });
+          return;
+        }
+      }
+
+      const recording = await forward(req, config.proxy!);
+      saveRecording(recordingsDir, recording);
+      if (mapping && config.validateProxy) reportDrift(recording, mapping);
+      sendRecording(res, recording, 'proxy');
+    } catch (error) {
+      logger.error(`Proxy request failed: ${req.method} ${req.originalUrl}`, error);
+      res.status(502).json({
+        error: 'Bad Gateway',
+        message: `Upstream ${config.proxy} is unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  };
+}
+
+/** Source of a typed route: the config map first, then the `@source` tag, else mocked */
+function resolveEndpointSource(mapping: RouteTypeMapping, config: ServerConfig): EndpointSource {
+  const configured = config.sources?.[mapping.typeName];
+  if (configured) return configured;
+  return (mapping.filePath && getEndpointSource(mapping.filePath, mapping.typeName)) || 'mock';
+}
+
+function shouldForward(method: string, source: EndpointSource): boolean {
+  return source === 'proxy' || (source === 'hybrid' && READ_METHODS.includes(method.toUpperCase()));
+}
+
+/**
+ * Checks a successful JSON response against the interface of its route and logs the drift:
+ * the item itself, or every item of a collection read (a bare array, or the first array of an envelope)
+ */
+function reportDrift(recording: Recording, mapping: RouteTypeMapping): void {
+  const { status, encoding, body } = recording.response;
+  if (!mapping.filePath || encoding !== 'json' || status < 200 || status >= 300) return;
+
+  const isCollectionRead = mapping.isArray && READ_METHODS.includes(recording.request.method.toUpperCase());
+  const problems = findContractIssues(mapping.filePath, mapping.typeName, body, isCollectionRead).map(
+    (issue) => `${issue.path}: ${issue.message}`
+  );
+  if (problems.length === 0) return;
+
+  const listed = problems.slice(0, MAX_DRIFT_ERRORS).map((problem) => `\n  - ${problem}`).join('');
+  const more = problems.length > MAX_DRIFT_ERRORS ? `\n  … and ${problems.length - MAX_DRIFT_ERRORS} more` : '';
+  logger.warn(
+    `Contract drift: ${recording.request.method} ${recording.request.url} does not match ${mapping.typeName}${listed}${more}`
+  );
+}
+
+/** Sends a request to the upstream and captures its response as a recording */
+async function forward(req: Request, upstream: string): Promise<Recording> {
+  const target = `${upstream.replace(/\/+$/, '')}${req.originalUrl}`;
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined || SKIPPED_REQUEST_HEADERS.includes(name)) continue;
+    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  }
+
+  const body = await readRequestBody(req);
+  const response = await fetch(target, {
+    method: req.method,
+    headers,
+    body: body && body.length > 0 ? new Uint8Array(body) : undefined,
+    redirect: 'manual',
+  });
+  logger.debug(`Proxied ${req.method} ${req.originalUrl} → ${target} (${response.status})`);
+
+  const responseHeaders: Record<string, string | string[]> = {};
+  response.headers.forEach((value, name) => {
+    if (!SKIPPED_RESPONSE_HEADERS.includes(name) && name !== 'set-cookie') responseHeaders[name] = value;
+  });
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) responseHeaders['set-cookie'] = cookies;
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return {
+    request: { method: req.method, url: req.originalUrl },
+    response: { status: response.status, headers: responseHeaders, ...encodeBody(buffer, response.headers.get('content-type')) },
+  };
+}
+
+/** Body of the request: as captured by the body parsers, else read from the stream */
+async function readRequestBody(req: Request): Promise<Buffer | undefined> {
+  if (req.method === 'GET' || req.method === 'HEAD') return undefined;
+
+  const captured = rawBodies.get(req);
+  if (captured) return captured;
+  if (!req.readable) return undefined;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Stores JSON bodies parsed, text as text and anything else as base64 */
+function encodeBody(buffer: Buffer, contentType: string | null): { encoding: RecordingEncoding; body: unknown } {
+  const type = contentType?.toLowerCase() ?? '';
+  const text = buffer.toString('utf-8');
+
+  if (/[/+]json\b/.test(type) && text.trim() !== '') {
+    try {
+      return { encoding: 'json', body: JSON.parse(text) };
+    } catch {
+      // Invalid JSON is kept verbatim
+    }
+  }
+  if (type === '' || type.startsWith('text/') || /[/+](json|xml|javascript)\b|urlencoded/.test(type)) {
+    return { encoding: 'utf8', body: text };
+  }
+  return { encoding: 'base64', body: buffer.toString('base64') };
+}
+
+function decodeBody(recording: Recording): Buffer {
+  const { encoding, body } = recording.response;
+  if (encoding === 'json') return Buffer.from(JSON.stringify(body));
+  return Buffer.from(String(body ?? ''), encoding === 'base64' ? 'base64' : 'utf-8');
+}
+
+function sendRecording(res: Response, recording: Recording, source: 'proxy' | 'replay'): void {
+  res.status(recording.response.status);
+  for (const [name, value] of Object.entries(recording.response.headers)) {
+    res.setHeader(name, value);
+  }
+  res.setHeader('x-mock-source', source);
+  res.end(decodeBody(recording));
+}
+
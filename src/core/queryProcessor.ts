@@ -3,19 +3,84 @@
  * for list (array) endpoints.
  */
 
+import * as vm from 'vm';
+import { PaginationMode } from '../types/config';
+
 export const DEFAULT_PAGE = 1;
 export const DEFAULT_PAGE_SIZE = 20;
 export const MAX_PAGE_SIZE = 100;
 /** Size of the virtual "database" pool generated before filtering/pagination. */
 export const POOL_SIZE = 100;
 
-const RESERVED_PARAMS = new Set(['page', 'pageSize', 'sort']);
+const RESERVED_PARAMS = new Set(['page', 'pageSize', 'sort', 'expand', 'include', 'or', 'q', 'fields']);
+/** Additional parameters of cursor pagination, not filters in that mode */
+const CURSOR_PARAMS = new Set(['cursor', 'limit']);
+
+/** Longest `_regex` pattern accepted */
+const MAX_REGEX_LENGTH = 100;
+/**
+ * Time the `_regex` filters of one request may take in all. Patterns run on Node's single
+ * thread, so a catastrophically backtracking one (`(a+)+$`) would otherwise stall every request.
+ */
+const REGEX_TIME_BUDGET_MS = 100;
+/** Tests a pattern against values in a separate context, so the budget can interrupt it */
+const REGEX_SCRIPT = new vm.Script('values.map((value) => regex.test(value))');
+const regexContext = vm.createContext({});
+
+/**
+ * Suffixes of filter params and their operator; a suffix ending another one
+ * (`_gte` / `_gt`) comes first. Params without a suffix are exact matches.
+ */
+const FILTER_SUFFIXES: Array<[string, FilterOperator]> = [
+  ['_contains', 'contains'],
+  ['_startsWith', 'startsWith'],
+  ['_regex', 'regex'],
+  ['_exists', 'exists'],
+  ['_gte', 'gte'],
+  ['_lte', 'lte'],
+  ['_gt', 'gt'],
+  ['_lt', 'lt'],
+  ['_ne', 'ne'],
+  ['_nin', 'nin'],
+  ['_in', 'in'],
+];
+
+/** Depth down to which nested fields can be filtered and sorted on */
+const MAX_PATH_DEPTH = 4;
+
+/** ID fields breaking ties in cursor pagination, so the order of items is total */
+const ID_FIELDS = ['id', 'uuid', '_id'];
+
+/** Sort key of the search relevance in cursor pagination, not a field of the items */
+const SCORE_KEY = '$score';
 
 export interface SortEntry {
   field: string;
   dir: 'asc' | 'desc';
 }
 
+/** Comparison applied by a filter param, from its suffix (`status_ne`) or exact match without one */
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'regex'
+  | 'exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  /** Filter value; the list of accepted values for `in` / `nin` */
+  value: string | string[];
+}
+
 export interface ParsedQueryParams {
   page: number;
   pageSize: number;
@@ -24,6 +89,36 @@ export interface ParsedQueryParams {
   containsFilters: Record<string, string>;
   gteFilters: Record<string, string>;
   lteFilters: Record<string, string>;
+  /** Filters with the other operators (`_ne`, `_in`, `_regex`, `_gt`, ...) */
+  filters?: FilterCondition[];
+  /** `or` groups: an item must match at least one condition of each group */
+  orGroups?: FilterCondition[][];
+  /** Relation names to embed, from `expand` and its alias `include` */
+  expand: string[];
+  /** Lowercase terms of the `q` full-text search */
+  search?: string[];
+  /** Fields searched by `q` (the `@searchable` properties); every string field when absent */
+  searchFields?: string[];
+  /** Values matched by each `_regex` pattern, filled in by matchRegexFilters */
+  regexMatches?: Map<string, Set<string>>;
+  /** Cursor mode: maximum number of items returned (default DEFAULT_PAGE_SIZE) */
+  limit?: number;
+  /** Cursor mode: decoded `cursor` param, absent for the first page */
+  cursor?: Cursor;
+}
+
+/**
+ * Position in a sorted collection, exchanged with clients as an opaque string.
+ * Holds the sort key of the item it was issued from rather than an offset, so pages
+ * stay consistent when items are inserted or deleted in between requests.
+ */
+export interface Cursor {
+  /** Sort and search the cursor was issued for (e.g. "name:asc"), which the next requests must keep */
+  sort: string;
+  /** Sort key values of the boundary item, followed by its ID */
+  key: unknown[];
+  /** `next`: items after the boundary; `prev`: items before it */
+  direction: 'next' | 'prev';
 }
 
 export interface PaginationMeta {
@@ -38,14 +133,69 @@ export interface PaginatedResponse {
   meta: PaginationMeta;
 }
 
+export interface CursorPaginationMeta {
+  total: number;
+  limit: number;
+  /** Cursor of the following page, null on the last page */
+  nextCursor: string | null;
+  /** Cursor of the preceding page, null on the first page */
+  prevCursor: string | null;
+}
+
+export interface CursorPaginatedResponse {
+  data: Record<string, unknown>[];
+  meta: CursorPaginationMeta;
+}
+
 export type QueryParseError = { error: string };
 
+/**
+ * Parses the comma-separated `expand` / `include` params into a de-duplicated list
+ * of relation names. Both params are accepted and merged.
+ */
+export function parseExpandParam(
+  query: Record<string, string | string[] | undefined>
+): string[] {
+  return parseListParams(query, ['expand', 'include']);
+}
+
+/**
+ * Parses the comma-separated `fields` param (`fields=id,name,address.city`) into
+ * a de-duplicated list of field paths; empty when the whole items are requested.
+ */
+export function parseFieldsParam(
+  query: Record<string, string | string[] | undefined>
+): string[] {
+  return parseListParams(query, ['fields']);
+}
+
+function parseListParams(
+  query: Record<string, string | string[] | undefined>,
+  keys: string[]
+): string[] {
+  const names: string[] = [];
+  for (const key of keys) {
+    const raw = query[key];
+    if (raw === undefined) continue;
+    const values = Array.isArray(raw) ? raw : [raw];
+    for (const value of values) {
+      for (const name of value.split(',')) {
+        const trimmed = name.trim();
+        if (trimmed && !names.includes(trimmed)) names.push(trimmed);
+      }
+    }
+  }
+  return names;
+}
+
 /**
  * Parses and validates query parameters from an Express request.
+ * In cursor mode, `cursor` and `limit` are parsed instead of being treated as filters.
  * Returns a ParsedQueryParams on success or a QueryParseError on invalid input.
  */
 export function parseQueryParams(
-  query: Record<string, string | string[] | undefined>
+  query: Record<string, string | string[] | undefined>,
+  mode: PaginationMode = 'offset'
 ): ParsedQueryParams | QueryParseError {
   // page
   const rawPage = query['page'];
@@ -101,28 +251,132 @@ export function parseQueryParams(
     }
   }
 
+  // q — whitespace-separated search terms
+  const rawQ = query['q'];
+  const qStr = Array.isArray(rawQ) ? rawQ[0] ?? '' : rawQ ?? '';
+  const search = [...new Set(qStr.toLowerCase().split(/\s+/).filter(Boolean))];
+
+  // cursor mode — limit and cursor, which must have been issued for the same sort and search
+  let limit: number | undefined;
+  let cursor: Cursor | undefined;
+  if (mode === 'cursor') {
+    const rawLimit = query['limit'];
+    limit = DEFAULT_PAGE_SIZE;
+    if (rawLimit !== undefined) {
+      const str = Array.isArray(rawLimit) ? rawLimit[0] ?? '' : rawLimit;
+      const l = Number(str);
+      if (!Number.isInteger(l) || l < 1) {
+        return { error: '"limit" must be a positive integer' };
+      }
+      if (l > MAX_PAGE_SIZE) {
+        return { error: `"limit" must not exceed ${MAX_PAGE_SIZE}` };
+      }
+      limit = l;
+    }
+
+    const rawCursor = query['cursor'];
+    if (rawCursor !== undefined) {
+      cursor = decodeCursor(Array.isArray(rawCursor) ? rawCursor[0] ?? '' : rawCursor);
+      if (!cursor) {
+        return { error: '"cursor" is invalid' };
+      }
+      if (cursor.sort !== serializeSort(sort, search)) {
+        return { error: '"cursor" was issued for a different sort order or search. Request the first page again' };
+      }
+    }
+  }
+
   // filters — derived from remaining query params
   const exactFilters: Record<string, string> = {};
   const containsFilters: Record<string, string> = {};
   const gteFilters: Record<string, string> = {};
   const lteFilters: Record<string, string> = {};
+  const filters: FilterCondition[] = [];
 
   for (const [key, value] of Object.entries(query)) {
     if (RESERVED_PARAMS.has(key) || value === undefined) continue;
+    if (mode === 'cursor' && CURSOR_PARAMS.has(key)) continue;
     const strVal = Array.isArray(value) ? (value[0] ?? '') : value;
 
-    if (key.endsWith('_contains')) {
-      containsFilters[key.slice(0, -9)] = strVal;
-    } else if (key.endsWith('_gte')) {
-      gteFilters[key.slice(0, -4)] = strVal;
-    } else if (key.endsWith('_lte')) {
-      lteFilters[key.slice(0, -4)] = strVal;
+    const condition = parseFilter(key, strVal);
+    if ('error' in condition) return condition;
+    const { field, operator } = condition;
+
+    if (operator === 'eq') {
+      exactFilters[field] = strVal;
+    } else if (operator === 'contains') {
+      containsFilters[field] = strVal;
+    } else if (operator === 'gte') {
+      gteFilters[field] = strVal;
+    } else if (operator === 'lte') {
+      lteFilters[field] = strVal;
     } else {
-      exactFilters[key] = strVal;
+      filters.push(condition);
     }
   }
 
-  return { page, pageSize, sort, exactFilters, containsFilters, gteFilters, lteFilters };
+  // or — each param is a group of "|"-separated "field[_operator]:value" conditions
+  const orGroups: FilterCondition[][] = [];
+  const rawOr = query['or'];
+  for (const group of rawOr === undefined ? [] : Array.isArray(rawOr) ? rawOr : [rawOr]) {
+    const conditions: FilterCondition[] = [];
+    for (const part of group.split('|').filter(Boolean)) {
+      const colonIdx = part.indexOf(':');
+      if (colonIdx <= 0) {
+        return { error: `Invalid "or" condition "${part}". Expected "field:value" or "field_operator:value"` };
+      }
+      const condition = parseFilter(part.slice(0, colonIdx).trim(), part.slice(colonIdx + 1));
+      if ('error' in condition) return condition;
+      conditions.push(condition);
+    }
+    if (conditions.length > 0) orGroups.push(conditions);
+  }
+
+  const expand = parseExpandParam(query);
+
+  const parsed: ParsedQueryParams = {
+    page,
+    pageSize,
+    sort,
+    exactFilters,
+    containsFilters,
+    gteFilters,
+    lteFilters,
+    ...(filters.length > 0 && { filters }),
+    ...(orGroups.length > 0 && { orGroups }),
+    expand,
+    ...(search.length > 0 && { search }),
+  };
+  return mode === 'cursor' ? { ...parsed, limit, cursor } : parsed;
+}
+
+/**
+ * Parses one filter param (`status_ne=archived`) into a condition,
+ * validating the values of `_exists` and `_regex`
+ */
+function parseFilter(key: string, value: string): FilterCondition | QueryParseError {
+  const [suffix, operator] = FILTER_SUFFIXES.find(
+    ([candidate]) => key.endsWith(candidate) && key.length > candidate.length
+  ) ?? ['', 'eq'];
+  const field = key.slice(0, key.length - suffix.length);
+
+  if (operator === 'in' || operator === 'nin') {
+    return { field, operator, value: value.split(',').map((item) => item.trim()) };
+  }
+  if (operator === 'exists' && value !== 'true' && value !== 'false') {
+    return { error: `"${key}" must be "true" or "false"` };
+  }
+  if (operator === 'regex') {
+    if (value.length > MAX_REGEX_LENGTH) {
+      return { error: `"${key}" must be at most ${MAX_REGEX_LENGTH} characters` };
+    }
+    try {
+      new RegExp(value, 'i');
+    } catch {
+      return { error: `"${key}" is not a valid regular expression` };
+    }
+  }
+  return { field, operator, value };
 }
 
 /**
@@ -141,96 +395,313 @@ export function validateSortFields(
   return null;
 }
 
-function getFieldValue(item: Record<string, unknown>, field: string): unknown {
-  return item[field];
+/**
+ * Validates that all filtered fields (including those of `or` groups) are declared.
+ * Returns an error message string, or null if all fields are valid.
+ */
+export function validateFilterFields(
+  params: ParsedQueryParams,
+  allowedFields: Set<string>
+): string | null {
+  const conditions = [...collectConditions(params), ...(params.orGroups ?? []).flat()];
+  for (const { field } of conditions) {
+    if (!allowedFields.has(field)) {
+      return `Cannot filter by unknown field "${field}". Allowed fields: ${[...allowedFields].sort().join(', ')}`;
+    }
+  }
+  return null;
 }
 
-function matchesExact(
-  item: Record<string, unknown>,
-  field: string,
-  value: string
-): boolean {
-  const v = getFieldValue(item, field);
-  if (v === undefined) return true; // unknown field — no constraint
+/**
+ * Validates that all fields of a `fields` projection are declared.
+ * Returns an error message string, or null if all fields are valid.
+ */
+export function validateProjectionFields(
+  fields: string[],
+  allowedFields: Set<string>
+): string | null {
+  for (const field of fields) {
+    if (!allowedFields.has(field)) {
+      return `Cannot select unknown field "${field}". Allowed fields: ${[...allowedFields].sort().join(', ')}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Keeps only the given fields of an item (a sparse fieldset). Dot paths keep the
+ * nested value inside its parents (`address.city` → `{ address: { city } }`), in
+ * every element of the arrays they cross. Fields missing from the item are left out.
+ */
+export function projectFields(item: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+  for (const field of fields) copyPath(item, projected, field.split('.'));
+  return projected;
+}
+
+function copyPath(source: Record<string, unknown>, target: Record<string, unknown>, keys: string[]): void {
+  const [key, ...rest] = keys as [string, ...string[]];
+  if (!(key in source)) return;
+  const value = source[key];
+  // Already copied whole, e.g. by `address` before `address.city`
+  if (target[key] === value) return;
+
+  if (rest.length === 0 || value === null || (!Array.isArray(value) && !isRecord(value))) {
+    target[key] = value;
+  } else if (Array.isArray(value)) {
+    const elements = Array.isArray(target[key])
+      ? (target[key] as unknown[])
+      : value.map((element) => (isRecord(element) ? {} : element));
+    value.forEach((element, i) => {
+      if (isRecord(element) && isRecord(elements[i])) copyPath(element, elements[i] as Record<string, unknown>, rest);
+    });
+    target[key] = elements;
+  } else {
+    const nested = isRecord(target[key]) ? (target[key] as Record<string, unknown>) : {};
+    copyPath(value, nested, rest);
+    target[key] = nested;
+  }
+}
+
+/**
+ * Dot paths of the values held by the items, nested objects included (`address`,
+ * `address.city`). Paths inside arrays of objects (`lines.sku`) are only listed
+ * with `throughArrays`.
+ */
+export function collectFieldPaths(items: Record<string, unknown>[], throughArrays = false): Set<string> {
+  const paths = new Set<string>();
+  const visit = (value: unknown, prefix: string, depth: number): void => {
+    if (depth > MAX_PATH_DEPTH) return;
+    if (Array.isArray(value)) {
+      if (throughArrays) value.forEach((element) => visit(element, prefix, depth));
+      return;
+    }
+    if (!isRecord(value)) return;
+    for (const [key, nested] of Object.entries(value)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      paths.add(path);
+      visit(nested, path, depth + 1);
+    }
+  };
+  items.forEach((item) => visit(item, '', 0));
+  return paths;
+}
+
+/**
+ * Reads a field by dot path (`address.city`). Through an array, the values of every
+ * element are collected (`lines.sku` → `["A1", "B2"]`), undefined when there are none.
+ */
+export function getFieldValue(item: Record<string, unknown>, field: string): unknown {
+  if (field in item) return item[field];
+  return resolvePath(item, field.split('.'));
+}
+
+function resolvePath(value: unknown, keys: string[]): unknown {
+  if (keys.length === 0) return value;
+  if (Array.isArray(value)) {
+    const values = value.flatMap((element) => {
+      const resolved = resolvePath(element, keys);
+      return resolved === undefined ? [] : Array.isArray(resolved) ? resolved : [resolved];
+    });
+    return values.length > 0 ? values : undefined;
+  }
+  if (!isRecord(value)) return undefined;
+  return resolvePath(value[keys[0]!], keys.slice(1));
+}
+
+/**
+ * Compares a field value to a filter value: true / false, or undefined when the filter
+ * value cannot apply to the field (e.g. "abc" on a number), which ignores the constraint
+ */
+function equals(v: unknown, value: string): boolean | undefined {
   if (typeof v === 'string') return v.toLowerCase() === value.toLowerCase();
   if (typeof v === 'boolean') {
     const normalized = value.trim().toLowerCase();
-    if (normalized !== 'true' && normalized !== 'false') return true; // invalid — ignore constraint
+    if (normalized !== 'true' && normalized !== 'false') return undefined;
     return v === (normalized === 'true');
   }
   if (typeof v === 'number') {
     const numValue = Number(value);
-    if (Number.isNaN(numValue)) return true; // invalid — ignore constraint
+    if (Number.isNaN(numValue)) return undefined;
     return v === numValue;
   }
   return String(v) === value;
 }
 
-function matchesContains(
-  item: Record<string, unknown>,
-  field: string,
-  value: string
-): boolean {
-  const v = getFieldValue(item, field);
-  if (v === undefined) return true;
-  return String(v).toLowerCase().includes(value.toLowerCase());
-}
-
-function matchesGte(
-  item: Record<string, unknown>,
-  field: string,
-  value: string
-): boolean {
-  const v = getFieldValue(item, field);
-  if (v === undefined) return true;
+/**
+ * Orders a field value against a filter value, as numbers or as dates.
+ * Returns a negative, zero or positive number, or undefined when they do not compare.
+ */
+function compareToValue(v: unknown, value: string): number | undefined {
   if (typeof v === 'number') {
     const num = Number(value);
-    return isNaN(num) ? true : v >= num;
+    return isNaN(num) ? undefined : v - num;
   }
   const threshold = new Date(value);
-  if (isNaN(threshold.getTime())) return true;
+  if (isNaN(threshold.getTime())) return undefined;
   const itemDate = new Date(String(v));
-  if (isNaN(itemDate.getTime())) return true;
-  return itemDate >= threshold;
+  if (isNaN(itemDate.getTime())) return undefined;
+  return itemDate.getTime() - threshold.getTime();
 }
 
-function matchesLte(
+/**
+ * Tests one filter condition against an item. Fields missing from the item only match
+ * `_ne`, `_nin` and `_exists=false`; values that do not apply to the field are ignored.
+ * Array values match when one of their elements does, or for `_ne` / `_nin`, when none
+ * of them is excluded.
+ */
+function matchesCondition(
   item: Record<string, unknown>,
-  field: string,
-  value: string
+  { field, operator, value }: FilterCondition,
+  regexMatches: Map<string, Set<string>>
 ): boolean {
   const v = getFieldValue(item, field);
-  if (v === undefined) return true;
-  if (typeof v === 'number') {
-    const num = Number(value);
-    return isNaN(num) ? true : v <= num;
+  const values = Array.isArray(value) ? value : [value];
+
+  if (operator === 'exists') return (v !== undefined && v !== null) === (values[0] === 'true');
+  if (!Array.isArray(v)) return matchesValue(v, operator, values, regexMatches);
+  return operator === 'ne' || operator === 'nin'
+    ? v.every((element) => matchesValue(element, operator, values, regexMatches))
+    : v.some((element) => matchesValue(element, operator, values, regexMatches));
+}
+
+function matchesValue(
+  v: unknown,
+  operator: FilterOperator,
+  values: string[],
+  regexMatches: Map<string, Set<string>>
+): boolean {
+  const single = values[0] ?? '';
+  if (v === undefined || v === null) return operator === 'ne' || operator === 'nin';
+
+  switch (operator) {
+    case 'eq':
+      return equals(v, single) ?? true;
+    case 'ne':
+      return !(equals(v, single) ?? false);
+    case 'in':
+      return values.some((candidate) => equals(v, candidate) === true);
+    case 'nin':
+      return !values.some((candidate) => equals(v, candidate) === true);
+    case 'contains':
+      return String(v).toLowerCase().includes(single.toLowerCase());
+    case 'startsWith':
+      return String(v).toLowerCase().startsWith(single.toLowerCase());
+    case 'regex':
+      return regexMatches.get(single)?.has(String(v)) ?? false;
   }
-  const threshold = new Date(value);
-  if (isNaN(threshold.getTime())) return true;
-  const itemDate = new Date(String(v));
-  if (isNaN(itemDate.getTime())) return true;
-  return itemDate <= threshold;
+
+  const cmp = compareToValue(v, single);
+  if (cmp === undefined) return true;
+  switch (operator) {
+    case 'gt':
+      return cmp > 0;
+    case 'gte':
+      return cmp >= 0;
+    case 'lt':
+      return cmp < 0;
+    case 'lte':
+      return cmp <= 0;
+    default:
+      return true;
+  }
+}
+
+/** All the AND-ed conditions of the params, from the per-operator records and `filters` */
+function collectConditions(params: ParsedQueryParams): FilterCondition[] {
+  const fromRecord = (filters: Record<string, string>, operator: FilterOperator): FilterCondition[] =>
+    Object.entries(filters).map(([field, value]) => ({ field, operator, value }));
+  return [
+    ...fromRecord(params.exactFilters, 'eq'),
+    ...fromRecord(params.containsFilters, 'contains'),
+    ...fromRecord(params.gteFilters, 'gte'),
+    ...fromRecord(params.lteFilters, 'lte'),
+    ...(params.filters ?? []),
+  ];
+}
+
+/**
+ * Runs the `_regex` filters of the params over the values of their fields, under a shared
+ * time budget, and keeps the matching values in `params.regexMatches` for the filtering.
+ * Returns an error message when the patterns run out of time, or null.
+ */
+export function matchRegexFilters(params: ParsedQueryParams, items: Record<string, unknown>[]): string | null {
+  const regexConditions = [...collectConditions(params), ...(params.orGroups ?? []).flat()].filter(
+    (condition) => condition.operator === 'regex'
+  );
+  const texts = new Map<string, Set<string>>();
+  for (const { field, value } of regexConditions) {
+    const pattern = String(value);
+    const patternTexts = texts.get(pattern) ?? new Set<string>();
+    texts.set(pattern, patternTexts);
+    for (const item of items) {
+      const v = getFieldValue(item, field);
+      for (const element of Array.isArray(v) ? v : [v]) {
+        if (element !== undefined && element !== null) patternTexts.add(String(element));
+      }
+    }
+  }
+
+  const deadline = Date.now() + REGEX_TIME_BUDGET_MS;
+  const regexMatches = new Map<string, Set<string>>();
+  for (const [pattern, patternTexts] of texts) {
+    const values = [...patternTexts];
+    regexContext.regex = new RegExp(pattern, 'i');
+    regexContext.values = values;
+    try {
+      const results = REGEX_SCRIPT.runInContext(regexContext, { timeout: Math.max(1, deadline - Date.now()) }) as boolean[];
+      regexMatches.set(pattern, new Set(values.filter((_, i) => results[i])));
+    } catch {
+      return `Regular expression "${pattern}" took longer than ${REGEX_TIME_BUDGET_MS} ms to match; simplify it`;
+    } finally {
+      regexContext.regex = undefined;
+      regexContext.values = undefined;
+    }
+  }
+  params.regexMatches = regexMatches;
+  return null;
 }
 
+/**
+ * Filters the items: every condition must match, and one condition of each `or` group.
+ * Conditions on fields no item has are ignored (see validateFilterFields to reject them).
+ * `_regex` conditions are matched by matchRegexFilters first when the caller did not.
+ */
 function applyFilters(
   items: Record<string, unknown>[],
   params: ParsedQueryParams
 ): Record<string, unknown>[] {
-  return items.filter((item) => {
-    for (const [field, value] of Object.entries(params.exactFilters)) {
-      if (!matchesExact(item, field, value)) return false;
-    }
-    for (const [field, value] of Object.entries(params.containsFilters)) {
-      if (!matchesContains(item, field, value)) return false;
-    }
-    for (const [field, value] of Object.entries(params.gteFilters)) {
-      if (!matchesGte(item, field, value)) return false;
-    }
-    for (const [field, value] of Object.entries(params.lteFilters)) {
-      if (!matchesLte(item, field, value)) return false;
-    }
-    return true;
-  });
+  if (!params.regexMatches) {
+    const regexError = matchRegexFilters(params, items);
+    if (regexError) throw new Error(regexError);
+  }
+  const regexMatches = params.regexMatches ?? new Map<string, Set<string>>();
+  const knownFields = collectFieldPaths(items, true);
+  const applies = (condition: FilterCondition) => knownFields.has(condition.field);
+  const conditions = collectConditions(params).filter(applies);
+  const orGroups = (params.orGroups ?? [])
+    .map((group) => group.filter(applies))
+    .filter((group) => group.length > 0);
+
+  return items.filter(
+    (item) =>
+      conditions.every((condition) => matchesCondition(item, condition, regexMatches)) &&
+      orGroups.every((group) => group.some((condition) => matchesCondition(item, condition, regexMatches)))
+  );
+}
+
+/** Compares two field values in the given direction; missing values sort last. */
+export function compareValues(av: unknown, bv: unknown, dir: SortEntry['dir']): number {
+  if (av === bv) return 0;
+  if (av === undefined || av === null) return bv === undefined || bv === null ? 0 : dir === 'asc' ? 1 : -1;
+  if (bv === undefined || bv === null) return dir === 'asc' ? -1 : 1;
+  let cmp: number;
+  if (typeof av === 'string' && typeof bv === 'string') {
+    cmp = av.localeCompare(bv);
+  } else {
+    cmp = (av as number) < (bv as number) ? -1 : 1;
+  }
+  return dir === 'asc' ? cmp : -cmp;
 }
 
 function applySort(
@@ -240,23 +711,71 @@ function applySort(
   if (sort.length === 0) return items;
   return [...items].sort((a, b) => {
     for (const { field, dir } of sort) {
-      const av = a[field];
-      const bv = b[field];
-      if (av === bv) continue;
-      if (av === undefined || av === null) return dir === 'asc' ? 1 : -1;
-      if (bv === undefined || bv === null) return dir === 'asc' ? -1 : 1;
-      let cmp: number;
-      if (typeof av === 'string' && typeof bv === 'string') {
-        cmp = av.localeCompare(bv);
-      } else {
-        cmp = av < bv ? -1 : 1;
-      }
-      return dir === 'asc' ? cmp : -cmp;
+      const cmp = compareValues(getFieldValue(a, field), getFieldValue(b, field), dir);
+      if (cmp !== 0) return cmp;
     }
     return 0;
   });
 }
 
+/**
+ * Scores the items matching the `q` search terms, by relevance: each term found in a
+ * searched field scores 2 as a whole word and 1 inside a word. Items matching no term
+ * are left out.
+ */
+function scoreSearch(
+  items: Record<string, unknown>[],
+  terms: string[],
+  fields: string[] | undefined
+): Map<Record<string, unknown>, number> {
+  const patterns = terms.map((term) => ({
+    term,
+    word: new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}($|[^\\p{L}\\p{N}])`, 'u'),
+  }));
+  const scores = new Map<Record<string, unknown>, number>();
+  for (const item of items) {
+    const texts = (fields ? fields.map((field) => getFieldValue(item, field)) : [item])
+      .flatMap(collectStrings)
+      .map((text) => text.toLowerCase());
+    let score = 0;
+    for (const { term, word } of patterns) {
+      for (const text of texts) {
+        if (word.test(text)) score += 2;
+        else if (text.includes(term)) score += 1;
+      }
+    }
+    if (score > 0) scores.set(item, score);
+  }
+  return scores;
+}
+
+/** String values held by a value, in nested objects and arrays too */
+function collectStrings(value: unknown, depth = 0): string[] {
+  if (typeof value === 'string') return [value];
+  if (depth > MAX_PATH_DEPTH) return [];
+  if (Array.isArray(value)) return value.flatMap((element) => collectStrings(element, depth));
+  if (isRecord(value)) return Object.values(value).flatMap((nested) => collectStrings(nested, depth + 1));
+  return [];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the items matching the filters and the `q` search of the params,
+ * ranked by relevance when searching
+ */
+export function selectItems(
+  pool: Record<string, unknown>[],
+  params: ParsedQueryParams
+): Record<string, unknown>[] {
+  const filtered = applyFilters(pool, params);
+  if (!params.search) return filtered;
+  const scores = scoreSearch(filtered, params.search, params.searchFields);
+  return filtered.filter((item) => scores.has(item)).sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
+
 /**
  * Filters, sorts, and paginates a pool of items according to the parsed query params.
  * Returns a PaginatedResponse with data and meta.
@@ -265,8 +784,8 @@ export function applyPagination(
   pool: Record<string, unknown>[],
   params: ParsedQueryParams
 ): PaginatedResponse {
-  const filtered = applyFilters(pool, params);
-  const sorted = applySort(filtered, params.sort);
+  // An explicit sort takes over the search ranking, which then breaks its ties
+  const sorted = applySort(selectItems(pool, params), params.sort);
 
   const total = sorted.length;
   const totalPages = total === 0 ? 1 : Math.ceil(total / params.pageSize);
@@ -280,3 +799,95 @@ export function applyPagination(
     meta: { total, page, pageSize: params.pageSize, totalPages },
   };
 }
+
+/**
+ * Filters, sorts, and paginates a pool of items with cursors (keyset pagination).
+ * Items are ordered by the sort fields (by search relevance without any) then by ID,
+ * and pages start right after (or end right before) the sort key held by the cursor.
+ */
+export function applyCursorPagination(
+  pool: Record<string, unknown>[],
+  params: ParsedQueryParams
+): CursorPaginatedResponse {
+  const limit = params.limit ?? DEFAULT_PAGE_SIZE;
+  const idField = ID_FIELDS.find((field) => pool.some((item) => item[field] !== undefined));
+  const sortFields: SortEntry[] =
+    params.search && params.sort.length === 0 ? [{ field: SCORE_KEY, dir: 'desc' }] : params.sort;
+  const keyFields: SortEntry[] =
+    idField && !sortFields.some((entry) => entry.field === idField)
+      ? [...sortFields, { field: idField, dir: 'asc' }]
+      : sortFields;
+
+  let filtered = applyFilters(pool, params);
+  const scores = params.search ? scoreSearch(filtered, params.search, params.searchFields) : undefined;
+  if (scores) filtered = filtered.filter((item) => scores.has(item));
+
+  const keyOf = (item: Record<string, unknown>): unknown[] =>
+    keyFields.map(({ field }) => (field === SCORE_KEY ? scores?.get(item) : getFieldValue(item, field)) ?? null);
+  const compareKeys = (a: unknown[], b: unknown[]): number => {
+    for (let i = 0; i < keyFields.length; i++) {
+      const cmp = compareValues(a[i], b[i], keyFields[i]!.dir);
+      if (cmp !== 0) return cmp;
+    }
+    return 0;
+  };
+
+  const sorted = filtered.sort((a, b) => compareKeys(keyOf(a), keyOf(b)));
+  const total = sorted.length;
+  const boundary = params.cursor?.key;
+
+  let start = 0;
+  let end = Math.min(limit, total);
+  if (boundary && params.cursor?.direction === 'next') {
+    const after = sorted.findIndex((item) => compareKeys(keyOf(item), boundary) > 0);
+    start = after === -1 ? total : after;
+    end = Math.min(start + limit, total);
+  } else if (boundary) {
+    const notBefore = sorted.findIndex((item) => compareKeys(keyOf(item), boundary) >= 0);
+    end = notBefore === -1 ? total : notBefore;
+    start = Math.max(0, end - limit);
+  }
+
+  const data = sorted.slice(start, end);
+  const sort = serializeSort(params.sort, params.search);
+  // An empty page (its items were deleted) keeps the requested position as reference
+  const lastKey = data.length > 0 ? keyOf(data[data.length - 1]!) : boundary;
+  const firstKey = data.length > 0 ? keyOf(data[0]!) : boundary;
+
+  return {
+    data,
+    meta: {
+      total,
+      limit,
+      nextCursor: end < total && lastKey ? encodeCursor({ sort, key: lastKey, direction: 'next' }) : null,
+      prevCursor: start > 0 && firstKey ? encodeCursor({ sort, key: firstKey, direction: 'prev' }) : null,
+    },
+  };
+}
+
+/** Canonical form of a sort and search, bound to the cursors issued for them */
+function serializeSort(sort: SortEntry[], search: string[] = []): string {
+  const serialized = sort.map(({ field, dir }) => `${field}:${dir}`).join(',');
+  return search.length > 0 ? `${serialized};q=${search.join(' ')}` : serialized;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  const payload = { s: cursor.sort, k: cursor.key, d: cursor.direction === 'next' ? 'n' : 'p' };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/** Decodes a cursor param, or returns undefined when it was not issued by encodeCursor */
+function decodeCursor(value: string): Cursor | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8')) as Record<string, unknown>;
+    if (typeof payload['s'] !== 'string' || !Array.isArray(payload['k'])) return undefined;
+    if (payload['d'] !== 'n' && payload['d'] !== 'p') return undefined;
+    return { sort: payload['s'], key: payload['k'], direction: payload['d'] === 'n' ? 'next' : 'prev' };
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,237 @@
+/**
+ * Referential integrity between the pools of @endpoint types:
+ * linking foreign keys to IDs that actually exist, and propagating deletes.
+ */
+
+import { MockDataStore } from './cache';
+import { OnDeleteMode } from '../types/config';
+import { extractRelations, FieldRelation } from '../utils/relationExtractor';
+import { extractMockId } from '../utils/mockId';
+import { createSeededRandom, deriveSeed } from '../utils/seededRandom';
+import { logger } from '../utils/logger';
+import pluralize from 'pluralize';
+
+/**
+ * A relation that can be embedded via `?expand=` / `?include=`
+ */
+export interface ExpandableRelation {
+  /** Name used in the query string and as the embedded key (e.g. "user", "comments") */
+  name: string;
+
+  /** `one`: this type holds the foreign key; `many`: the target type references this one */
+  kind: 'one' | 'many';
+
+  /** Foreign-key field (on this type for `one`, on the target type for `many`) */
+  field: string;
+
+  /** Related type name */
+  target: string;
+}
+
+/**
+ * Returns the relations of a type whose target is another known @endpoint type.
+ * Conventional `xxxId` fields pointing at unknown types (e.g. `authorId` without an
+ * `Author` interface) are ignored — tag them with `@ref User` instead.
+ */
+export function getEndpointRelations(
+  typeName: string,
+  filePath: string,
+  typeMap: Map<string, string>
+): FieldRelation[] {
+  return extractRelations(filePath, typeName).filter((relation) => typeMap.has(relation.target));
+}
+
+/** Returns the raw ID value (id, uuid, _id) of an item, preserving its JSON type. */
+function rawMockId(item: Record<string, unknown>): unknown {
+  for (const field of ['id', 'uuid', '_id']) {
+    if (item[field] !== undefined) return item[field];
+  }
+  return undefined;
+}
+
+/**
+ * Rewrites foreign keys of the seeded pools so they reference IDs present in the
+ * referenced type's live pool. Values that already point at an existing item are kept,
+ * so re-running after a partial reseed only repairs dangling references.
+ * Items written by clients (write store) are never touched. With a seed, the chosen
+ * IDs are reproducible.
+ */
+export function linkPoolReferences(
+  store: MockDataStore,
+  typeMap: Map<string, string>,
+  seed?: number
+): void {
+  typeMap.forEach((filePath, typeName) => {
+    const pool = store.getPool(typeName, filePath);
+    if (!pool || pool.length === 0) return;
+
+    const targets = getEndpointRelations(typeName, filePath, typeMap)
+      .map(({ field, target }) => {
+        const ids = store
+          .getLivePool(target, typeMap.get(target)!)
+          .map(rawMockId)
+          .filter((id) => id !== undefined);
+        return { field, ids, existing: new Set(ids.map(String)) };
+      })
+      .filter(({ ids }) => ids.length > 0);
+    if (targets.length === 0) return;
+
+    const linkSeed = deriveSeed(seed, typeName, 'refs');
+    const random = linkSeed !== undefined ? createSeededRandom(linkSeed) : Math.random;
+    const written = store.getAllWriteEntries(typeName, filePath);
+    let relinked = 0;
+
+    const linked = pool.map((item) => {
+      const itemId = extractMockId(item);
+      if (itemId !== undefined && written.has(itemId)) return item;
+
+      let updated: Record<string, unknown> | undefined;
+      for (const { field, ids, existing } of targets) {
+        const value = item[field];
+        if (value !== null && value !== undefined && existing.has(String(value))) continue;
+        updated = updated ?? { ...item };
+        updated[field] = ids[Math.floor(random() * ids.length)];
+        relinked++;
+      }
+      return updated ?? item;
+    });
+
+    if (relinked > 0) {
+      store.setPool(typeName, filePath, linked);
+      logger.debug(`References linked: ${typeName} (${relinked} value(s))`);
+    }
+  });
+}
+
+/**
+ * Propagates the deletion of `typeName` item `id` to every item referencing it:
+ * - `cascade`: referencing items are deleted too (recursively)
+ * - `nullify`: the referencing field is set to null
+ * - `none`: references are left dangling
+ */
+export function applyDeleteToReferences(
+  store: MockDataStore,
+  typeMap: Map<string, string>,
+  typeName: string,
+  id: string,
+  mode: OnDeleteMode
+): void {
+  if (mode === 'none') return;
+
+  const visited = new Set<string>([`${typeName}::${id}`]);
+  const queue: Array<{ typeName: string; id: string }> = [{ typeName, id }];
+
+  while (queue.length > 0) {
+    const deleted = queue.shift()!;
+
+    typeMap.forEach((childFilePath, childType) => {
+      const keys = getEndpointRelations(childType, childFilePath, typeMap)
+        .filter((relation) => relation.target === deleted.typeName)
+        .map((relation) => relation.field);
+      if (keys.length === 0) return;
+
+      const referencing = store
+        .getLivePool(childType, childFilePath)
+        .filter((item) => keys.some((key) => item[key] !== null && String(item[key]) === deleted.id));
+
+      for (const item of referencing) {
+        const childId = extractMockId(item);
+        if (childId === undefined) continue;
+
+        if (mode === 'cascade') {
+          const visitKey = `${childType}::${childId}`;
+          if (visited.has(visitKey)) continue;
+          visited.add(visitKey);
+
+          store.markDeleted(childType, childFilePath, childId);
+          const pool = store.getPool(childType, childFilePath);
+          if (pool) {
+            store.setPool(childType, childFilePath, pool.filter((entry) => extractMockId(entry) !== childId));
+          }
+          queue.push({ typeName: childType, id: childId });
+          logger.debug(`Cascade delete: ${childType} ${childId}`);
+        } else {
+          const updated: Record<string, unknown> = { ...item };
+          for (const key of keys) {
+            if (String(updated[key]) === deleted.id) updated[key] = null;
+          }
+          store.setById(childType, childFilePath, childId, updated);
+          const pool = store.getPool(childType, childFilePath);
+          if (pool) {
+            store.setPool(
+              childType,
+              childFilePath,
+              pool.map((entry) => (extractMockId(entry) === childId ? updated : entry))
+            );
+          }
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Lists the relations of a type that can be expanded:
+ * - to-one, from its own foreign keys: `userId` → `user` (fields without an `Id`
+ *   suffix keep their name, and the embedded object replaces the raw ID)
+ * - to-many, from other types referencing it: `Comment.postId` → `comments` on Post
+ * When two relations would share a name, the first one wins.
+ */
+export function getExpandableRelations(
+  typeName: string,
+  filePath: string,
+  typeMap: Map<string, string>
+): ExpandableRelation[] {
+  const relations: ExpandableRelation[] = [];
+  const add = (relation: ExpandableRelation): void => {
+    if (!relations.some((r) => r.name === relation.name)) relations.push(relation);
+  };
+
+  for (const { field, target } of getEndpointRelations(typeName, filePath, typeMap)) {
+    const name = field.endsWith('Id') && field.length > 2 ? field.slice(0, -2) : field;
+    add({ name, kind: 'one', field, target });
+  }
+
+  typeMap.forEach((childFilePath, childType) => {
+    for (const { field, target } of getEndpointRelations(childType, childFilePath, typeMap)) {
+      if (target !== typeName) continue;
+      const name = pluralize(childType.charAt(0).toLowerCase() + childType.slice(1));
+      add({ name, kind: 'many', field, target: childType });
+    }
+  });
+
+  return relations;
+}
+
+/**
+ * Returns a copy of `item` with the requested relations embedded from the live pools.
+ * To-one relations resolve to the referenced object (or null), to-many to an array.
+ */
+export function expandItem(
+  store: MockDataStore,
+  typeMap: Map<string, string>,
+  item: Record<string, unknown>,
+  relations: ExpandableRelation[]
+): Record<string, unknown> {
+  const expanded: Record<string, unknown> = { ...item };
+  const itemId = extractMockId(item);
+
+  for (const relation of relations) {
+    const targetPool = store.getLivePool(relation.target, typeMap.get(relation.target)!);
+
+    if (relation.kind === 'one') {
+      const ref = item[relation.field];
+      expanded[relation.name] =
+        ref === null || ref === undefined
+          ? null
+          : targetPool.find((candidate) => extractMockId(candidate) === String(ref)) ?? null;
+    } else {
+      expanded[relation.name] =
+        itemId === undefined
+          ? []
+          : targetPool.filter((candidate) => String(candidate[relation.field]) === itemId);
+    }
+  }
+
+  return expanded;
+}
@@ -1,36 +1,55 @@
 import * as path from 'path';
 import { Request, Response } from 'express';
-import { ServerConfig, ApiErrorResponse } from '../types/config';
-import { findTypeForUrl } from '../utils/typeMapping';
-import { parseUrlSegments, isIdSegment } from '../utils/pluralize';
+import {
+  ServerConfig,
+  ApiErrorResponse,
+  RouteTypeMapping,
+  ValidationErrorResponse,
+} from '../types/config';
+import { findTypeForUrl, getTypeMap, resolvePaginationMode, resolveIdStrategy } from '../utils/typeMapping';
 import { generateMockFromInterface, generateMockArray } from './parser';
 import { mockDataStore } from './cache';
 import { logger } from '../utils/logger';
 import { saveMockData } from '../utils/dataPersistence';
 import { extractMockId } from '../utils/mockId';
+import { createIdAllocator } from '../utils/idStrategy';
+import { computeETag, matchesETag } from '../utils/etag';
+import { deriveSeed } from '../utils/seededRandom';
+import { findParentKey } from '../utils/relationExtractor';
+import { extractSearchableFields } from '../utils/searchableFields';
+import { validateRequestBody, BodyValidationMode } from '../utils/bodyValidator';
+import { SchemaBuilder, flattenSchemaFields } from './openapiSchema';
+import {
+  linkPoolReferences,
+  applyDeleteToReferences,
+  getExpandableRelations,
+  expandItem,
+  ExpandableRelation,
+} from './relations';
 import {
   parseQueryParams,
+  parseExpandParam,
+  parseFieldsParam,
   validateSortFields,
+  validateFilterFields,
+  validateProjectionFields,
+  projectFields,
+  collectFieldPaths,
   applyPagination,
+  applyCursorPagination,
+  selectItems,
+  matchRegexFilters,
+  ParsedQueryParams,
   POOL_SIZE,
 } from './queryProcessor';
+import { parseAggregateParams, validateAggregateParams, aggregate } from './aggregation';
+import { resolveEnvelope, renderEnvelope, buildPageLinks } from './envelope';
 import type { WriteMethod } from '../types/config';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Extracts the ID value from a URL (last segment that looks like an ID). */
-function extractIdFromUrl(url: string): string | undefined {
-  const segments = parseUrlSegments(url);
-  for (let i = segments.length - 1; i >= 0; i--) {
-    if (isIdSegment(segments[i]!)) {
-      return segments[i];
-    }
-  }
-  return undefined;
-}
-
 /** Returns the name of the first recognised ID field present in the object, if any. */
 function findIdField(obj: Record<string, unknown>): string | undefined {
   for (const field of ['id', 'uuid', '_id']) {
@@ -46,10 +65,93 @@ function isWriteMethodEnabled(config: ServerConfig, method: WriteMethod): boolea
   return wm[method] !== false;
 }
 
-/** Builds the Allow header value for collection endpoints. */
+/** Returns true when request bodies are validated (explicit setting, else on in strict mode). */
+function isBodyValidationEnabled(config: ServerConfig): boolean {
+  return config.validateBody ?? config.mockMode === 'strict';
+}
+
+/** Returns true when filters on undeclared fields are rejected (explicit setting, else on in strict mode). */
+function isStrictFilteringEnabled(config: ServerConfig): boolean {
+  return config.strictFilters ?? config.mockMode === 'strict';
+}
+
+/**
+ * Validates a write body against the interface when validation is enabled.
+ * Sends a 422 listing every offending field and returns true when the body is rejected.
+ */
+function rejectInvalidBody(
+  body: unknown,
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  mode: BodyValidationMode
+): boolean {
+  if (!isBodyValidationEnabled(config)) return false;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return false;
+
+  const errors = validateRequestBody(filePath, mapping.typeName, body as Record<string, unknown>, mode);
+  if (errors.length === 0) return false;
+
+  const response: ValidationErrorResponse = {
+    error: 'Validation failed',
+    message: `Request body does not match the ${mapping.typeName} interface`,
+    errors,
+  };
+  res.status(422).json(response);
+  return true;
+}
+
+/**
+ * Checks every item of a batch body before any is written: each must be a non-empty
+ * object and, when validation is enabled, match the interface. Sends a 400, or a 422
+ * listing the offending fields prefixed by the item index (`[2].email`), and returns
+ * true when the batch is rejected.
+ */
+function rejectInvalidBatch(
+  items: unknown[],
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  mode: BodyValidationMode
+): boolean {
+  if (items.length === 0) {
+    res.status(400).json({ error: 'Bad Request', message: 'Request body array must not be empty' });
+    return true;
+  }
+  const invalid = items.findIndex(
+    (item) => !item || typeof item !== 'object' || Array.isArray(item) || Object.keys(item).length === 0
+  );
+  if (invalid !== -1) {
+    res.status(400).json({ error: 'Bad Request', message: `Item ${invalid} of the request body must be a non-empty object` });
+    return true;
+  }
+  if (!isBodyValidationEnabled(config)) return false;
+
+  const errors = items.flatMap((item, index) =>
+    validateRequestBody(filePath, mapping.typeName, item as Record<string, unknown>, mode).map((error) => ({
+      ...error,
+      field: `[${index}].${error.field}`,
+    }))
+  );
+  if (errors.length === 0) return false;
+
+  const response: ValidationErrorResponse = {
+    error: 'Validation failed',
+    message: `Request body items do not match the ${mapping.typeName} interface`,
+    errors,
+  };
+  res.status(422).json(response);
+  return true;
+}
+
+/** Builds the Allow header value for collection endpoints (PATCH and DELETE apply to batches). */
 function allowForCollection(config: ServerConfig): string {
   const methods = ['GET'];
-  if (isWriteMethodEnabled(config, 'post')) methods.push('POST');
+  if (isWriteMethodEnabled(config, 'post'))   methods.push('POST');
+  if (isWriteMethodEnabled(config, 'patch'))  methods.push('PATCH');
+  if (isWriteMethodEnabled(config, 'delete')) methods.push('DELETE');
   return methods.join(', ');
 }
 
@@ -83,6 +185,353 @@ function updatePoolEntry(
   mockDataStore.setPool(typeName, filePath, pool);
 }
 
+/** Returns the current state of an item: its write-store entry, else its pool item; undefined once deleted. */
+function findCurrentItem(typeName: string, filePath: string, id: string): Record<string, unknown> | undefined {
+  if (mockDataStore.getDeletedIds(typeName, filePath).has(id)) return undefined;
+  return (
+    mockDataStore.getById(typeName, filePath, id) ??
+    mockDataStore.getPool(typeName, filePath)?.find((item) => extractMockId(item) === id)
+  );
+}
+
+/**
+ * Sends a 404 and returns true when the item at a nested single-item URL belongs to another
+ * parent (e.g. /users/1/posts/5 for a post of user 2). Top-level URLs, missing items and
+ * child types without a key to the parent pass.
+ */
+function rejectOtherParentItem(res: Response, mapping: RouteTypeMapping, filePath: string, id: string | undefined): boolean {
+  const parentKey = resolveParentKey(mapping, filePath);
+  if (parentKey === undefined || !mapping.parent || id === undefined) return false;
+  const item = findCurrentItem(mapping.typeName, filePath, id);
+  if (!item || String(item[parentKey]) === mapping.parent.id) return false;
+
+  res.status(404).json({
+    error: 'Not Found',
+    message: `${mapping.typeName} ${id} does not belong to ${mapping.parent.typeName} ${mapping.parent.id}`,
+  });
+  return true;
+}
+
+/**
+ * Sets the foreign key of an item written at a nested URL to the parent from the URL,
+ * numeric when `template` (the generated mock) holds a number there.
+ */
+function attachToParent(
+  item: Record<string, unknown>,
+  template: Record<string, unknown>,
+  mapping: RouteTypeMapping,
+  filePath: string
+): void {
+  const parentKey = resolveParentKey(mapping, filePath);
+  if (parentKey === undefined || !mapping.parent) return;
+  const parentId = mapping.parent.id;
+  item[parentKey] = typeof template[parentKey] === 'number' && /^\d+$/.test(parentId) ? Number(parentId) : parentId;
+}
+
+/** Returns the ETag of an item in its current version. */
+function etagOf(typeName: string, filePath: string, id: string, item: Record<string, unknown>): string {
+  return computeETag(item, mockDataStore.getVersion(typeName, filePath, id));
+}
+
+/**
+ * Checks the `If-Match` header of a single-item write against the current ETag of the item.
+ * Sends a 412 and returns true when the item changed since the client read it, or does not
+ * exist (`If-Match: *` only requires it to exist).
+ */
+function rejectFailedPrecondition(
+  req: Request,
+  res: Response,
+  mapping: RouteTypeMapping,
+  filePath: string,
+  id: string | undefined
+): boolean {
+  const ifMatch = req.get('If-Match');
+  if (ifMatch === undefined) return false;
+
+  const current = id !== undefined ? findCurrentItem(mapping.typeName, filePath, id) : undefined;
+  const etag = current && id !== undefined ? etagOf(mapping.typeName, filePath, id, current) : undefined;
+  if (matchesETag(ifMatch, etag, false)) return false;
+
+  if (etag !== undefined) res.set('ETag', etag);
+  res.status(412).json({
+    error: 'Precondition Failed',
+    message:
+      etag !== undefined
+        ? `${mapping.typeName} ${id} has changed since it was read; its current ETag is ${etag}`
+        : `${mapping.typeName} ${id} does not exist`,
+  });
+  return true;
+}
+
+/** Saves a written item in the write store and the pool. */
+function storeItem(typeName: string, filePath: string, id: string, obj: Record<string, unknown>): void {
+  mockDataStore.setById(typeName, filePath, id, obj);
+  updatePoolEntry(typeName, filePath, id, obj);
+}
+
+/** Expandable relations of each type, per type map build (a rebuild after hot-reload drops them) */
+const expandableRelationsCache = new WeakMap<Map<string, string>, Map<string, ExpandableRelation[]>>();
+
+/** `@searchable` fields of each type, per type map build */
+const searchableFieldsCache = new WeakMap<Map<string, string>, Map<string, string[]>>();
+
+/** Declared field paths of each type, for `fields` and strict filters, per type map build */
+const declaredFieldPathsCache = new WeakMap<Map<string, string>, Map<string, Set<string>>>();
+
+/** Returns the value cached for a type under the current type map, computing it on first use. */
+function cachedPerTypeMap<T>(
+  typeMap: Map<string, string>,
+  cache: WeakMap<Map<string, string>, Map<string, T>>,
+  typeName: string,
+  compute: () => T
+): T {
+  let entries = cache.get(typeMap);
+  if (!entries) {
+    entries = new Map();
+    cache.set(typeMap, entries);
+  }
+  let value = entries.get(typeName);
+  if (value === undefined) {
+    value = compute();
+    entries.set(typeName, value);
+  }
+  return value;
+}
+
+/** Deletes an item from the write store and the pool, then propagates the delete to referencing items. */
+function removeItem(typeName: string, filePath: string, id: string, config: ServerConfig): void {
+  mockDataStore.markDeleted(typeName, filePath, id);
+  const pool = mockDataStore.getPool(typeName, filePath);
+  if (pool) {
+    const newPool = pool.filter((item) => extractMockId(item) !== id);
+    mockDataStore.setPool(typeName, filePath, newPool);
+  }
+
+  applyDeleteToReferences(mockDataStore, getTypeMap(config.typesDir), typeName, id, config.onDelete ?? 'none');
+}
+
+/**
+ * Returns the foreign-key field linking a nested collection to its parent
+ * (e.g. `userId` for /users/123/posts), or undefined for top-level URLs and
+ * child types without a detectable key.
+ */
+function resolveParentKey(mapping: RouteTypeMapping, filePath: string): string | undefined {
+  if (!mapping.parent) return undefined;
+  return findParentKey(filePath, mapping.typeName, mapping.parent.typeName);
+}
+
+/**
+ * Resolves `?expand=` / `?include=` relation names against the relations of the mapped type.
+ * Returns a function embedding them into an item, or an error naming the unknown relation.
+ */
+function resolveExpansion(
+  names: string[],
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string
+): { expand: (item: Record<string, unknown>) => Record<string, unknown> } | { error: string } {
+  if (names.length === 0) return { expand: (item) => item };
+
+  const typeMap = getTypeMap(config.typesDir);
+  const available = cachedPerTypeMap(typeMap, expandableRelationsCache, mapping.typeName, () =>
+    getExpandableRelations(mapping.typeName, filePath, typeMap)
+  );
+  const unknown = names.find((name) => !available.some((relation) => relation.name === name));
+  if (unknown !== undefined) {
+    const allowed = available.map((relation) => relation.name).sort().join(', ') || 'none';
+    return { error: `Cannot expand unknown relation "${unknown}". Allowed relations: ${allowed}` };
+  }
+
+  const relations = available.filter((relation) => names.includes(relation.name));
+  return { expand: (item) => expandItem(mockDataStore, typeMap, item, relations) };
+}
+
+/**
+ * Resolves the `?fields=` projection against the declared fields of the mapped type
+ * and the relations embedded by `expand` (with the fields of the embedded items).
+ * Returns a function keeping only those fields of an item, or an error naming the unknown field.
+ */
+function resolveProjection(
+  fields: string[],
+  expanded: string[],
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string
+): { project: (item: Record<string, unknown>) => Record<string, unknown> } | { error: string } {
+  if (fields.length === 0) return { project: (item) => item };
+
+  const allowed = new Set([...declaredFieldPaths(config, filePath, mapping.typeName), ...expanded]);
+  const error = validateProjectionFields(
+    fields.filter((field) => !expanded.some((name) => field.startsWith(`${name}.`))),
+    allowed
+  );
+  if (error) return { error };
+
+  return { project: (item) => projectFields(item, fields) };
+}
+
+/** Dot paths of the fields an interface declares, nested objects and array elements included */
+function declaredFieldPaths(config: ServerConfig, filePath: string, typeName: string): Set<string> {
+  return cachedPerTypeMap(getTypeMap(config.typesDir), declaredFieldPathsCache, typeName, () => {
+    const builder = new SchemaBuilder();
+    const schema = builder.objectSchema(filePath, typeName);
+    return new Set(flattenSchemaFields(schema, builder.components).map((field) => field.path));
+  });
+}
+
+/** Keeps the string and string-list values of the query, as the query processor expects them. */
+function sanitizeQuery(req: Request): Record<string, string | string[] | undefined> {
+  const sanitizedQuery: Record<string, string | string[] | undefined> = {};
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value === 'string' || value === undefined) {
+      sanitizedQuery[key] = value;
+    } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      sanitizedQuery[key] = value as string[];
+    }
+  }
+  return sanitizedQuery;
+}
+
+/**
+ * Returns the live items of a collection, seeding its pool on first request, and the
+ * items visible at the URL: for a nested collection (e.g. /users/123/posts), the parent's children.
+ */
+function loadCollection(
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string
+): { livePool: Record<string, unknown>[]; scopedPool: Record<string, unknown>[] } {
+  if (!mockDataStore.getPool(mapping.typeName, filePath)) {
+    const pool = generateMockArray(filePath, mapping.typeName, {
+      arrayLength: POOL_SIZE,
+      seed: deriveSeed(config.seed, mapping.typeName),
+    });
+    mockDataStore.setPool(mapping.typeName, filePath, pool);
+    linkPoolReferences(mockDataStore, getTypeMap(config.typesDir), config.seed);
+  }
+
+  const livePool = mockDataStore.getLivePool(mapping.typeName, filePath);
+  const parentKey = resolveParentKey(mapping, filePath);
+  const parentId = mapping.parent?.id;
+  const scopedPool =
+    parentKey !== undefined
+      ? livePool.filter((item) => String(item[parentKey]) === parentId)
+      : livePool;
+  return { livePool, scopedPool };
+}
+
+/**
+ * Validates the filters of a list query (when strict filtering is enabled), matches its
+ * `_regex` filters against the items within their time budget and restricts its `q` search
+ * to the `@searchable` fields. Returns an error message, or null when valid.
+ */
+function prepareFilters(
+  parsed: ParsedQueryParams,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  items: Record<string, unknown>[]
+): string | null {
+  if (isStrictFilteringEnabled(config)) {
+    const filterError = validateFilterFields(parsed, declaredFieldPaths(config, filePath, mapping.typeName));
+    if (filterError) return filterError;
+  }
+
+  const regexError = matchRegexFilters(parsed, items);
+  if (regexError) return regexError;
+
+  if (parsed.search) {
+    const searchFields = cachedPerTypeMap(getTypeMap(config.typesDir), searchableFieldsCache, mapping.typeName, () =>
+      extractSearchableFields(filePath, mapping.typeName)
+    );
+    if (searchFields.length > 0) parsed.searchFields = searchFields;
+  }
+  return null;
+}
+
+/**
+ * Builds a created item: a generated mock overridden by the body, attached to the
+ * parent of a nested collection URL.
+ */
+function buildCreatedItem(
+  body: unknown,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string
+): Record<string, unknown> {
+  const mock = generateWriteFiller(config, mapping.typeName, filePath);
+  const merged: Record<string, unknown> =
+    body && typeof body === 'object' && !Array.isArray(body)
+      ? { ...mock, ...body }
+      : { ...mock };
+
+  // Nested collection: the new item belongs to the parent from the URL
+  attachToParent(merged, mock, mapping, filePath);
+  return merged;
+}
+
+/**
+ * Returns a function giving the items created by one request their ID, or returning
+ * the client-supplied ID when it is already taken. Without a client ID, the type's
+ * `@idStrategy` generates one; untagged types keep the generated mock's ID unless it
+ * is taken, then get a UUID. Generated IDs never reuse live or deleted IDs.
+ */
+function createIdAssigner(
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string
+): (item: Record<string, unknown>, body: unknown) => string | undefined {
+  const declared = resolveIdStrategy(filePath, mapping.typeName);
+  // Generated IDs continue from the pool, so a type with a strategy seeds it first
+  const livePool = declared
+    ? loadCollection(mapping, config, filePath).livePool
+    : mockDataStore.getLivePool(mapping.typeName, filePath);
+  const liveIds = new Set(livePool.map((item) => extractMockId(item)));
+  const deletedIds = mockDataStore.getDeletedIds(mapping.typeName, filePath);
+  const ids = createIdAllocator(
+    declared ?? { strategy: 'uuid' },
+    [...liveIds, ...deletedIds],
+    deriveSeed(config.seed, mapping.typeName, 'id', liveIds.size + deletedIds.size)
+  );
+
+  return (item, body) => {
+    const idField = findIdField(item);
+    if (idField === undefined) return undefined;
+
+    const id = String(item[idField]);
+    const supplied = body && typeof body === 'object' ? (body as Record<string, unknown>)[idField] : undefined;
+    if (supplied !== undefined) {
+      if (liveIds.has(id)) return id;
+      ids.reserve(id);
+    } else if (declared || liveIds.has(id) || deletedIds.has(id)) {
+      item[idField] = ids.next();
+    } else {
+      ids.reserve(id);
+    }
+    liveIds.add(String(item[idField]));
+    return undefined;
+  };
+}
+
+/** Sends the 409 answering a create whose client-supplied ID is taken */
+function sendIdConflict(res: Response, typeName: string, id: string): void {
+  res.status(409).json({ error: 'Conflict', message: `${typeName} with ID "${id}" already exists` });
+}
+
+/**
+ * Generates the mock that fills fields missing from a write body.
+ * With a configured seed, each filler gets its own derived seed so a replayed
+ * sequence of writes produces identical responses.
+ */
+function generateWriteFiller(
+  config: ServerConfig,
+  typeName: string,
+  filePath: string
+): Record<string, unknown> {
+  const seed = deriveSeed(config.seed, typeName, 'write', mockDataStore.nextSequence(typeName, filePath));
+  return generateMockFromInterface(filePath, typeName, { seed });
+}
+
 /** Saves mock data to the persist file if persistData is configured. */
 function maybePersist(config: ServerConfig): void {
   if (!config.persistData) return;
@@ -96,51 +545,68 @@ function maybePersist(config: ServerConfig): void {
 async function handleGet(
   req: Request,
   res: Response,
-  mapping: { typeName: string; isArray: boolean; filePath?: string },
-  _config: ServerConfig,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
   filePath: string,
   forcedStatus: number | undefined
 ): Promise<void> {
-  if (mapping.isArray) {
-    // Sanitize query params
-    const sanitizedQuery: Record<string, string | string[] | undefined> = {};
-    for (const [key, value] of Object.entries(req.query)) {
-      if (typeof value === 'string' || value === undefined) {
-        sanitizedQuery[key] = value;
-      } else if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
-        sanitizedQuery[key] = value as string[];
-      }
-    }
+  const sanitizedQuery = sanitizeQuery(req);
+
+  const expanded = parseExpandParam(sanitizedQuery);
+  const expansion = resolveExpansion(expanded, mapping, config, filePath);
+  if ('error' in expansion) {
+    res.status(400).json({ error: 'Invalid expand parameter', message: expansion.error });
+    return;
+  }
+
+  const fields = parseFieldsParam(sanitizedQuery);
+  const projection = resolveProjection(fields, expanded, mapping, config, filePath);
+  if ('error' in projection) {
+    res.status(400).json({ error: 'Invalid fields parameter', message: projection.error });
+    return;
+  }
+  const present = (item: Record<string, unknown>) => projection.project(expansion.expand(item));
 
-    const parsed = parseQueryParams(sanitizedQuery);
+  if (mapping.isArray) {
+    const paginationMode = resolvePaginationMode(filePath, mapping.typeName, config.pagination);
+    const parsed = parseQueryParams(sanitizedQuery, paginationMode);
     if ('error' in parsed) {
       res.status(400).json({ error: 'Invalid query parameters', message: parsed.error });
       return;
     }
 
-    // Seed pool on first request
-    if (!mockDataStore.getPool(mapping.typeName, filePath)) {
-      const pool = generateMockArray(filePath, mapping.typeName, { arrayLength: POOL_SIZE });
-      mockDataStore.setPool(mapping.typeName, filePath, pool);
-    }
-
-    const livePool = mockDataStore.getLivePool(mapping.typeName, filePath);
+    const { scopedPool } = loadCollection(mapping, config, filePath);
 
-    if (parsed.sort.length > 0 && livePool.length > 0) {
-      const firstItem = livePool[0];
-      const allowedFields = new Set(firstItem ? Object.keys(firstItem) : []);
-      const sortError = validateSortFields(parsed.sort, allowedFields);
+    // Sort fields are those of the items at this URL (a nested collection's children only)
+    if (parsed.sort.length > 0 && scopedPool.length > 0) {
+      const sortError = validateSortFields(parsed.sort, collectFieldPaths(scopedPool));
       if (sortError) {
         res.status(400).json({ error: 'Invalid sort parameter', message: sortError });
         return;
       }
     }
 
-    res.status(forcedStatus || 200).json(applyPagination(livePool, parsed));
+    const filterError = prepareFilters(parsed, mapping, config, filePath, scopedPool);
+    if (filterError) {
+      res.status(400).json({ error: 'Invalid filter parameter', message: filterError });
+      return;
+    }
+
+    const page =
+      paginationMode === 'cursor' ? applyCursorPagination(scopedPool, parsed) : applyPagination(scopedPool, parsed);
+    const baseUrl = `${req.protocol}://${req.get('host')}${req.originalUrl.split('?')[0]}`;
+    const envelope = renderEnvelope(
+      resolveEnvelope(config.envelope),
+      { ...page, data: page.data.map(present) },
+      buildPageLinks(baseUrl, sanitizedQuery, page.meta)
+    );
+    res.set(envelope.headers);
+    res.status(forcedStatus || 200).json(envelope.body);
   } else {
     // Single-item GET — checks deletedIds, then write store, then seeded pool
-    const urlId = extractIdFromUrl(req.path);
+    const urlId = mapping.id;
 
+    if (rejectOtherParentItem(res, mapping, filePath, urlId)) return;
     if (urlId !== undefined) {
       const deletedIds = mockDataStore.getDeletedIds(mapping.typeName, filePath);
       if (deletedIds.has(urlId)) {
@@ -151,21 +617,24 @@ async function handleGet(
         return;
       }
 
-      // Check write store (highest priority — reflects PUT/PATCH)
-      const stored = mockDataStore.getById(mapping.typeName, filePath, urlId);
-      if (stored) {
-        res.status(forcedStatus || 200).json(stored);
-        return;
-      }
-
-      // Fall back to the seeded pool
-      const pool = mockDataStore.getPool(mapping.typeName, filePath);
-      if (pool) {
-        const poolItem = pool.find((item) => extractMockId(item) === urlId);
-        if (poolItem) {
-          res.status(forcedStatus || 200).json(poolItem);
+      // Write store first (reflects PUT/PATCH), then the seeded pool
+      const item = findCurrentItem(mapping.typeName, filePath, urlId);
+      if (item) {
+        const body = present(item);
+        // A projected or expanded body is another representation of the item: its weak
+        // ETag hashes that body, so it changes with `fields`, `expand` and embedded items
+        const etag =
+          fields.length > 0 || expanded.length > 0
+            ? `W/${computeETag(body, mockDataStore.getVersion(mapping.typeName, filePath, urlId))}`
+            : etagOf(mapping.typeName, filePath, urlId, item);
+        res.set('ETag', etag);
+        const ifNoneMatch = req.get('If-None-Match');
+        if (!forcedStatus && ifNoneMatch !== undefined && matchesETag(ifNoneMatch, etag, true)) {
+          res.status(304).end();
           return;
         }
+        res.status(forcedStatus || 200).json(body);
+        return;
       }
     }
 
@@ -176,10 +645,48 @@ async function handleGet(
   }
 }
 
+/**
+ * GET /collection/_aggregate: counts and metrics of the items matching the filters,
+ * overall, by group and as facets
+ */
+async function handleAggregate(
+  req: Request,
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  forcedStatus: number | undefined
+): Promise<void> {
+  const { params, filterQuery } = parseAggregateParams(sanitizeQuery(req));
+  const paginationMode = resolvePaginationMode(filePath, mapping.typeName, config.pagination);
+  const parsed = parseQueryParams(filterQuery, paginationMode);
+  if ('error' in parsed) {
+    res.status(400).json({ error: 'Invalid query parameters', message: parsed.error });
+    return;
+  }
+
+  const { scopedPool } = loadCollection(mapping, config, filePath);
+
+  // Like sort fields, aggregated fields are those of the items at this URL
+  const aggregateError = validateAggregateParams(params, scopedPool);
+  if (aggregateError) {
+    res.status(400).json({ error: 'Invalid aggregate parameter', message: aggregateError });
+    return;
+  }
+
+  const filterError = prepareFilters(parsed, mapping, config, filePath, scopedPool);
+  if (filterError) {
+    res.status(400).json({ error: 'Invalid filter parameter', message: filterError });
+    return;
+  }
+
+  res.status(forcedStatus || 200).json(aggregate(selectItems(scopedPool, parsed), params));
+}
+
 async function handlePost(
   req: Request,
   res: Response,
-  mapping: { typeName: string; isArray: boolean; filePath?: string },
+  mapping: RouteTypeMapping,
   config: ServerConfig,
   filePath: string,
   forcedStatus: number | undefined
@@ -204,23 +711,29 @@ async function handlePost(
     return;
   }
 
-  const body = req.body as Record<string, unknown> | undefined;
+  if (Array.isArray(req.body)) {
+    await handleBulkCreate(req.body as unknown[], res, mapping, config, filePath, forcedStatus);
+    return;
+  }
 
-  const mock = generateMockFromInterface(filePath, mapping.typeName);
-  const merged: Record<string, unknown> =
-    body && typeof body === 'object' && !Array.isArray(body)
-      ? { ...mock, ...body }
-      : { ...mock };
+  const body = req.body as Record<string, unknown> | undefined;
+  if (rejectInvalidBody(body, res, mapping, config, filePath, 'create')) return;
 
+  const merged = buildCreatedItem(body, mapping, config, filePath);
+  const conflict = createIdAssigner(mapping, config, filePath)(merged, body);
+  if (conflict !== undefined) {
+    sendIdConflict(res, mapping.typeName, conflict);
+    return;
+  }
   const id = extractMockId(merged);
 
   if (id !== undefined) {
-    mockDataStore.setById(mapping.typeName, filePath, id, merged);
-    updatePoolEntry(mapping.typeName, filePath, id, merged);
+    storeItem(mapping.typeName, filePath, id, merged);
   }
 
   const basePath = req.path.replace(/\/$/, '');
   const location = id !== undefined ? `${basePath}/${id}` : basePath;
+  if (id !== undefined) res.set('ETag', etagOf(mapping.typeName, filePath, id, merged));
 
   maybePersist(config);
   res.status(forcedStatus || 201).set('Location', location).json(merged);
@@ -229,7 +742,7 @@ async function handlePost(
 async function handlePut(
   req: Request,
   res: Response,
-  mapping: { typeName: string; isArray: boolean; filePath?: string },
+  mapping: RouteTypeMapping,
   config: ServerConfig,
   filePath: string,
   forcedStatus: number | undefined
@@ -258,10 +771,15 @@ async function handlePut(
     res.status(400).json({ error: 'Bad Request', message: 'Request body is required for PUT' });
     return;
   }
+  if (rejectInvalidBody(body, res, mapping, config, filePath, 'replace')) return;
+
+  const urlId = mapping.id;
+  if (rejectOtherParentItem(res, mapping, filePath, urlId)) return;
+  if (rejectFailedPrecondition(req, res, mapping, filePath, urlId)) return;
 
-  const urlId = extractIdFromUrl(req.path);
-  const mock = generateMockFromInterface(filePath, mapping.typeName);
+  const mock = generateWriteFiller(config, mapping.typeName, filePath);
   const merged: Record<string, unknown> = { ...mock, ...body };
+  attachToParent(merged, mock, mapping, filePath);
 
   // Ensure the stored ID matches the URL ID
   if (urlId !== undefined) {
@@ -272,8 +790,8 @@ async function handlePut(
 
   const id = urlId ?? extractMockId(merged);
   if (id !== undefined) {
-    mockDataStore.setById(mapping.typeName, filePath, id, merged);
-    updatePoolEntry(mapping.typeName, filePath, id, merged);
+    storeItem(mapping.typeName, filePath, id, merged);
+    res.set('ETag', etagOf(mapping.typeName, filePath, id, merged));
   }
 
   maybePersist(config);
@@ -283,18 +801,18 @@ async function handlePut(
 async function handlePatch(
   req: Request,
   res: Response,
-  mapping: { typeName: string; isArray: boolean; filePath?: string },
+  mapping: RouteTypeMapping,
   config: ServerConfig,
   filePath: string,
   forcedStatus: number | undefined
 ): Promise<void> {
-  if (mapping.isArray) {
+  if (mapping.isArray && !Array.isArray(req.body)) {
     res
       .status(405)
       .set('Allow', allowForCollection(config))
       .json({
         error: 'Method Not Allowed',
-        message: 'PATCH is not allowed on a collection URL. Target a single resource.',
+        message: 'PATCH on a collection URL takes an array of partial items with their ID. Target a single resource to patch one.',
       });
     return;
   }
@@ -302,35 +820,34 @@ async function handlePatch(
   if (!isWriteMethodEnabled(config, 'patch')) {
     res
       .status(405)
-      .set('Allow', allowForSingle(config))
+      .set('Allow', mapping.isArray ? allowForCollection(config) : allowForSingle(config))
       .json({ error: 'Method Not Allowed', message: 'PATCH method is disabled' });
     return;
   }
 
+  if (mapping.isArray) {
+    await handleBulkPatch(req.body as unknown[], res, mapping, config, filePath, forcedStatus);
+    return;
+  }
+
   const body = req.body as Record<string, unknown> | undefined;
   if (!body || typeof body !== 'object' || Array.isArray(body) || Object.keys(body).length === 0) {
     res.status(400).json({ error: 'Bad Request', message: 'Request body is required for PATCH' });
     return;
   }
+  if (rejectInvalidBody(body, res, mapping, config, filePath, 'patch')) return;
 
-  const urlId = extractIdFromUrl(req.path);
+  const urlId = mapping.id;
+  if (rejectOtherParentItem(res, mapping, filePath, urlId)) return;
+  if (rejectFailedPrecondition(req, res, mapping, filePath, urlId)) return;
 
   // If the resource was previously created, patch on top of stored object; otherwise upsert
-  let base: Record<string, unknown>;
-  if (urlId !== undefined) {
-    const stored = mockDataStore.getById(mapping.typeName, filePath, urlId);
-    if (stored) {
-      base = stored;
-    } else {
-      const pool = mockDataStore.getPool(mapping.typeName, filePath);
-      const poolItem = pool?.find((item) => extractMockId(item) === urlId);
-      base = poolItem ?? generateMockFromInterface(filePath, mapping.typeName);
-    }
-  } else {
-    base = generateMockFromInterface(filePath, mapping.typeName);
-  }
+  const base =
+    (urlId !== undefined ? findCurrentItem(mapping.typeName, filePath, urlId) : undefined) ??
+    generateWriteFiller(config, mapping.typeName, filePath);
 
   const merged: Record<string, unknown> = { ...base, ...body };
+  attachToParent(merged, base, mapping, filePath);
 
   // Ensure the stored ID matches the URL ID
   if (urlId !== undefined) {
@@ -341,8 +858,8 @@ async function handlePatch(
 
   const id = urlId ?? extractMockId(merged);
   if (id !== undefined) {
-    mockDataStore.setById(mapping.typeName, filePath, id, merged);
-    updatePoolEntry(mapping.typeName, filePath, id, merged);
+    storeItem(mapping.typeName, filePath, id, merged);
+    res.set('ETag', etagOf(mapping.typeName, filePath, id, merged));
   }
 
   maybePersist(config);
@@ -352,18 +869,19 @@ async function handlePatch(
 async function handleDelete(
   req: Request,
   res: Response,
-  mapping: { typeName: string; isArray: boolean; filePath?: string },
+  mapping: RouteTypeMapping,
   config: ServerConfig,
   filePath: string,
   forcedStatus: number | undefined
 ): Promise<void> {
-  if (mapping.isArray) {
+  const ids = mapping.isArray ? parseIdList(sanitizeQuery(req)['id_in']) : [];
+  if (mapping.isArray && ids.length === 0) {
     res
       .status(405)
       .set('Allow', allowForCollection(config))
       .json({
         error: 'Method Not Allowed',
-        message: 'DELETE is not allowed on a collection URL. Target a single resource.',
+        message: 'DELETE on a collection URL takes the IDs to delete as ?id_in=1,2,3. Target a single resource to delete one.',
       });
     return;
   }
@@ -371,27 +889,159 @@ async function handleDelete(
   if (!isWriteMethodEnabled(config, 'delete')) {
     res
       .status(405)
-      .set('Allow', allowForSingle(config))
+      .set('Allow', mapping.isArray ? allowForCollection(config) : allowForSingle(config))
       .json({ error: 'Method Not Allowed', message: 'DELETE method is disabled' });
     return;
   }
 
-  const urlId = extractIdFromUrl(req.path);
+  if (mapping.isArray) {
+    await handleBulkDelete(ids, res, mapping, config, filePath, forcedStatus);
+    return;
+  }
+
+  const urlId = mapping.id;
+  if (rejectOtherParentItem(res, mapping, filePath, urlId)) return;
+  if (rejectFailedPrecondition(req, res, mapping, filePath, urlId)) return;
 
   if (urlId !== undefined) {
-    mockDataStore.markDeleted(mapping.typeName, filePath, urlId);
-    // Remove from pool
-    const pool = mockDataStore.getPool(mapping.typeName, filePath);
-    if (pool) {
-      const newPool = pool.filter((item) => extractMockId(item) !== urlId);
-      mockDataStore.setPool(mapping.typeName, filePath, newPool);
-    }
+    removeItem(mapping.typeName, filePath, urlId, config);
   }
 
   maybePersist(config);
   res.status(forcedStatus || 204).send();
 }
 
+// ---------------------------------------------------------------------------
+// Batch handlers — every item is checked before any is written, so a batch
+// applies entirely or not at all, and the store is persisted once
+// ---------------------------------------------------------------------------
+
+/** POST /collection with an array body: creates every item, answering 201 with them in order. */
+async function handleBulkCreate(
+  items: unknown[],
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  forcedStatus: number | undefined
+): Promise<void> {
+  if (rejectInvalidBatch(items, res, mapping, config, filePath, 'create')) return;
+
+  const duplicate = findDuplicateId(items.map((item) => extractMockId(item as Record<string, unknown>)));
+  if (duplicate !== undefined) {
+    res.status(400).json({ error: 'Bad Request', message: `ID "${duplicate}" appears more than once in the batch` });
+    return;
+  }
+
+  const assignId = createIdAssigner(mapping, config, filePath);
+  const created = items.map((item) => buildCreatedItem(item, mapping, config, filePath));
+  const conflicts = created.map((item, i) => assignId(item, items[i])).filter((id) => id !== undefined);
+  if (conflicts.length > 0) {
+    sendIdConflict(res, mapping.typeName, conflicts.join('", "'));
+    return;
+  }
+
+  for (const item of created) {
+    const id = extractMockId(item);
+    if (id !== undefined) storeItem(mapping.typeName, filePath, id, item);
+  }
+
+  maybePersist(config);
+  res.status(forcedStatus || 201).json(created);
+}
+
+/**
+ * PATCH /collection with an array of partial items: merges each into the existing item
+ * of the same ID, answering 200 with them in order. Unknown IDs reject the whole batch.
+ */
+async function handleBulkPatch(
+  items: unknown[],
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  forcedStatus: number | undefined
+): Promise<void> {
+  if (rejectInvalidBatch(items, res, mapping, config, filePath, 'patch')) return;
+
+  const partials = items as Record<string, unknown>[];
+  const ids = partials.map((item) => extractMockId(item));
+  const missing = ids.findIndex((id) => id === undefined);
+  if (missing !== -1) {
+    res.status(400).json({ error: 'Bad Request', message: `Item ${missing} of the request body has no ID` });
+    return;
+  }
+  const duplicate = findDuplicateId(ids);
+  if (duplicate !== undefined) {
+    res.status(400).json({ error: 'Bad Request', message: `ID "${duplicate}" appears more than once in the batch` });
+    return;
+  }
+
+  const { scopedPool } = loadCollection(mapping, config, filePath);
+  const existing = new Map(scopedPool.map((item) => [extractMockId(item), item]));
+  const unknown = ids.filter((id) => !existing.has(id));
+  if (unknown.length > 0) {
+    res.status(404).json({ error: 'Not Found', message: `No ${mapping.typeName} with ID ${unknown.join(', ')}` });
+    return;
+  }
+
+  const patched = partials.map((partial, i) => {
+    const base = existing.get(ids[i])!;
+    const merged: Record<string, unknown> = { ...base, ...partial };
+    // Keep the stored type of the ID (e.g. number) whatever the body holds
+    const idField = findIdField(base) ?? 'id';
+    merged[idField] = base[idField];
+    return merged;
+  });
+  patched.forEach((item, i) => storeItem(mapping.typeName, filePath, ids[i]!, item));
+
+  maybePersist(config);
+  res.status(forcedStatus || 200).json(patched);
+}
+
+/**
+ * DELETE /collection?id_in=1,2,3: deletes every listed item, answering 204.
+ * Unknown IDs reject the whole batch.
+ */
+async function handleBulkDelete(
+  ids: string[],
+  res: Response,
+  mapping: RouteTypeMapping,
+  config: ServerConfig,
+  filePath: string,
+  forcedStatus: number | undefined
+): Promise<void> {
+  const { scopedPool } = loadCollection(mapping, config, filePath);
+  const existing = new Set(scopedPool.map((item) => extractMockId(item)));
+  const unknown = ids.filter((id) => !existing.has(id));
+  if (unknown.length > 0) {
+    res.status(404).json({ error: 'Not Found', message: `No ${mapping.typeName} with ID ${unknown.join(', ')}` });
+    return;
+  }
+
+  for (const id of ids) removeItem(mapping.typeName, filePath, id, config);
+
+  maybePersist(config);
+  res.status(forcedStatus || 204).send();
+}
+
+/** Parses `?id_in=1,2,3` (or repeated `id_in`) into distinct IDs */
+function parseIdList(raw: string | string[] | undefined): string[] {
+  const values = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+  return [...new Set(values.flatMap((value) => value.split(',')).map((id) => id.trim()).filter(Boolean))];
+}
+
+/** Returns the first ID found twice in a batch, if any */
+function findDuplicateId(ids: Array<string | undefined>): string | undefined {
+  const seen = new Set<string>();
+  for (const id of ids) {
+    if (id === undefined) continue;
+    if (seen.has(id)) return id;
+    seen.add(id);
+  }
+  return undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Main handler
 // ---------------------------------------------------------------------------
@@ -441,6 +1091,18 @@ export function dynamicRouteHandler(config: ServerConfig) {
         return;
       }
 
+      if (mapping.aggregate) {
+        if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(method)) {
+          res
+            .status(405)
+            .set('Allow', 'GET')
+            .json({ error: 'Method Not Allowed', message: `${method} is not allowed on an aggregation URL` });
+          return;
+        }
+        await handleAggregate(req, res, mapping, config, filePath, forcedStatus);
+        return;
+      }
+
       switch (method) {
         case 'POST':
           await handlePost(req, res, mapping, config, filePath, forcedStatus);
@@ -1,17 +1,12 @@
-import * as fs from 'fs';
-import * as ts from 'typescript';
-import { ServerConfig } from '../types/config';
-import { buildTypeMap } from '../utils/typeMapping';
+import { OpenAPIFormat, PaginationMode, ServerConfig } from '../types/config';
+import { buildTypeMap, resolvePaginationMode, AGGREGATE_SEGMENT } from '../utils/typeMapping';
+import { extractSearchableFields } from '../utils/searchableFields';
 import pluralize from 'pluralize';
 import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './queryProcessor';
-
-interface OpenAPISchema {
-  type: string;
-  properties?: Record<string, unknown>;
-  items?: unknown;
-  format?: string;
-  enum?: string[];
-}
+import { getExpandableRelations, ExpandableRelation } from './relations';
+import { OpenAPISchema, SchemaBuilder, flattenSchemaFields } from './openapiSchema';
+import { resolveEnvelope, envelopeSchema } from './envelope';
+import { toYaml } from '../utils/yaml';
 
 type OpenAPIParameter =
   | { $ref: string }
@@ -21,6 +16,8 @@ type OpenAPIParameter =
       description: string;
       required: boolean;
       schema: Record<string, unknown>;
+      style?: string;
+      explode?: boolean;
     };
 
 interface OpenAPIPath {
@@ -48,87 +45,11 @@ interface OpenAPIPath {
   };
 }
 
-/**
- * Extracts interface properties from a TypeScript file using the compiler API.
- * Handles readonly properties, optional fields, nested objects, and generic types
- * correctly — unlike the previous regex-based approach.
- */
-function extractInterfaceProperties(filePath: string, interfaceName: string): Record<string, OpenAPISchema> {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
-  const properties: Record<string, OpenAPISchema> = {};
-
-  function visit(node: ts.Node): void {
-    if (
-      ts.isInterfaceDeclaration(node) &&
-      node.name.text === interfaceName
-    ) {
-      for (const member of node.members) {
-        if (ts.isPropertySignature(member) && ts.isIdentifier(member.name)) {
-          const propName = member.name.text;
-          const isOptional = member.questionToken !== undefined;
-          const typeStr = member.type ? member.type.getText(sourceFile) : 'unknown';
-          properties[propName] = typeToOpenAPISchema(typeStr.trim(), isOptional);
-        }
-      }
-    }
-    ts.forEachChild(node, visit);
-  }
-
-  visit(sourceFile);
-  return properties;
-}
-
-/**
- * Converts TypeScript type to OpenAPI schema
- */
-function typeToOpenAPISchema(tsType: string, _isOptional = false): OpenAPISchema {
-  const baseType = tsType.replace(/\s+/g, '');
-
-  // Array types
-  if (baseType.endsWith('[]')) {
-    const itemType = baseType.slice(0, -2);
-    return {
-      type: 'array',
-      items: typeToOpenAPISchema(itemType),
-    };
-  }
-
-  // Union types with null/undefined
-  if (baseType.includes('|null') || baseType.includes('|undefined')) {
-    const actualType = baseType.replace(/\|null|\|undefined/g, '');
-    const schema = typeToOpenAPISchema(actualType, true);
-    return { ...schema };
-  }
-
-  // Primitive types
-  switch (baseType) {
-    case 'string':
-      return { type: 'string' };
-    case 'number':
-      return { type: 'number' };
-    case 'boolean':
-      return { type: 'boolean' };
-    case 'Date':
-      return { type: 'string', format: 'date-time' };
-    case 'any':
-    case 'unknown':
-      return { type: 'object' };
-    default:
-      // For complex types (nested objects or generics like Record<K,V>)
-      if (baseType.includes('{') || baseType.includes('<')) {
-        return { type: 'object' };
-      }
-      // For enums or other references
-      return { type: 'string' };
-  }
-}
-
 /**
  * Converts an interface name to URL path
  * Example: "User" -> "/users"
  */
-function interfaceNameToPath(interfaceName: string): string {
+export function interfaceNameToPath(interfaceName: string): string {
   // Convert PascalCase to kebab-case
   const kebab = interfaceName
     .replace(/([A-Z])/g, '-$1')
@@ -141,84 +62,199 @@ function interfaceNameToPath(interfaceName: string): string {
 
 /**
  * Builds the list of query parameters for an array endpoint:
- * standard pagination/sort refs + field-specific filter parameters.
+ * standard pagination/sort refs (page/pageSize or cursor/limit) + field-specific filter parameters.
  */
 function buildListParameters(
-  properties: Record<string, OpenAPISchema>
+  properties: Record<string, OpenAPISchema>,
+  components: Record<string, OpenAPISchema>,
+  paginationMode: PaginationMode
 ): OpenAPIParameter[] {
-  const params: OpenAPIParameter[] = [
-    { $ref: '#/components/parameters/page' },
-    { $ref: '#/components/parameters/pageSize' },
-    { $ref: '#/components/parameters/sort' },
-  ];
+  const params: OpenAPIParameter[] =
+    paginationMode === 'cursor'
+      ? [{ $ref: '#/components/parameters/cursor' }, { $ref: '#/components/parameters/limit' }]
+      : [{ $ref: '#/components/parameters/page' }, { $ref: '#/components/parameters/pageSize' }];
+  params.push({ $ref: '#/components/parameters/sort' }, ...buildFilterParameters(properties, components));
+  return params;
+}
 
-  for (const [field, schema] of Object.entries(properties)) {
+/**
+ * Builds the filter parameters of an array endpoint: the `or` ref and the operators of each field
+ */
+function buildFilterParameters(
+  properties: Record<string, OpenAPISchema>,
+  components: Record<string, OpenAPISchema>
+): OpenAPIParameter[] {
+  const params: OpenAPIParameter[] = [{ $ref: '#/components/parameters/or' }];
+
+  // Nested fields are filtered by dot path; array fields by their elements.
+  // Filters apply to the underlying primitive of enum `$ref`s and nullable fields.
+  for (const { path: field, schema, inArray } of flattenSchemaFields({ properties }, components)) {
+    const type = Array.isArray(schema.type)
+      ? schema.type.filter((t) => t !== 'null').length === 1
+        ? schema.type.find((t) => t !== 'null')
+        : undefined
+      : schema.type;
     const isDate = schema.format === 'date-time';
-    const isString = schema.type === 'string' && !isDate;
-    const isNumber = schema.type === 'number';
-    const isBoolean = schema.type === 'boolean';
-
-    // Exact match — works for string, number, boolean
-    if (isString || isNumber || isBoolean || isDate) {
+    const isString = type === 'string' && !isDate;
+    const isNumber = type === 'number' || type === 'integer';
+    const isBoolean = type === 'boolean';
+
+    const valueSchema = isDate ? { type: 'string', format: 'date-time' } : { type };
+    // On arrays, exclusions (`_ne`, `_nin`) apply to every element and the other filters to any element
+    const scope = (suffix: string) => (!inArray ? '' : suffix === '_ne' || suffix === '_nin' ? ' (no element)' : ' (any element)');
+    const filter = (suffix: string, description: string, filterSchema: Record<string, unknown>) =>
       params.push({
-        name: field,
+        name: `${field}${suffix}`,
         in: 'query',
-        description: `Exact match filter on \`${field}\``,
+        description: `${description}${suffix === '_exists' ? '' : scope(suffix)}`,
         required: false,
-        schema: isDate ? { type: 'string', format: 'date-time' } : { type: schema.type },
+        schema: filterSchema,
       });
+
+    // Exact match / exclusion — works for string, number, boolean, date
+    if (isString || isNumber || isBoolean || isDate) {
+      filter('', `Exact match filter on \`${field}\``, valueSchema);
+      filter('_ne', `Return items where \`${field}\` is not equal to this value`, valueSchema);
+    }
+
+    // _in / _nin — comma-separated lists of values (`role_in=admin,editor`)
+    if (isString || isNumber) {
+      for (const [suffix, description] of [
+        ['_in', `Return items where \`${field}\` is one of these values`],
+        ['_nin', `Return items where \`${field}\` is none of these values`],
+      ] as const) {
+        params.push({
+          name: `${field}${suffix}`,
+          in: 'query',
+          description: `${description}${scope(suffix)}`,
+          required: false,
+          schema: { type: 'array', items: { type } },
+          style: 'form',
+          explode: false,
+        });
+      }
     }
 
-    // _contains — substring match (non-date strings only)
+    // _contains / _startsWith / _regex — text matching (non-date strings only)
     if (isString) {
-      params.push({
-        name: `${field}_contains`,
-        in: 'query',
-        description: `Case-insensitive substring filter on \`${field}\``,
-        required: false,
-        schema: { type: 'string' },
-      });
+      filter('_contains', `Case-insensitive substring filter on \`${field}\``, { type: 'string' });
+      filter('_startsWith', `Case-insensitive prefix filter on \`${field}\``, { type: 'string' });
+      filter('_regex', `Case-insensitive regular expression filter on \`${field}\``, { type: 'string', format: 'regex' });
     }
 
-    // _gte / _lte — range filters for dates and numbers
+    // _gt / _gte / _lt / _lte — range filters for dates and numbers
     if (isDate) {
-      params.push({
-        name: `${field}_gte`,
-        in: 'query',
-        description: `Return items where \`${field}\` is on or after this date (ISO 8601)`,
-        required: false,
-        schema: { type: 'string', format: 'date-time' },
-      });
-      params.push({
-        name: `${field}_lte`,
-        in: 'query',
-        description: `Return items where \`${field}\` is on or before this date (ISO 8601)`,
-        required: false,
-        schema: { type: 'string', format: 'date-time' },
-      });
+      filter('_gt', `Return items where \`${field}\` is after this date (ISO 8601)`, valueSchema);
+      filter('_gte', `Return items where \`${field}\` is on or after this date (ISO 8601)`, valueSchema);
+      filter('_lt', `Return items where \`${field}\` is before this date (ISO 8601)`, valueSchema);
+      filter('_lte', `Return items where \`${field}\` is on or before this date (ISO 8601)`, valueSchema);
     }
 
     if (isNumber) {
-      params.push({
-        name: `${field}_gte`,
-        in: 'query',
-        description: `Return items where \`${field}\` is greater than or equal to this value`,
-        required: false,
-        schema: { type: 'number' },
-      });
-      params.push({
-        name: `${field}_lte`,
-        in: 'query',
-        description: `Return items where \`${field}\` is less than or equal to this value`,
-        required: false,
-        schema: { type: 'number' },
-      });
+      filter('_gt', `Return items where \`${field}\` is greater than this value`, { type: 'number' });
+      filter('_gte', `Return items where \`${field}\` is greater than or equal to this value`, { type: 'number' });
+      filter('_lt', `Return items where \`${field}\` is less than this value`, { type: 'number' });
+      filter('_lte', `Return items where \`${field}\` is less than or equal to this value`, { type: 'number' });
     }
+
+    // _exists — presence of any field
+    filter('_exists', `\`true\`: items where \`${field}\` is set; \`false\`: items where it is missing or null`, {
+      type: 'boolean',
+    });
   }
 
   return params;
 }
 
+/**
+ * Builds the parameters of an aggregation endpoint: `groupBy`, `facets` and the metrics,
+ * each a comma-separated list of fields
+ */
+function buildAggregateParameters(paths: string[]): OpenAPIParameter[] {
+  return [
+    ['groupBy', 'Fields whose values split the items into `groups`, largest first'],
+    ['facets', 'Fields whose values are counted in `facets`, most frequent first'],
+    ['sum', 'Numeric fields to sum'],
+    ['avg', 'Numeric fields to average'],
+    ['min', 'Fields to get the minimum of'],
+    ['max', 'Fields to get the maximum of'],
+  ].map(([name, description]) => ({
+    name: name!,
+    in: 'query',
+    description: `${description}, comma-separated. Available: ${paths.map((path) => `\`${path}\``).join(', ')}`,
+    required: false,
+    schema: { type: 'array', items: { type: 'string' } },
+    style: 'form',
+    explode: false,
+  }));
+}
+
+/**
+ * Builds the `q` full-text search parameter, naming the fields it searches:
+ * the `@searchable` properties of the type, or every string field without any
+ */
+function buildSearchParameter(searchableFields: string[]): OpenAPIParameter {
+  const searched =
+    searchableFields.length > 0
+      ? `Searched fields (\`@searchable\`): ${searchableFields.map((field) => `\`${field}\``).join(', ')}`
+      : 'Every string field is searched; tag properties with `@searchable` to restrict the search';
+  return {
+    name: 'q',
+    in: 'query',
+    description:
+      'Full-text search: returns the items matching at least one of the whitespace-separated terms, ' +
+      `most relevant first (whole words rank above partial matches) unless \`sort\` is given. ${searched}`,
+    required: false,
+    schema: { type: 'string', example: 'red shoe' },
+  };
+}
+
+/**
+ * Builds the `fields` query parameter selecting a sparse fieldset of the items
+ * among the declared field paths of a type
+ */
+function buildFieldsParameter(paths: string[]): OpenAPIParameter {
+  return {
+    name: 'fields',
+    in: 'query',
+    description:
+      'Comma-separated fields to return, other fields being left out. Nested fields are selected by dot path, ' +
+      `and relations embedded by \`expand\` by name. Available: ${paths.map((path) => `\`${path}\``).join(', ')}`,
+    required: false,
+    schema: { type: 'array', items: { type: 'string' }, example: paths.slice(0, 2) },
+    style: 'form',
+    explode: false,
+  };
+}
+
+/**
+ * Builds the `expand` query parameter listing the relations a type can embed.
+ * Returns an empty list for types without relations.
+ */
+function buildExpandParameters(relations: ExpandableRelation[]): OpenAPIParameter[] {
+  if (relations.length === 0) return [];
+  const names = relations.map((relation) => relation.name);
+  const described = relations
+    .map((relation) =>
+      relation.kind === 'one'
+        ? `\`${relation.name}\` (${relation.target} referenced by \`${relation.field}\`)`
+        : `\`${relation.name}\` (${pluralize(relation.target)} whose \`${relation.field}\` references this item)`
+    )
+    .join(', ');
+
+  return [
+    {
+      name: 'expand',
+      in: 'query',
+      description:
+        `Comma-separated relations to embed in the response. \`include\` is accepted as an alias. ` +
+        `Available: ${described}`,
+      required: false,
+      schema: { type: 'string', example: names.join(',') },
+    },
+  ];
+}
+
 /**
  * Generates OpenAPI specification from TypeScript interfaces
  */
@@ -227,16 +263,26 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
 
   const paths: Record<string, Record<string, OpenAPIPath>> = {};
   const schemas: Record<string, unknown> = {};
+  // Collects the named types referenced by properties (nested interfaces, enums, ...)
+  const builder = new SchemaBuilder();
+  const envelope = resolveEnvelope(config.envelope);
 
   // Generate paths and schemas for each interface
   typeMap.forEach((filePath, interfaceName) => {
-    const properties = extractInterfaceProperties(filePath, interfaceName);
+    const schema = builder.objectSchema(filePath, interfaceName);
+    const properties = schema.properties ?? {};
+    const expandParameters = buildExpandParameters(
+      getExpandableRelations(interfaceName, filePath, typeMap)
+    );
+    const fieldPaths = flattenSchemaFields({ properties }, builder.components).map((field) => field.path);
+    const fieldsParameter = buildFieldsParameter(fieldPaths);
+    const searchParameter = buildSearchParameter(extractSearchableFields(filePath, interfaceName));
 
     // Create schema definition
-    schemas[interfaceName] = {
-      type: 'object',
-      properties,
-    };
+    schemas[interfaceName] = schema;
+
+    const paginationMode = resolvePaginationMode(filePath, interfaceName, config.pagination);
+    const listResponse = envelopeSchema(envelope, interfaceName, paginationMode);
 
     const arrayPath = interfaceNameToPath(interfaceName);
     const singlePath = `${arrayPath}/{id}`;
@@ -246,6 +292,7 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
     const putEnabled    = !wm || wm.put    !== false;
     const patchEnabled  = !wm || wm.patch  !== false;
     const deleteEnabled = !wm || wm.delete !== false;
+    const validateBody  = config.validateBody ?? config.mockMode === 'strict';
 
     const idParameter = {
       name: 'id',
@@ -255,34 +302,50 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
       schema: { type: 'string' },
     };
 
+    const ifMatchParameter = {
+      name: 'If-Match',
+      in: 'header',
+      description: 'ETag read from the full resource (the weak ETag of a `fields` or `expand` read never matches); the write fails with 412 if the resource changed since',
+      required: false,
+      schema: { type: 'string' },
+    };
+    const etagHeader = { ETag: { schema: { type: 'string' } } };
+
     const errorContent = (description: string) => ({
       description,
       content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
     });
 
+    // Documented only when the server actually validates bodies
+    const validationResponses: Record<string, unknown> = validateBody
+      ? {
+          '422': {
+            description: `Request body does not match the ${interfaceName} interface`,
+            content: {
+              'application/json': { schema: { $ref: '#/components/schemas/ValidationErrorResponse' } },
+            },
+          },
+        }
+      : {};
+
     // --- Collection path: GET + optional POST ---
     const collectionPath: Record<string, OpenAPIPath> = {
       get: {
         summary: `List ${pluralize(interfaceName)}`,
-        description: `Returns a paginated list of \`${interfaceName}\` objects. Supports filtering, sorting, and pagination via query parameters.`,
-        parameters: buildListParameters(properties),
+        description: `Returns a paginated list of \`${interfaceName}\` objects. Supports filtering, full-text search, sorting, and pagination via query parameters.`,
+        parameters: [
+          ...buildListParameters(properties, builder.components, paginationMode),
+          searchParameter,
+          fieldsParameter,
+          ...expandParameters,
+        ],
         responses: {
           '200': {
             description: 'Successful response',
             content: {
-              'application/json': {
-                schema: {
-                  type: 'object',
-                  properties: {
-                    data: {
-                      type: 'array',
-                      items: { $ref: `#/components/schemas/${interfaceName}` },
-                    },
-                    meta: { $ref: '#/components/schemas/PaginationMeta' },
-                  },
-                },
-              },
+              'application/json': { schema: listResponse.body },
             },
+            ...(Object.keys(listResponse.headers).length > 0 ? { headers: listResponse.headers } : {}),
           },
           '400': errorContent('Invalid query parameters'),
           '404': errorContent('Type not found'),
@@ -290,52 +353,143 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
       },
     };
 
+    const itemRef = { $ref: `#/components/schemas/${interfaceName}` };
+    const itemList = { type: 'array', items: itemRef };
+
     if (postEnabled) {
       collectionPath['post'] = {
-        summary: `Create a ${interfaceName}`,
+        summary: `Create one or more ${pluralize(interfaceName)}`,
         description:
-          `Creates a new \`${interfaceName}\`. The server generates a full mock and overrides it with matching fields from the request body. Extra fields not defined in the interface are silently ignored.`,
+          `Creates a new \`${interfaceName}\`. The server generates a full mock and overrides it with the fields of the request body. ` +
+          (validateBody
+            ? 'Fields not declared by the interface, nested objects included, and wrongly typed values are rejected with 422. '
+            : 'The body is not validated: every field is stored as sent. ') +
+          'An array body creates every item at once, or none if any is invalid.',
         requestBody: {
           required: false,
           content: {
-            'application/json': { schema: { $ref: `#/components/schemas/${interfaceName}` } },
+            'application/json': { schema: { oneOf: [itemRef, itemList] } },
           },
         },
         responses: {
           '201': {
-            description: 'Created',
-            headers: { Location: { schema: { type: 'string' } } },
+            description: 'Created; an array for an array body, without Location',
+            headers: { Location: { schema: { type: 'string' } }, ...etagHeader },
             content: {
-              'application/json': { schema: { $ref: `#/components/schemas/${interfaceName}` } },
+              'application/json': { schema: { oneOf: [itemRef, itemList] } },
             },
           },
           '400': errorContent('Invalid request body'),
           '405': errorContent('Method not allowed'),
+          '409': errorContent('An item with the supplied ID already exists; nothing was created'),
+          ...validationResponses,
+        },
+      };
+    }
+
+    if (patchEnabled) {
+      collectionPath['patch'] = {
+        summary: `Partially update several ${pluralize(interfaceName)}`,
+        description:
+          'Merges each partial object onto the stored object with the same ID. ' +
+          'Every ID must exist, otherwise nothing is updated.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'array', items: { $ref: `#/components/schemas/${interfaceName}Partial` } },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Updated, in request order',
+            content: { 'application/json': { schema: itemList } },
+          },
+          '400': errorContent('Invalid request body, missing or duplicate ID'),
+          '404': errorContent('Unknown ID; nothing was updated'),
+          '405': errorContent('Method not allowed'),
+          ...validationResponses,
+        },
+      };
+    }
+
+    if (deleteEnabled) {
+      collectionPath['delete'] = {
+        summary: `Delete several ${pluralize(interfaceName)}`,
+        description: 'Deletes every listed ID. Every ID must exist, otherwise nothing is deleted.',
+        parameters: [
+          {
+            name: 'id_in',
+            in: 'query',
+            description: 'Comma-separated IDs to delete',
+            required: true,
+            schema: { type: 'array', items: { type: 'string' } },
+            style: 'form',
+            explode: false,
+          },
+        ],
+        responses: {
+          '204': { description: 'No Content' },
+          '404': errorContent('Unknown ID; nothing was deleted'),
+          '405': errorContent('Method not allowed'),
         },
       };
     }
 
     paths[arrayPath] = collectionPath as unknown as Record<string, OpenAPIPath>;
 
+    // --- Aggregation path: GET ---
+    paths[`${arrayPath}/${AGGREGATE_SEGMENT}`] = {
+      get: {
+        summary: `Aggregate ${pluralize(interfaceName)}`,
+        description:
+          `Returns the count and metrics of the \`${interfaceName}\` objects matching the filters, ` +
+          'overall, by group (`groupBy`) and as facet counts (`facets`).',
+        parameters: [
+          ...buildAggregateParameters(fieldPaths),
+          ...buildFilterParameters(properties, builder.components),
+          searchParameter,
+        ],
+        responses: {
+          '200': {
+            description: 'Successful response',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/AggregateResponse' } } },
+          },
+          '400': errorContent('Invalid aggregate or filter parameters'),
+          '404': errorContent('Type not found'),
+        },
+      },
+    };
+
     // --- Partial schema for PATCH (all fields optional) ---
-    const partialProperties: Record<string, unknown> = {};
-    for (const [field, schema] of Object.entries(properties)) {
-      partialProperties[field] = schema;
-    }
     const partialSchemaName = `${interfaceName}Partial`;
-    schemas[partialSchemaName] = { type: 'object', properties: partialProperties };
+    schemas[partialSchemaName] = { type: 'object', properties };
 
     // --- Single-item path: GET + optional PUT/PATCH/DELETE ---
     const singleItemPath: Record<string, OpenAPIPath> = {
       get: {
         summary: `Get a single ${interfaceName}`,
         description: `Returns a single \`${interfaceName}\` object by ID. Only available for resources created via POST or PUT.`,
-        parameters: [idParameter],
+        parameters: [
+          idParameter,
+          fieldsParameter,
+          ...expandParameters,
+          {
+            name: 'If-None-Match',
+            in: 'header',
+            description: 'ETag of a cached copy; answers 304 when the resource did not change',
+            required: false,
+            schema: { type: 'string' },
+          },
+        ],
         responses: {
           '200': {
             description: 'Successful response',
+            headers: etagHeader,
             content: { 'application/json': { schema: { $ref: `#/components/schemas/${interfaceName}` } } },
           },
+          '304': { description: 'Not Modified: the ETag matches If-None-Match' },
           '404': errorContent('Resource not found'),
         },
       },
@@ -345,7 +499,7 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
       singleItemPath['put'] = {
         summary: `Replace a ${interfaceName}`,
         description: `Full replacement (upsert). Creates the resource if it does not exist. Body fields override the generated mock.`,
-        parameters: [idParameter],
+        parameters: [idParameter, ifMatchParameter],
         requestBody: {
           required: true,
           content: {
@@ -355,10 +509,13 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
         responses: {
           '200': {
             description: 'Updated',
+            headers: etagHeader,
             content: { 'application/json': { schema: { $ref: `#/components/schemas/${interfaceName}` } } },
           },
           '400': errorContent('Missing or invalid request body'),
           '405': errorContent('Method not allowed'),
+          '412': errorContent('The resource changed since the If-Match ETag was read'),
+          ...validationResponses,
         },
       };
     }
@@ -367,7 +524,7 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
       singleItemPath['patch'] = {
         summary: `Partially update a ${interfaceName}`,
         description: `Partial update. Merges provided fields onto the stored object. If the resource does not exist, upserts it.`,
-        parameters: [idParameter],
+        parameters: [idParameter, ifMatchParameter],
         requestBody: {
           required: true,
           content: {
@@ -377,10 +534,13 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
         responses: {
           '200': {
             description: 'Updated',
+            headers: etagHeader,
             content: { 'application/json': { schema: { $ref: `#/components/schemas/${interfaceName}` } } },
           },
           '400': errorContent('Missing or invalid request body'),
           '405': errorContent('Method not allowed'),
+          '412': errorContent('The resource changed since the If-Match ETag was read'),
+          ...validationResponses,
         },
       };
     }
@@ -389,10 +549,11 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
       singleItemPath['delete'] = {
         summary: `Delete a ${interfaceName}`,
         description: `Marks the resource as deleted. Subsequent GET requests for this ID return 404.`,
-        parameters: [idParameter],
+        parameters: [idParameter, ifMatchParameter],
         responses: {
           '204': { description: 'No Content' },
           '405': errorContent('Method not allowed'),
+          '412': errorContent('The resource changed since the If-Match ETag was read'),
         },
       };
     }
@@ -458,7 +619,7 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
   };
 
   return {
-    openapi: '3.0.0',
+    openapi: '3.1.0',
     info: {
       title: 'TS Mock Proxy API',
       description: 'Auto-generated REST API from TypeScript interfaces',
@@ -473,6 +634,7 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
     paths,
     components: {
       schemas: {
+        ...builder.components,
         ...schemas,
         PaginationMeta: {
           type: 'object',
@@ -483,6 +645,75 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
             totalPages: { type: 'integer', description: 'Total number of pages' },
           },
         },
+        CursorPaginationMeta: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer', description: 'Total number of items matching the filters' },
+            limit: { type: 'integer', description: 'Maximum number of items per page' },
+            nextCursor: { type: ['string', 'null'], description: 'Cursor of the next page, null on the last page' },
+            prevCursor: { type: ['string', 'null'], description: 'Cursor of the previous page, null on the first page' },
+          },
+        },
+        AggregateBucket: {
+          type: 'object',
+          properties: {
+            count: { type: 'integer', description: 'Number of items' },
+            sum: { type: 'object', additionalProperties: { type: 'number' }, description: 'Sum of each `sum` field' },
+            avg: {
+              type: 'object',
+              additionalProperties: { type: ['number', 'null'] },
+              description: 'Average of each `avg` field, null without numbers',
+            },
+            min: { type: 'object', additionalProperties: {}, description: 'Minimum of each `min` field, null without values' },
+            max: { type: 'object', additionalProperties: {}, description: 'Maximum of each `max` field, null without values' },
+          },
+          required: ['count'],
+        },
+        AggregateResponse: {
+          allOf: [
+            { $ref: '#/components/schemas/AggregateBucket' },
+            {
+              type: 'object',
+              properties: {
+                groups: {
+                  type: 'array',
+                  description: 'Groups of items sharing the values of the `groupBy` fields, largest first',
+                  items: {
+                    allOf: [
+                      { $ref: '#/components/schemas/AggregateBucket' },
+                      {
+                        type: 'object',
+                        properties: { key: { type: 'object', description: 'Value of each `groupBy` field' } },
+                        required: ['key'],
+                      },
+                    ],
+                  },
+                },
+                facets: {
+                  type: 'object',
+                  description: 'Counts of the values of each `facets` field, most frequent first',
+                  additionalProperties: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: { value: {}, count: { type: 'integer' } },
+                    },
+                  },
+                },
+              },
+            },
+          ],
+        },
+        PageLinks: {
+          type: 'object',
+          properties: {
+            self: { type: 'string', description: 'URL of this page' },
+            first: { type: 'string', description: 'URL of the first page' },
+            prev: { type: ['string', 'null'], description: 'URL of the previous page, null on the first page' },
+            next: { type: ['string', 'null'], description: 'URL of the next page, null on the last page' },
+            last: { type: ['string', 'null'], description: 'URL of the last page, null in cursor pagination' },
+          },
+        },
         ErrorResponse: {
           type: 'object',
           properties: {
@@ -490,6 +721,23 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
             message: { type: 'string' },
           },
         },
+        ValidationErrorResponse: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
       },
       parameters: {
         'x-mock-status': {
@@ -513,6 +761,32 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
           required: false,
           schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
         },
+        cursor: {
+          name: 'cursor',
+          in: 'query',
+          description:
+            'Opaque cursor from `meta.nextCursor` or `meta.prevCursor` of a previous response. ' +
+            'Omit it for the first page; keep the same `sort` when following it',
+          required: false,
+          schema: { type: 'string' },
+        },
+        limit: {
+          name: 'limit',
+          in: 'query',
+          description: `Maximum number of items per page (max ${MAX_PAGE_SIZE})`,
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE },
+        },
+        or: {
+          name: 'or',
+          in: 'query',
+          description:
+            'Group of alternative filters: items match when they match one of the `|`-separated ' +
+            '`field:value` or `field_operator:value` conditions. Repeat the param for several groups. ' +
+            'Example: `or=role:admin|score_gte:90`',
+          required: false,
+          schema: { type: 'string', example: 'role:admin|score_gte:90' },
+        },
         sort: {
           name: 'sort',
           in: 'query',
@@ -526,3 +800,10 @@ export function generateOpenAPISpec(config: ServerConfig): Record<string, unknow
     },
   };
 }
+
+/**
+ * Serializes an OpenAPI spec as JSON or YAML, e.g. for `ts-mock-proxy export-openapi`
+ */
+export function serializeOpenAPISpec(spec: Record<string, unknown>, format: OpenAPIFormat): string {
+  return format === 'yaml' ? toYaml(spec) : `${JSON.stringify(spec, null, 2)}\n`;
+}
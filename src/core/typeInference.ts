@@ -0,0 +1,143 @@
+import pluralize from 'pluralize';
+import { toPascalCase } from '../utils/pluralize';
+
+/** ISO 8601 date or date-time, as found in JSON payloads */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** A field is treated as a closed set of values when it has at most this many distinct values… */
+const MAX_ENUM_VALUES = 5;
+
+/** …each observed at least this many times on average */
+const MIN_ENUM_REPEATS = 2;
+
+/** Fields recognised as resource IDs: never inferred as enums */
+const ID_FIELDS = ['id', 'uuid', '_id'];
+
+/**
+ * Infers TypeScript interfaces from sample JSON payloads.
+ *
+ * The samples (an array of objects, or a single object) become one `// @endpoint`
+ * interface named `name`; nested objects become interfaces named after their parent
+ * and field (`User.address` → `UserAddress`).
+ *
+ * - fields missing (or `undefined`) in some samples are optional; `null` values add `| null`
+ * - strings that are all ISO 8601 dates become `Date`
+ * - strings with few, repeated values become literal unions (`'admin' | 'member'`)
+ * - numbers with few, repeated values get an `@enum` hint; other strings a `@minLength` hint
+ *
+ * @throws If the samples contain no object
+ */
+export function inferInterfaces(samples: unknown, name: string): string {
+  const objects = (Array.isArray(samples) ? samples : [samples]).filter(isPlainObject);
+  if (objects.length === 0) {
+    throw new Error('Expected a JSON object or an array of objects');
+  }
+
+  const inferrer = new InterfaceInferrer(name);
+  inferrer.declare(name, objects, true);
+  return `${inferrer.blocks.join('\n\n')}\n`;
+}
+
+class InterfaceInferrer {
+  readonly blocks: string[] = [];
+  private readonly taken: Set<string>;
+
+  constructor(rootName: string) {
+    this.taken = new Set([rootName]);
+  }
+
+  /** Declares the interface of a set of objects; the endpoint goes first, nested interfaces after it */
+  declare(name: string, objects: Record<string, unknown>[], isEndpoint: boolean): void {
+    const index = this.blocks.length;
+    this.blocks.push('');
+
+    const keys = [...new Set(objects.flatMap((object) => Object.keys(object)))];
+    const members = keys.map((key) => {
+      const values = objects.map((object) => object[key]).filter((value) => value !== undefined);
+      const optional = values.length < objects.length;
+      const { type, tags } = this.inferField(key, values, `${name}${toPascalCase(pluralize.singular(key))}`);
+      const docs = tags.length > 0 ? `  /** ${tags.join(' ')} */\n` : '';
+      const property = /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+      return `${docs}  ${property}${optional ? '?' : ''}: ${type};`;
+    });
+
+    this.blocks[index] = `${isEndpoint ? '// @endpoint\n' : ''}export interface ${name} {\n${members.join('\n')}\n}`;
+  }
+
+  /** Type of a field, and JSDoc hints derived from its values */
+  private inferField(key: string, values: unknown[], hint: string): { type: string; tags: string[] } {
+    const present = values.filter((value) => value !== null);
+    const type = this.inferType(key, values, hint);
+    const tags: string[] = [];
+
+    // Hints only for single-type fields: they would constrain the other types too
+    if (present.length === 0) return { type, tags };
+    if (present.every((value) => typeof value === 'number')) {
+      if (isCategorical(key, present)) tags.push(`@enum ${[...new Set(present)].join(',')}`);
+    } else if (present.every((value) => typeof value === 'string') && /^string( \| null)?$/.test(type)) {
+      const minLength = Math.min(...present.map((value) => (value as string).length));
+      if (minLength > 0) tags.push(`@minLength ${minLength}`);
+    }
+
+    return { type, tags };
+  }
+
+  /** Union of the types of the observed values */
+  private inferType(key: string, values: unknown[], hint: string): string {
+    const present = values.filter((value) => value !== null);
+    const types: string[] = [];
+
+    const strings = present.filter((value): value is string => typeof value === 'string');
+    if (strings.length > 0) types.push(this.stringType(key, strings));
+    if (present.some((value) => typeof value === 'number')) types.push('number');
+    if (present.some((value) => typeof value === 'boolean')) types.push('boolean');
+
+    const arrays = present.filter(Array.isArray);
+    if (arrays.length > 0) {
+      const elements = arrays.flat();
+      types.push(elements.length > 0 ? `${wrap(this.inferType(key, elements, hint))}[]` : 'any[]');
+    }
+
+    const objects = present.filter(isPlainObject);
+    if (objects.length > 0) {
+      const name = this.uniqueName(hint);
+      this.declare(name, objects, false);
+      types.push(name);
+    }
+
+    // Only nulls observed: the actual type is unknown (Intermock cannot mock `unknown`)
+    if (types.length === 0) return 'any';
+    return present.length < values.length ? `${types.join(' | ')} | null` : types.join(' | ');
+  }
+
+  private stringType(key: string, strings: string[]): string {
+    if (strings.every((value) => ISO_DATE.test(value) && !isNaN(Date.parse(value)))) return 'Date';
+
+    return isCategorical(key, strings) ? [...new Set(strings)].map(quote).join(' | ') : 'string';
+  }
+
+  private uniqueName(hint: string): string {
+    let name = hint;
+    for (let i = 2; this.taken.has(name); i++) name = `${hint}${i}`;
+    this.taken.add(name);
+    return name;
+  }
+}
+
+/** Few distinct values, each repeated: a closed set rather than free values */
+function isCategorical(key: string, values: unknown[]): boolean {
+  const distinct = new Set(values).size;
+  return !ID_FIELDS.includes(key) && distinct <= MAX_ENUM_VALUES && values.length >= distinct * MIN_ENUM_REPEATS;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function wrap(type: string): string {
+  return type.includes('|') ? `(${type})` : type;
+}
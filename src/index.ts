@@ -1,13 +1,19 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs';
+import * as path from 'path';
 import { Command } from 'commander';
-import { ServerConfig, MockMode } from './types/config';
+import { ServerConfig, MockMode, OnDeleteMode, OpenAPIFormat, PaginationMode } from './types/config';
 import { startServer } from './server';
 import { logger } from './utils/logger';
 import { schemaCache } from './core/cache';
 import { runWizard, hasExplicitCliArgs } from './cli/wizard';
-import { parseLatency, validateTypesDir } from './cli/helpers';
+import { parseEnvelope, parseHeaders, parseLatency, parseProxyUrl, parseSeed, parseSourceRules, prepareOpenAPITypes, validateTypesDir } from './cli/helpers';
 import { saveConfig } from './utils/configPersistence';
+import { generateOpenAPISpec, serializeOpenAPISpec } from './core/swagger';
+import { inferInterfaces } from './core/typeInference';
+import { verifyContracts, formatVerifyReport, renderJUnitReport, ContractCheck } from './core/contractVerifier';
+import { urlSegmentToTypeName } from './utils/pluralize';
 
 const program = new Command();
 
@@ -23,6 +29,39 @@ function resolveMockMode(cliValue?: string): MockMode {
   process.exit(1);
 }
 
+/**
+ * Resolves the delete propagation mode from the CLI arg.
+ * Exits with a clear error if the value is invalid.
+ */
+function resolveOnDelete(cliValue?: string): OnDeleteMode | undefined {
+  if (!cliValue) return undefined;
+  if (cliValue === 'none' || cliValue === 'cascade' || cliValue === 'nullify') return cliValue;
+  logger.error(`Invalid onDelete value: "${cliValue}". Must be "none", "cascade" or "nullify".`);
+  process.exit(1);
+}
+
+/**
+ * Resolves the default pagination mode from the CLI arg.
+ * Exits with a clear error if the value is invalid.
+ */
+function resolvePagination(cliValue?: string): PaginationMode | undefined {
+  if (!cliValue) return undefined;
+  if (cliValue === 'offset' || cliValue === 'cursor') return cliValue;
+  logger.error(`Invalid pagination value: "${cliValue}". Must be "offset" or "cursor".`);
+  process.exit(1);
+}
+
+/**
+ * Resolves the export format from the CLI arg, falling back to the output file extension.
+ * Exits with a clear error if the value is invalid.
+ */
+function resolveOpenAPIFormat(cliValue?: string, outPath?: string): OpenAPIFormat {
+  const value = cliValue ?? (outPath && /\.ya?ml$/i.test(outPath) ? 'yaml' : 'json');
+  if (value === 'json' || value === 'yaml') return value;
+  logger.error(`Invalid format value: "${value}". Must be "json" or "yaml".`);
+  process.exit(1);
+}
+
 async function main() {
   // Check if user provided explicit CLI arguments
   const hasCliArgs = hasExplicitCliArgs();
@@ -40,11 +79,14 @@ async function main() {
   }
 
   // Setup Commander for CLI mode
+  // Positional options: subcommands declare their own --types-dir
   program
     .name('ts-mock-proxy')
     .description('Zero-Config mock server that generates REST API from TypeScript interfaces')
     .version('1.0.0')
-    .requiredOption('-t, --types-dir <path>', 'Directory containing TypeScript type definitions')
+    .enablePositionalOptions()
+    .option('-t, --types-dir <path>', 'Directory containing TypeScript type definitions (required unless --openapi)')
+    .option('--openapi <file>', 'Build the mocks from an OpenAPI 3.x document (JSON or YAML) instead of TypeScript types')
     .option('-p, --port <number>', 'Server port', '8080')
     .option('-l, --latency <range>', 'Simulate latency (e.g., "500-2000")')
     .option('--no-hot-reload', 'Disable hot-reload of type definitions')
@@ -52,6 +94,19 @@ async function main() {
     .option('-v, --verbose', 'Enable verbose logging', false)
     .option('--mock-mode <strict|dev>', 'Mock mode: "dev" enables all mock features (default), "strict" disables them')
     .option('--persist-data [path]', 'Persist mock data to JSON file (default path: .mock-data.json)')
+    .option('--seed <number>', 'Seed for deterministic, reproducible mock data')
+    .option('--on-delete <none|cascade|nullify>', 'What DELETE does to items referencing the deleted resource (default: none)')
+    .option('--strict-filters', 'Reject filters on fields the interface does not declare with 400 (default in strict mode)')
+    .option('--no-strict-filters', 'Ignore filters on undeclared fields, even in strict mode')
+    .option('--pagination <offset|cursor>', 'Default pagination of list endpoints, overridden by @pagination tags (default: offset)')
+    .option('--envelope <preset|file>', 'Shape of list responses: default, items, bare, jsonapi, or a JSON template file')
+    .option('--validate-body', 'Reject POST/PUT/PATCH bodies that do not match the interface with 422 (default in strict mode)')
+    .option('--no-validate-body', 'Disable request body validation, even in strict mode')
+    .option('--proxy <url>', 'Forward unmatched routes and types with @source proxy|hybrid to this backend, recording the responses')
+    .option('--replay', 'Serve forwarded routes from the recorded responses (offline unless --proxy is set too)', false)
+    .option('--recordings-dir <path>', 'Directory of the recorded responses (default: .mock-recordings)')
+    .option('--source <rules>', 'Per-type sources overriding @source tags (e.g., "User=proxy,Order=hybrid")')
+    .option('--validate-proxy', 'Log drift between proxied responses and the interfaces', false)
     .option('--interactive', 'Force interactive mode')
     .action(async (options) => {
       // If --interactive flag is set, run wizard instead
@@ -65,8 +120,18 @@ async function main() {
         return;
       }
 
-      // Validate and resolve the types directory
-      const typesDir = await validateTypesDir(options.typesDir);
+      // Checked here rather than with requiredOption, which would also apply to subcommands
+      if (!options.typesDir && !options.openapi) {
+        program.error("error: required option '-t, --types-dir <path>' or '--openapi <file>' not specified");
+      }
+      if (options.typesDir && options.openapi) {
+        program.error("error: options '-t, --types-dir <path>' and '--openapi <file>' cannot be used together");
+      }
+
+      // Validate and resolve the types directory, or generate it from the OpenAPI document
+      const { typesDir, openapi } = options.openapi
+        ? prepareOpenAPITypes(options.openapi)
+        : { typesDir: await validateTypesDir(options.typesDir), openapi: undefined };
 
       // Parse the latency if provided
       let latency: { min: number; max: number } | undefined;
@@ -86,6 +151,13 @@ async function main() {
           : '.mock-data.json';
       }
 
+      const seed = parseSeed(options.seed);
+      const onDelete = resolveOnDelete(options.onDelete);
+      const pagination = resolvePagination(options.pagination);
+      const envelope = parseEnvelope(options.envelope);
+      const proxy = options.proxy ? parseProxyUrl(options.proxy) : undefined;
+      const sources = parseSourceRules(options.source);
+
       // Build the configuration
       const config: ServerConfig = {
         typesDir,
@@ -96,6 +168,18 @@ async function main() {
         verbose: options.verbose,
         mockMode,
         persistData,
+        seed,
+        onDelete,
+        pagination,
+        envelope,
+        strictFilters: options.strictFilters,
+        validateBody: options.validateBody,
+        openapi,
+        proxy,
+        replay: options.replay || undefined,
+        recordingsDir: options.recordingsDir,
+        sources,
+        validateProxy: options.validateProxy || undefined,
       };
 
       // Configure the global cache
@@ -104,7 +188,10 @@ async function main() {
       }
 
       // Save the configuration for future use
-      saveConfig(config);
+      // (not for OpenAPI sources: the wizard only knows types directories)
+      if (!openapi) {
+        saveConfig(config);
+      }
 
       // Start the server
       try {
@@ -146,6 +233,141 @@ async function main() {
       logger.success('Cache cleared successfully');
     });
 
+  // Command to export the OpenAPI spec without starting the server
+  program
+    .command('export-openapi')
+    .description('Write the OpenAPI spec generated from the types (JSON or YAML)')
+    .requiredOption('-t, --types-dir <path>', 'Directory containing TypeScript type definitions')
+    .option('-o, --out <file>', 'Output file (default: stdout)')
+    .option('-f, --format <json|yaml>', 'Output format (default: from the --out extension, else json)')
+    .option('-p, --port <number>', 'Server port used in the spec servers URL', '8080')
+    .option('--mock-mode <strict|dev>', 'Mock mode the spec describes')
+    .option('--pagination <offset|cursor>', 'Default pagination the spec describes (default: offset)')
+    .option('--envelope <preset|file>', 'Shape of list responses the spec describes (default: default)')
+    .option('--validate-body', 'Document the 422 responses of body validation')
+    .option('--no-validate-body', 'Omit the 422 responses of body validation, even in strict mode')
+    .action(async (options) => {
+      const typesDir = await validateTypesDir(options.typesDir);
+      const format = resolveOpenAPIFormat(options.format, options.out);
+
+      const config: ServerConfig = {
+        typesDir,
+        port: parseInt(options.port, 10),
+        hotReload: false,
+        cache: false,
+        verbose: false,
+        mockMode: resolveMockMode(options.mockMode),
+        pagination: resolvePagination(options.pagination),
+        envelope: parseEnvelope(options.envelope),
+        validateBody: options.validateBody,
+      };
+      const output = serializeOpenAPISpec(generateOpenAPISpec(config), format);
+
+      if (!options.out) {
+        process.stdout.write(output);
+        return;
+      }
+
+      const outPath = path.resolve(process.cwd(), options.out);
+      fs.writeFileSync(outPath, output, 'utf-8');
+      logger.success(`OpenAPI spec written to ${outPath}`);
+    });
+
+  // Command to bootstrap a type file from sample JSON payloads
+  program
+    .command('infer')
+    .description('Infer an @endpoint interface from sample JSON payloads')
+    .requiredOption('--from <file>', 'JSON file holding a sample object or an array of samples')
+    .option('-n, --name <name>', 'Interface name (default: singular of the file name, e.g. users.json → User)')
+    .option('-o, --out <file>', 'Output .ts file (default: stdout)')
+    .option('--force', 'Overwrite the output file if it exists', false)
+    .action((options) => {
+      const samplesPath = path.resolve(process.cwd(), options.from);
+      let samples: unknown;
+      try {
+        samples = JSON.parse(fs.readFileSync(samplesPath, 'utf-8'));
+      } catch (error) {
+        logger.error(`Failed to read samples from ${samplesPath}: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+
+      const name: string =
+        options.name ?? urlSegmentToTypeName(path.basename(samplesPath).replace(/\.[^.]+$/, '')).typeName;
+      if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+        logger.error(`Invalid interface name: "${name}". Use --name to set one.`);
+        process.exit(1);
+      }
+
+      let output: string;
+      try {
+        output = inferInterfaces(samples, name);
+      } catch (error) {
+        logger.error(`Failed to infer ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+
+      if (!options.out) {
+        process.stdout.write(output);
+        return;
+      }
+
+      const outPath = path.resolve(process.cwd(), options.out);
+      if (fs.existsSync(outPath) && !options.force) {
+        logger.error(`Output file already exists: ${outPath} (use --force to overwrite)`);
+        process.exit(1);
+      }
+      fs.mkdirSync(path.dirname(outPath), { recursive: true });
+      fs.writeFileSync(outPath, output, 'utf-8');
+      logger.success(`Interface ${name} written to ${outPath}`);
+    });
+
+  // Command to check the types against a live API (or proxy-mode recordings)
+  program
+    .command('verify')
+    .description('Check the responses of a live API (or of proxy-mode recordings) against the types')
+    .requiredOption('-t, --types-dir <path>', 'Directory containing TypeScript type definitions')
+    .requiredOption('--against <url|dir>', 'Base URL of the API, or a recordings directory')
+    .option('--base-path <path>', 'Path prepended to the endpoint paths (e.g., /api/v1)', '')
+    .option('-H, --header <header...>', 'Header sent with each request (e.g., "Authorization: Bearer abc")')
+    .option('--timeout <ms>', 'Request timeout in milliseconds', '10000')
+    .option('--junit <file>', 'Also write the results as a JUnit XML report')
+    .action(async (options) => {
+      const typesDir = await validateTypesDir(options.typesDir);
+      const timeout = Number(options.timeout);
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        logger.error(`Invalid timeout: "${options.timeout}". Expected a positive number of milliseconds`);
+        process.exit(1);
+      }
+
+      let checks: ContractCheck[];
+      try {
+        checks = await verifyContracts({
+          typesDir,
+          against: options.against,
+          basePath: options.basePath,
+          headers: parseHeaders(options.header),
+          timeout,
+        });
+      } catch (error) {
+        logger.error(`Verification failed: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+
+      process.stdout.write(formatVerifyReport(checks));
+
+      if (options.junit) {
+        const junitPath = path.resolve(process.cwd(), options.junit);
+        fs.mkdirSync(path.dirname(junitPath), { recursive: true });
+        fs.writeFileSync(junitPath, renderJUnitReport(checks), 'utf-8');
+        logger.success(`JUnit report written to ${junitPath}`);
+      }
+
+      // Failed or unreachable endpoints fail the command, to gate merges on it
+      if (checks.some((check) => check.outcome === 'failed' || check.outcome === 'error')) {
+        process.exitCode = 1;
+      }
+    });
+
   program.parse();
 }
 
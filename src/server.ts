@@ -9,28 +9,43 @@ import { requestLoggerMiddleware } from './middlewares/logger';
 import { latencyMiddleware } from './middlewares/latency';
 import { statusOverrideMiddleware } from './middlewares/statusOverride';
 import { dynamicRouteHandler } from './core/router';
-import { startFileWatcher } from './utils/fileWatcher';
+import { startFileWatcher, startOpenAPIWatcher } from './utils/fileWatcher';
 import { schemaCache, mockDataStore } from './core/cache';
 import { generateOpenAPISpec } from './core/swagger';
 import { buildTypeMap } from './utils/typeMapping';
 import { generateMockArray } from './core/parser';
 import { POOL_SIZE } from './core/queryProcessor';
 import { saveMockData, loadMockData } from './utils/dataPersistence';
+import { deriveSeed } from './utils/seededRandom';
+import { linkPoolReferences } from './core/relations';
+import { captureRawBody, proxyMiddleware } from './core/proxy';
+import { DEFAULT_RECORDINGS_DIR } from './utils/recordings';
 import type { FSWatcher } from 'chokidar';
 
 /**
  * Seeds all collection pools for every @endpoint interface found in typesDir.
- * Already-seeded pools are left untouched.
+ * Already-seeded pools are left untouched. With `config.seed`, each type's pool is
+ * derived from the seed and its name, so it does not depend on discovery order.
+ * Once every pool exists, foreign keys are linked to IDs present in the referenced pools.
  */
 function seedAllPools(config: ServerConfig): void {
   const typeMap = buildTypeMap(config.typesDir);
+  let seeded = false;
   typeMap.forEach((filePath, typeName) => {
     if (!mockDataStore.getPool(typeName, filePath)) {
-      const pool = generateMockArray(filePath, typeName, { arrayLength: POOL_SIZE });
+      const pool = generateMockArray(filePath, typeName, {
+        arrayLength: POOL_SIZE,
+        seed: deriveSeed(config.seed, typeName),
+      });
       mockDataStore.setPool(typeName, filePath, pool);
       logger.debug(`Pool seeded: ${typeName} (${pool.length} items)`);
+      seeded = true;
     }
   });
+
+  if (seeded) {
+    linkPoolReferences(mockDataStore, typeMap, config.seed);
+  }
 }
 
 /**
@@ -60,8 +75,9 @@ export function createServer(config: ServerConfig): Express {
 
   // Global middlewares
   app.use(cors());
-  app.use(express.json());
-  app.use(express.urlencoded({ extended: true }));
+  // Raw bodies are kept so proxied requests are forwarded unchanged
+  app.use(express.json({ verify: captureRawBody }));
+  app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 
   // Logging middleware
   app.use(requestLoggerMiddleware);
@@ -86,10 +102,20 @@ export function createServer(config: ServerConfig): Express {
       types: Array.from(typeMap.keys()),
       config: {
         typesDir: config.typesDir,
+        openapi: config.openapi,
         port: config.port,
         hotReload: config.hotReload,
         cache: config.cache,
         writeMethods: config.writeMethods,
+        onDelete: config.onDelete ?? 'none',
+        pagination: config.pagination ?? 'offset',
+        envelope: config.envelope ?? 'default',
+        validateBody: config.validateBody ?? config.mockMode === 'strict',
+        strictFilters: config.strictFilters ?? config.mockMode === 'strict',
+        proxy: config.proxy,
+        replay: config.replay ?? false,
+        sources: config.sources,
+        validateProxy: config.validateProxy ?? false,
       },
     });
   });
@@ -224,8 +250,13 @@ window.addEventListener('load', function () {
     }
 
     mockDataStore.invalidateType(typeName, typeFilePath);
-    const newPool = generateMockArray(typeFilePath, typeName, { arrayLength: POOL_SIZE });
+    const newPool = generateMockArray(typeFilePath, typeName, {
+      arrayLength: POOL_SIZE,
+      seed: deriveSeed(config.seed, typeName),
+    });
     mockDataStore.setPool(typeName, typeFilePath, newPool);
+    // Relink the new pool's foreign keys and repair references to its old IDs
+    linkPoolReferences(mockDataStore, typeMap, config.seed);
 
     if (config.persistData) {
       saveMockData(mockDataStore, config.typesDir, path.resolve(config.persistData));
@@ -248,7 +279,10 @@ window.addEventListener('load', function () {
     })(req, res, next);
   });
 
-  // Proxy mode removed: requests are handled only by mock dynamic routes
+  // Proxy / replay: unmatched routes and types with @source proxy|hybrid are served by the real backend
+  if (config.proxy || config.replay) {
+    app.use(proxyMiddleware(config));
+  }
 
   // Catch-all route for dynamic routing
   app.all('*', dynamicRouteHandler(config));
@@ -273,9 +307,25 @@ export function startServer(
   // Start the server
   const server = app.listen(config.port, () => {
     logger.server(config.port);
-    logger.info(`Types directory: ${config.typesDir}`);
+    if (config.openapi) {
+      logger.info(`OpenAPI document: ${config.openapi}`);
+    } else {
+      logger.info(`Types directory: ${config.typesDir}`);
+    }
     logger.info(`Mock mode: ${config.mockMode ?? 'dev'}`);
 
+    const recordingsDir = path.resolve(config.recordingsDir ?? DEFAULT_RECORDINGS_DIR);
+    if (config.replay) {
+      logger.info(`Replay: serving recorded responses from ${recordingsDir}`);
+    }
+    if (config.proxy) {
+      logger.info(`Proxy: forwarding unmatched routes to ${config.proxy} (recording to ${recordingsDir})`);
+    }
+
+    if (config.seed !== undefined) {
+      logger.info(`Deterministic generation: seed ${config.seed}`);
+    }
+
     if (config.latency && (config.mockMode ?? 'dev') === 'dev') {
       logger.info(
         `Latency simulation: ${config.latency.min}-${config.latency.max}ms`
@@ -291,6 +341,7 @@ export function startServer(
 
   // Start the file watcher if hot-reload is enabled
   let watcher: FSWatcher | undefined;
+  let openapiWatcher: FSWatcher | undefined;
 
   if (config.hotReload) {
     watcher = startFileWatcher(config.typesDir, (filePath) => {
@@ -312,6 +363,11 @@ export function startServer(
 
       logger.success('Swagger spec regenerated with updated endpoints');
     });
+
+    // OpenAPI source: regenerating the types triggers the watcher above
+    if (config.openapi) {
+      openapiWatcher = startOpenAPIWatcher(config.openapi, config.typesDir);
+    }
   }
 
   // Graceful shutdown handling
@@ -321,6 +377,9 @@ export function startServer(
     if (watcher) {
       watcher.close();
     }
+    if (openapiWatcher) {
+      openapiWatcher.close();
+    }
 
     server.close(() => {
       logger.success('Server closed');
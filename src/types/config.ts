@@ -5,6 +5,74 @@
  */
 export type MockMode = 'strict' | 'dev';
 
+/**
+ * What happens to items referencing a deleted resource
+ * - `none`: references are left dangling
+ * - `cascade`: referencing items are deleted too
+ * - `nullify`: the referencing field is set to null
+ */
+export type OnDeleteMode = 'none' | 'cascade' | 'nullify';
+
+/**
+ * Where the routes of an @endpoint type are served from in proxy / replay mode
+ * - `mock`: generated by the mock server (default)
+ * - `proxy`: forwarded to the upstream
+ * - `hybrid`: reads (GET, HEAD) forwarded to the upstream, writes mocked
+ */
+export type EndpointSource = 'mock' | 'proxy' | 'hybrid';
+
+/**
+ * How list endpoints are paginated
+ * - `offset`: `page` / `pageSize`, with page counts in `meta`
+ * - `cursor`: `cursor` / `limit`, with opaque `nextCursor` / `prevCursor` in `meta`
+ */
+export type PaginationMode = 'offset' | 'cursor';
+
+/**
+ * How the server generates the IDs of a type, declared with `@idStrategy`
+ * - `increment`: integers continuing from the largest existing one
+ * - `uuid`: random UUID v4
+ * - `uuidv7`: time-ordered UUID v7
+ * - `objectid`: MongoDB ObjectId (24 hex digits)
+ * - `pattern`: custom pattern such as `ORD-{seq:6}` (`{seq}`, `{hex:N}`, `{digits:N}`)
+ */
+export type IdStrategy = 'increment' | 'uuid' | 'uuidv7' | 'objectid' | 'pattern';
+
+/** ID strategy of a type, with the pattern of the `pattern` strategy */
+export interface IdStrategyDeclaration {
+  strategy: IdStrategy;
+  pattern?: string;
+}
+
+/**
+ * Built-in shapes of list responses
+ * - `default`: `{ data, meta }`, meta depending on the pagination mode
+ * - `items`: `{ items, count }`
+ * - `bare`: the array itself, with `X-Total-Count` and `Link` headers
+ * - `jsonapi`: `{ data, meta: { total }, links }` as in JSON:API
+ */
+export type EnvelopePreset = 'default' | 'items' | 'bare' | 'jsonapi';
+
+/**
+ * Custom shape of list responses. Strings of the form `$name` (or `$name.key`) in `body`
+ * and `headers` are replaced by the values of the page: `$data`, `$meta`, `$total`,
+ * `$page`, `$pageSize`, `$totalPages`, `$limit`, `$nextCursor`, `$prevCursor` and
+ * `$links` (`self`, `first`, `prev`, `next`, `last` URLs).
+ */
+export interface EnvelopeTemplate {
+  /** Response body, e.g. `{ "items": "$data", "count": "$total" }`, or `"$data"` for a bare array */
+  body: unknown;
+
+  /** Response headers, e.g. `{ "X-Total-Count": "$total" }`; headers resolving to null are omitted */
+  headers?: Record<string, string>;
+
+  /** Add an RFC 8288 `Link` header with the first / prev / next / last page URLs */
+  linkHeader?: boolean;
+}
+
+/** Serialization format of an exported OpenAPI spec */
+export type OpenAPIFormat = 'json' | 'yaml';
+
 /**
  * TS-Mock-Proxy server configuration
  */
@@ -50,17 +118,96 @@ export interface ServerConfig {
    * Recommended value when enabled: '.mock-data.json'
    */
   persistData?: string | false;
+
+  /**
+   * Seed for deterministic mock generation. When set, seeded pools and the mock
+   * filler used by POST/PUT/PATCH are reproducible across restarts.
+   * Leave undefined for fresh random data on every start (default).
+   */
+  seed?: number;
+
+  /**
+   * How DELETE propagates to items referencing the deleted resource
+   * (fields detected via `xxxId` naming, `@ref` or `@belongsTo`). Default: 'none'.
+   */
+  onDelete?: OnDeleteMode;
+
+  /**
+   * Validate POST/PUT/PATCH bodies against the interface and reject mismatches with 422.
+   * Defaults to enabled in strict mock mode and disabled in dev mode.
+   */
+  validateBody?: boolean;
+
+  /**
+   * Reject list filters on fields the interface does not declare with 400, instead of ignoring them.
+   * Defaults to enabled in strict mock mode and disabled in dev mode.
+   */
+  strictFilters?: boolean;
+
+  /**
+   * Default pagination of list endpoints; types can override it with `@pagination offset|cursor`.
+   * Default: 'offset'.
+   */
+  pagination?: PaginationMode;
+
+  /**
+   * Shape of list responses: a built-in preset or a custom template. Default: 'default'.
+   */
+  envelope?: EnvelopePreset | EnvelopeTemplate;
+
+  /**
+   * OpenAPI 3.x document (JSON or YAML) the mocks are built from instead of hand-written types.
+   * `typesDir` then points to the directory holding the types generated from it.
+   */
+  openapi?: string;
+
+  /**
+   * Base URL of a real backend. Requests no @endpoint type matches, and routes of types
+   * whose source is `proxy` (or `hybrid`, for reads), are forwarded to it and their
+   * responses recorded to `recordingsDir`.
+   */
+  proxy?: string;
+
+  /**
+   * Serve forwarded routes from the recordings instead of the upstream (offline).
+   * Requests never recorded go to `proxy` when it is set, else get a 404.
+   */
+  replay?: boolean;
+
+  /** Directory of the recorded upstream responses (default: '.mock-recordings') */
+  recordingsDir?: string;
+
+  /**
+   * Source of each type by name, overriding the `@source` tags of the interfaces.
+   * Only applies in proxy / replay mode.
+   */
+  sources?: Record<string, EndpointSource>;
+
+  /**
+   * Check forwarded and replayed JSON responses of typed routes against their interface,
+   * logging any drift between the backend and the contract. Disabled by default.
+   */
+  validateProxy?: boolean;
 }
 
 /**
  * Interface metadata with endpoint flag information
  */
 export interface InterfaceMetadata {
-  /** Interface name */
+  /** Interface or type alias name */
   name: string;
 
   /** Whether the interface has the // @endpoint flag */
   hasEndpointFlag: boolean;
+
+  /** Routing declared with `@source` (`@passthrough` meaning `proxy`), if any */
+  source?: EndpointSource;
+
+  /** Pagination declared with `@pagination`, if any */
+  pagination?: PaginationMode;
+
+  /** ID strategy declared with `@idStrategy`, if any */
+  idStrategy?: IdStrategyDeclaration;
 }
 
 /**
@@ -92,6 +239,26 @@ export interface RouteTypeMapping {
 
   /** File containing the type */
   filePath?: string;
+
+  /** ID of the requested item, for single-item routes (e.g. /users/123 → "123") */
+  id?: string;
+
+  /** Immediate parent resource of a nested URL (e.g. /users/123/posts → User 123) */
+  parent?: ParentResource;
+
+  /** Aggregation route of the collection (e.g. /orders/_aggregate) */
+  aggregate?: boolean;
+}
+
+/**
+ * Parent resource identified by the segments preceding the leaf collection of a nested URL
+ */
+export interface ParentResource {
+  /** Type name derived from the parent collection segment */
+  typeName: string;
+
+  /** ID segment following the parent collection */
+  id: string;
 }
 
 /**
@@ -103,6 +270,24 @@ export interface ApiErrorResponse {
   hint?: string;
 }
 
+/**
+ * A single field-level problem found while validating a request body
+ */
+export interface FieldValidationError {
+  /** Offending top-level field of the body */
+  field: string;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Error response returned with 422 when a request body fails validation
+ */
+export interface ValidationErrorResponse extends ApiErrorResponse {
+  errors: FieldValidationError[];
+}
+
 /**
  * Options for mock generation
  */
@@ -0,0 +1,239 @@
+import * as ts from 'typescript';
+import { FieldValidationError } from '../types/config';
+import { extractConstraints, FieldConstraint } from './constraintExtractor';
+import { validateAllConstraints, validateConstraint } from './constraintValidator';
+import { getTypeChecker, resolveTypeProperties } from './typeResolver';
+
+/**
+ * How the body is applied to the resource, which decides how required fields are checked
+ * - `create` (POST): missing fields are generated by the server, so none are required
+ * - `replace` (PUT): every required field must be present (ID fields come from the URL)
+ * - `patch` (PATCH): partial update, no field is required
+ * - `response` (proxied responses): the full resource, every required field must be present
+ */
+export type BodyValidationMode = 'create' | 'replace' | 'patch' | 'response';
+
+/** Category of a field problem: undeclared, missing, wrongly typed, or violating a JSDoc constraint */
+export type FieldIssueKind = 'unknown' | 'missing' | 'type' | 'constraint';
+
+/** A field validation error along with its category */
+export interface FieldIssue extends FieldValidationError {
+  kind: FieldIssueKind;
+}
+
+const ID_FIELDS = ['id', 'uuid', '_id'];
+
+/**
+ * Validates a JSON request (or proxied response) body against a TypeScript interface or type alias:
+ * unknown fields, missing required fields, property types and JSDoc constraints.
+ * Returns one error per offending field (empty when the body is valid).
+ */
+export function validateRequestBody(
+  filePath: string,
+  interfaceName: string,
+  body: Record<string, unknown>,
+  mode: BodyValidationMode
+): FieldValidationError[] {
+  return findFieldIssues(filePath, interfaceName, body, mode).map(({ field, message }) => ({ field, message }));
+}
+
+/**
+ * Same checks as validateRequestBody, with the category of each problem
+ */
+export function findFieldIssues(
+  filePath: string,
+  interfaceName: string,
+  body: Record<string, unknown>,
+  mode: BodyValidationMode
+): FieldIssue[] {
+  const members = new Map(resolveTypeProperties(filePath, interfaceName).map((property) => [property.name, property]));
+  const constraints = extractConstraints(filePath, interfaceName);
+  const checker = new ValueChecker(getTypeChecker(filePath));
+  const errors: FieldIssue[] = [];
+
+  for (const field of Object.keys(body)) {
+    if (!members.has(field)) {
+      errors.push({ field, kind: 'unknown', message: `Unknown field "${field}" is not declared on ${interfaceName}` });
+    }
+  }
+
+  for (const [field, member] of members) {
+    const value = body[field];
+
+    if (value === undefined) {
+      const isRequired =
+        !member.optional && (mode === 'response' || (mode === 'replace' && !ID_FIELDS.includes(field)));
+      if (isRequired) {
+        errors.push({ field, kind: 'missing', message: `Missing required field "${field}"` });
+      }
+      continue;
+    }
+
+    const typeIssue = checker.check(member.type, value, field, member.typeText);
+    if (typeIssue) {
+      errors.push(typeIssue);
+      continue;
+    }
+
+    const constraintError = checkConstraints(field, value, constraints[field] ?? []);
+    if (constraintError) errors.push({ ...constraintError, kind: 'constraint' });
+  }
+
+  return errors;
+}
+
+/** Validates a value against the JSDoc constraints of its field. */
+function checkConstraints(
+  field: string,
+  value: unknown,
+  constraints: FieldConstraint[]
+): FieldValidationError | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  if (validateAllConstraints(value, constraints)) return null;
+
+  for (const constraint of constraints) {
+    if (!validateConstraint(value, constraint)) {
+      const expected = Array.isArray(constraint.value) ? constraint.value.join(', ') : constraint.value;
+      return { field, message: `Value ${JSON.stringify(value)} violates @${constraint.type} ${expected}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks JSON values against types resolved by the type checker, so nested objects get the
+ * same checks as the body: inherited members, intersections, unknown and missing fields.
+ * Nested problems are reported on their dot path (e.g. `address.city`); a value inside an
+ * array is reported on the array field. Unresolved generics and non-JSON types are accepted.
+ */
+class ValueChecker {
+  constructor(private checker: ts.TypeChecker) {}
+
+  /** Returns the first problem of a value, described with `typeText` when it does not match at all */
+  check(type: ts.Type, value: unknown, field: string, typeText = this.describeType(type)): FieldIssue | null {
+    const flags = type.flags;
+
+    if (type.isUnion()) {
+      if (type.types.some((member) => this.check(member, value, field) === null)) return null;
+      // A plain object against one object member (e.g. `Address | null`): report its precise problem
+      const objectMembers = type.types.filter((member) => this.isObjectType(member));
+      if (isPlainObject(value) && objectMembers.length === 1) return this.check(objectMembers[0]!, value, field);
+      return this.mismatch(typeText, value, field);
+    }
+
+    if (type.isIntersection()) {
+      if (type.types.every((member) => this.isObjectType(member))) {
+        return this.checkObject(type, value, field, typeText);
+      }
+      // Branded primitives (e.g. `string & { __brand: 'Email' }`): only the primitive part applies
+      const primitives = type.types.filter((member) => !this.isObjectType(member));
+      return primitives.some((member) => this.check(member, value, field) !== null)
+        ? this.mismatch(typeText, value, field)
+        : null;
+    }
+
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return value === type.value ? null : this.mismatch(typeText, value, field);
+    }
+
+    let matches: boolean;
+    if (flags & ts.TypeFlags.String) matches = typeof value === 'string';
+    else if (flags & ts.TypeFlags.Number) matches = typeof value === 'number' && Number.isFinite(value);
+    else if (flags & ts.TypeFlags.BooleanLiteral) matches = value === (type === this.checker.getTrueType());
+    else if (flags & ts.TypeFlags.Null) matches = value === null;
+    else if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) matches = value === undefined;
+    else if (flags & ts.TypeFlags.Never) matches = false;
+    else if (flags & ts.TypeFlags.NonPrimitive) matches = typeof value === 'object' && value !== null;
+    else if (flags & ts.TypeFlags.Object) return this.checkObjectType(type, value, field, typeText);
+    else return null;
+
+    return matches ? null : this.mismatch(typeText, value, field);
+  }
+
+  private checkObjectType(type: ts.Type, value: unknown, field: string, typeText: string): FieldIssue | null {
+    if (type.getSymbol()?.getName() === 'Date') {
+      return typeof value === 'string' && !isNaN(new Date(value).getTime()) ? null : this.mismatch(typeText, value, field);
+    }
+
+    if (this.checker.isArrayType(type) || this.checker.isTupleType(type)) {
+      if (!Array.isArray(value)) return this.mismatch(typeText, value, field);
+      const elementTypes = this.checker.getTypeArguments(type as ts.TypeReference);
+      const tuple = this.checker.isTupleType(type) ? ((type as ts.TypeReference).target as ts.TupleType) : undefined;
+      if (tuple && (value.length < tuple.minLength || (!tuple.hasRestElement && value.length > elementTypes.length))) {
+        return this.mismatch(typeText, value, field);
+      }
+      for (const [i, item] of value.entries()) {
+        const elementType = elementTypes[tuple ? Math.min(i, elementTypes.length - 1) : 0];
+        const issue = elementType && this.check(elementType, item, field);
+        // A wrongly typed item is reported as a mismatch of the whole array
+        if (issue) return issue.field === field ? this.mismatch(typeText, value, field) : issue;
+      }
+      return null;
+    }
+
+    // Function types have no JSON representation to check
+    if (type.getCallSignatures().length > 0 && type.getProperties().length === 0) return null;
+
+    return this.checkObject(type, value, field, typeText);
+  }
+
+  /** Checks the members of an object type: unknown fields, missing required fields, then each value */
+  private checkObject(type: ts.Type, value: unknown, field: string, typeText: string): FieldIssue | null {
+    if (!isPlainObject(value)) return this.mismatch(typeText, value, field);
+
+    const properties = new Map(this.checker.getPropertiesOfType(type).map((symbol) => [symbol.name, symbol]));
+    const indexInfo = this.checker.getIndexInfosOfType(type).find((info) => info.keyType.flags & ts.TypeFlags.String);
+
+    for (const [name, fieldValue] of Object.entries(value)) {
+      const path = `${field}.${name}`;
+      const property = properties.get(name);
+      if (!property) {
+        if (!indexInfo) {
+          return { field: path, kind: 'unknown', message: `Unknown field "${path}" is not declared on ${typeText}` };
+        }
+        const issue = this.check(indexInfo.type, fieldValue, path);
+        if (issue) return issue;
+        continue;
+      }
+      if (fieldValue === undefined) continue;
+      const issue = this.check(this.checker.getTypeOfSymbol(property), fieldValue, path);
+      if (issue) return issue;
+    }
+
+    for (const [name, property] of properties) {
+      const optional = (property.flags & ts.SymbolFlags.Optional) !== 0;
+      if (!optional && value[name] === undefined) {
+        const path = `${field}.${name}`;
+        return { field: path, kind: 'missing', message: `Missing required field "${path}"` };
+      }
+    }
+    return null;
+  }
+
+  /** True for object types, and intersections of them, whose values are JSON objects or arrays */
+  private isObjectType(type: ts.Type): boolean {
+    if (type.isIntersection()) return type.types.every((member) => this.isObjectType(member));
+    return (type.flags & (ts.TypeFlags.Object | ts.TypeFlags.NonPrimitive)) !== 0;
+  }
+
+  private describeType(type: ts.Type): string {
+    return this.checker
+      .typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation)
+      .replace(/\s*\|\s*undefined\b/g, '');
+  }
+
+  private mismatch(typeText: string, value: unknown, field: string): FieldIssue {
+    return { field, kind: 'type', message: `Expected ${typeText}, got ${describe(value)}` };
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Describes the JSON type of a value for error messages. */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
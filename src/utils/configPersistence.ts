@@ -23,6 +23,26 @@ function isValidSavedConfig(obj: unknown): obj is ServerConfig {
     if (typeof latency['min'] !== 'number' || typeof latency['max'] !== 'number') return false;
   }
   if (s['persistData'] !== undefined && s['persistData'] !== false && typeof s['persistData'] !== 'string') return false;
+  if (s['seed'] !== undefined && !Number.isSafeInteger(s['seed'])) return false;
+  if (s['onDelete'] !== undefined && !['none', 'cascade', 'nullify'].includes(s['onDelete'] as string)) return false;
+  if (s['pagination'] !== undefined && !['offset', 'cursor'].includes(s['pagination'] as string)) return false;
+  if (s['envelope'] !== undefined) {
+    const envelope = s['envelope'];
+    const isPreset = typeof envelope === 'string' && ['default', 'items', 'bare', 'jsonapi'].includes(envelope);
+    const isTemplate = typeof envelope === 'object' && envelope !== null && 'body' in envelope;
+    if (!isPreset && !isTemplate) return false;
+  }
+  if (s['strictFilters'] !== undefined && typeof s['strictFilters'] !== 'boolean') return false;
+  if (s['validateBody'] !== undefined && typeof s['validateBody'] !== 'boolean') return false;
+  if (s['proxy'] !== undefined && typeof s['proxy'] !== 'string') return false;
+  if (s['replay'] !== undefined && typeof s['replay'] !== 'boolean') return false;
+  if (s['recordingsDir'] !== undefined && typeof s['recordingsDir'] !== 'string') return false;
+  if (s['sources'] !== undefined) {
+    if (typeof s['sources'] !== 'object' || s['sources'] === null) return false;
+    const sources = Object.values(s['sources'] as Record<string, unknown>);
+    if (!sources.every((source) => ['mock', 'proxy', 'hybrid'].includes(source as string))) return false;
+  }
+  if (s['validateProxy'] !== undefined && typeof s['validateProxy'] !== 'boolean') return false;
   return true;
 }
 
@@ -1,5 +1,5 @@
-import * as fs from 'fs';
 import * as ts from 'typescript';
+import { hasTypeDeclaration, resolveTypeProperties } from './typeResolver';
 
 /**
  * Represents a single constraint on a field
@@ -31,60 +31,33 @@ export function extractConstraints(
   filePath: string,
   interfaceName: string
 ): FieldConstraints {
-  const fileContent = fs.readFileSync(filePath, 'utf-8');
-  const sourceFile = ts.createSourceFile(
-    filePath,
-    fileContent,
-    ts.ScriptTarget.Latest,
-    true,
-    ts.ScriptKind.TS
-  );
+  if (!hasTypeDeclaration(filePath, interfaceName)) {
+    return {};
+  }
 
   const constraints: FieldConstraints = {};
 
-  // Visit all nodes in the AST
-  visit(sourceFile, interfaceName, constraints, sourceFile);
-
-  return constraints;
-}
-
-/**
- * Recursively visits the AST to find the interface and extract constraints
- */
-function visit(
-  node: ts.Node,
-  interfaceName: string,
-  constraints: FieldConstraints,
-  sourceFile?: ts.SourceFile
-): void {
-  // Look for interface declarations
-  if (ts.isInterfaceDeclaration(node) && node.name?.text === interfaceName) {
-    // Process each property of the interface
-    node.members.forEach((member) => {
-      if (ts.isPropertySignature(member) && member.name) {
-        // Use .text for identifiers/string literals to avoid wrapping quotes
-        const propName =
-          ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
-            ? member.name.text
-            : member.name.getText();
-        const fieldConstraints = extractJSDocConstraints(member, sourceFile);
-
-        if (fieldConstraints.length > 0) {
-          constraints[propName] = fieldConstraints;
-        }
-      }
-    });
-    return;
+  // Resolved properties include inherited and utility-type members, each pointing at
+  // the declaration that carries its JSDoc
+  for (const property of resolveTypeProperties(filePath, interfaceName)) {
+    if (!property.declaration) continue;
+
+    const fieldConstraints = extractJSDocConstraints(
+      property.declaration,
+      property.declaration.getSourceFile()
+    );
+    if (fieldConstraints.length > 0) {
+      constraints[property.name] = fieldConstraints;
+    }
   }
 
-  // Recursively visit children
-  ts.forEachChild(node, (child) => visit(child, interfaceName, constraints, sourceFile));
+  return constraints;
 }
 
 /**
  * Extracts JSDoc constraints from a property
  */
-function extractJSDocConstraints(node: ts.PropertySignature, sourceFile?: ts.SourceFile): FieldConstraint[] {
+export function extractJSDocConstraints(node: ts.PropertySignature, sourceFile?: ts.SourceFile): FieldConstraint[] {
   const constraints: FieldConstraint[] = [];
 
   const jsDocs = ts.getJSDocCommentsAndTags(node);
@@ -0,0 +1,31 @@
+/**
+ * Entity tags of single resources, for conditional requests:
+ * `If-None-Match` on GET and `If-Match` on writes.
+ */
+
+/**
+ * Computes the strong ETag of a stored item from its version in the store and a hash
+ * of its content, so regenerated pool items (version 0) still get a new tag.
+ */
+export function computeETag(item: Record<string, unknown>, version: number): string {
+  let hash = 0x811c9dc5;
+  for (const char of JSON.stringify(item)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `"${version}-${(hash >>> 0).toString(16).padStart(8, '0')}"`;
+}
+
+/**
+ * Returns true when an `If-Match` / `If-None-Match` header lists the ETag, or is `*`
+ * and the resource exists. Weak tags (`W/"..."`) match their strong counterpart only
+ * when `weak` is set, as for `If-None-Match`.
+ */
+export function matchesETag(header: string, etag: string | undefined, weak: boolean): boolean {
+  if (etag === undefined) return false;
+  if (header.trim() === '*') return true;
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some((tag) => tag === etag || (weak && tag.startsWith('W/') && tag.slice(2) === etag));
+}
@@ -3,6 +3,21 @@ import * as path from 'path';
 import { logger } from './logger';
 import { schemaCache, mockDataStore } from '../core/cache';
 import { invalidateTypeMap } from './typeMapping';
+import { findDependentFiles, invalidateTypeResolver } from './typeResolver';
+import { writeOpenAPITypes } from '../core/openapiSource';
+
+/**
+ * Invalidates cached schemas, pools and compiled types of a file and of every
+ * type file importing it (their mocks embed the changed types)
+ */
+function invalidateFileAndDependents(filePath: string): void {
+  const affected = new Set([filePath, ...findDependentFiles(filePath)]);
+  for (const file of affected) {
+    schemaCache.invalidateFile(file);
+    mockDataStore.invalidateFile(file);
+  }
+  invalidateTypeResolver(filePath);
+}
 
 /**
  * Configures and starts the file watcher for hot-reload
@@ -29,9 +44,8 @@ export function startFileWatcher(
     .on('change', (filePath) => {
       logger.info(`File changed: ${path.basename(filePath)}`);
 
-      // Invalidate the cache for this file
-      schemaCache.invalidateFile(filePath);
-      mockDataStore.invalidateFile(filePath);
+      // Invalidate the cache for this file and for the type files importing it
+      invalidateFileAndDependents(filePath);
       invalidateTypeMap();
 
       // Call the callback if provided
@@ -43,6 +57,8 @@ export function startFileWatcher(
       logger.success(`New file detected: ${path.basename(filePath)}`);
 
       invalidateTypeMap();
+      // A new file may satisfy imports that previously failed to resolve
+      invalidateTypeResolver();
 
       if (onReload) {
         onReload(filePath);
@@ -51,9 +67,8 @@ export function startFileWatcher(
     .on('unlink', (filePath) => {
       logger.warn(`File deleted: ${path.basename(filePath)}`);
 
-      // Invalidate the cache for this deleted file
-      schemaCache.invalidateFile(filePath);
-      mockDataStore.invalidateFile(filePath);
+      // Invalidate the cache for this deleted file and for the type files importing it
+      invalidateFileAndDependents(filePath);
       invalidateTypeMap();
     })
     .on('error', (error) => {
@@ -66,6 +81,38 @@ export function startFileWatcher(
   return watcher;
 }
 
+/**
+ * Watches an OpenAPI document and regenerates its types on change.
+ * The watcher of the generated types directory then reloads them like hand-written types.
+ *
+ * @param specPath - OpenAPI document to watch
+ * @param typesDir - Directory of the types generated from the document
+ */
+export function startOpenAPIWatcher(specPath: string, typesDir: string): chokidar.FSWatcher {
+  const watcher = chokidar.watch(specPath, {
+    persistent: true,
+    ignoreInitial: true,
+  });
+
+  watcher
+    .on('change', () => {
+      logger.info(`OpenAPI document changed: ${path.basename(specPath)}`);
+
+      try {
+        writeOpenAPITypes(specPath, typesDir);
+      } catch (error) {
+        logger.error(
+          `Failed to regenerate types from ${path.basename(specPath)}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    })
+    .on('error', (error) => {
+      logger.error(`OpenAPI watcher error: ${error.message}`);
+    });
+
+  return watcher;
+}
+
 /**
  * Stops the file watcher
  */
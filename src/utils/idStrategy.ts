@@ -0,0 +1,141 @@
+import { IdStrategyDeclaration } from '../types/config';
+import { createSeededRandom, SEED_REFERENCE_DATE } from './seededRandom';
+
+/** Attempts at drawing a free random ID before giving up */
+const MAX_ATTEMPTS = 1000;
+
+/** Placeholders of a custom `@idStrategy pattern`: `{seq}`, `{seq:6}`, `{hex:8}`, `{digits:4}` */
+const PLACEHOLDER = /\{(seq|hex|digits)(?::(\d+))?\}/g;
+
+/**
+ * Hands out IDs following a strategy, never one already taken nor one handed out before.
+ * `increment` and `{seq}` patterns continue from the largest taken value.
+ */
+export interface IdAllocator {
+  next(): string | number;
+  /** Marks an ID chosen elsewhere (e.g. by a client) as taken */
+  reserve(id: unknown): void;
+}
+
+/**
+ * Creates an allocator of IDs for a strategy, avoiding the given taken IDs
+ * (compared as strings, so `5` and `"5"` are the same ID). With a seed, the random
+ * parts are reproducible and timestamps are those of SEED_REFERENCE_DATE.
+ */
+export function createIdAllocator(
+  declaration: IdStrategyDeclaration,
+  takenIds: Iterable<unknown>,
+  seed?: number
+): IdAllocator {
+  const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+  const now = seed !== undefined ? () => SEED_REFERENCE_DATE : Date.now;
+  const taken = new Set<string>();
+  const sequenceMatcher = buildSequenceMatcher(declaration);
+  let sequence = 0;
+  const reserve = (id: unknown): void => {
+    taken.add(String(id));
+    const value = sequenceMatcher?.exec(String(id))?.[1];
+    if (value !== undefined) sequence = Math.max(sequence, Number(value));
+  };
+  for (const id of takenIds) reserve(id);
+  let objectIdCounter = Math.floor(random() * 0xffffff);
+
+  const draw = (): string | number => {
+    switch (declaration.strategy) {
+      case 'increment':
+        return ++sequence;
+      case 'uuidv7':
+        return uuidV7(random, now());
+      case 'objectid':
+        objectIdCounter = (objectIdCounter + 1) % 0x1000000;
+        return objectId(random, now(), objectIdCounter);
+      case 'pattern':
+        return formatPattern(declaration.pattern ?? '{seq}', ++sequence, random);
+      case 'uuid':
+      default:
+        return uuidV4(random);
+    }
+  };
+
+  return {
+    next() {
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const id = draw();
+        if (!taken.has(String(id))) {
+          taken.add(String(id));
+          return id;
+        }
+      }
+      throw new Error(`Could not generate a free ID with the "${declaration.strategy}" strategy`);
+    },
+    reserve,
+  };
+}
+
+/**
+ * Returns true when a value has the shape of the IDs of a `pattern` strategy, e.g.
+ * `ORD-00042` for `ORD-{seq:5}`; such IDs are told apart from collection names in URLs by it.
+ */
+export function matchesIdPattern(declaration: IdStrategyDeclaration, value: string): boolean {
+  if (declaration.strategy !== 'pattern' || !declaration.pattern) return false;
+  return patternToRegExp(declaration.pattern, '\\d+').test(value);
+}
+
+/** Matches the IDs holding a sequence number, captured: integers for `increment`, `{seq}` patterns */
+function buildSequenceMatcher(declaration: IdStrategyDeclaration): RegExp | undefined {
+  if (declaration.strategy === 'increment') return /^(\d+)$/;
+  if (declaration.strategy !== 'pattern' || !declaration.pattern?.includes('{seq')) return undefined;
+  return patternToRegExp(declaration.pattern, '(\\d+)');
+}
+
+/** Regular expression of the IDs of a pattern, with `seqSource` standing for `{seq}` */
+function patternToRegExp(pattern: string, seqSource: string): RegExp {
+  let source = '';
+  let last = 0;
+  for (const match of pattern.matchAll(PLACEHOLDER)) {
+    source += escapeRegExp(pattern.slice(last, match.index));
+    source += match[1] === 'seq' ? seqSource : match[1] === 'hex' ? '[0-9a-f]+' : '\\d+';
+    last = match.index + match[0].length;
+  }
+  return new RegExp(`^${source}${escapeRegExp(pattern.slice(last))}$`);
+}
+
+/** Fills the placeholders of a custom pattern, e.g. `ORD-{seq:6}` → `ORD-000042` */
+function formatPattern(pattern: string, sequence: number, random: () => number): string {
+  return pattern.replace(PLACEHOLDER, (_, kind: string, width?: string) => {
+    const length = width !== undefined ? Number(width) : undefined;
+    if (kind === 'seq') return String(sequence).padStart(length ?? 0, '0');
+    return randomChars(length ?? 8, kind === 'hex' ? 16 : 10, random);
+  });
+}
+
+function uuidV4(random: () => number): string {
+  return formatUuid(randomChars(32, 16, random), 4);
+}
+
+/** UUID v7: a 48-bit millisecond timestamp followed by random bits, so IDs sort by creation time */
+function uuidV7(random: () => number, time: number): string {
+  return formatUuid(time.toString(16).padStart(12, '0').slice(-12) + randomChars(20, 16, random), 7);
+}
+
+/** MongoDB ObjectId: 4-byte seconds timestamp, 5 random bytes and a 3-byte counter, as 24 hex digits */
+function objectId(random: () => number, time: number, counter: number): string {
+  const seconds = Math.floor(time / 1000).toString(16).padStart(8, '0').slice(-8);
+  return seconds + randomChars(10, 16, random) + counter.toString(16).padStart(6, '0');
+}
+
+/** Formats 32 hex digits as a UUID, setting its version and RFC 4122 variant digits */
+function formatUuid(hex: string, version: number): string {
+  const variant = ((parseInt(hex.charAt(16), 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${version}${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function randomChars(length: number, radix: number, random: () => number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) result += Math.floor(random() * radix).toString(radix);
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,87 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/** Default directory holding recorded upstream responses */
+export const DEFAULT_RECORDINGS_DIR = '.mock-recordings';
+
+/**
+ * How a recorded body is stored: parsed JSON (readable and editable), text, or base64 for binary content
+ */
+export type RecordingEncoding = 'json' | 'utf8' | 'base64';
+
+/**
+ * An upstream response saved to disk, served again by replay mode
+ */
+export interface Recording {
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string | string[]>;
+    encoding: RecordingEncoding;
+    body: unknown;
+  };
+}
+
+/**
+ * Path of the recording for a request: one directory per URL segment and one file per
+ * method, suffixed with a hash of the sorted query string when there is one
+ * (e.g. `GET /api/status?b=2&a=1` → `<dir>/api/status/GET_<hash>.json`)
+ */
+export function recordingPath(recordingsDir: string, method: string, url: string): string {
+  const parsed = new URL(url, 'http://localhost');
+  const segments = parsed.pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const safe = safeDecode(segment).replace(/[^\w.-]/g, '_');
+      return /^\.+$/.test(safe) ? '_' : safe;
+    });
+
+  parsed.searchParams.sort();
+  const query = parsed.searchParams.toString();
+  const suffix = query ? `_${crypto.createHash('sha1').update(query).digest('hex').slice(0, 10)}` : '';
+
+  return path.join(path.resolve(recordingsDir), ...segments, `${method.toUpperCase()}${suffix}.json`);
+}
+
+/**
+ * Loads the recording of a request, or undefined when none exists (or the file is invalid)
+ */
+export function loadRecording(recordingsDir: string, method: string, url: string): Recording | undefined {
+  const filePath = recordingPath(recordingsDir, method, url);
+  if (!fs.existsSync(filePath)) return undefined;
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Recording;
+  } catch (error) {
+    logger.warn(`Ignoring invalid recording ${filePath}: ${error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Saves a recording, replacing any previous recording of the same request
+ */
+export function saveRecording(recordingsDir: string, recording: Recording): void {
+  const filePath = recordingPath(recordingsDir, recording.request.method, recording.request.url);
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(recording, null, 2), 'utf-8');
+    logger.debug(`Recorded ${recording.request.method} ${recording.request.url} → ${filePath}`);
+  } catch (error) {
+    logger.warn(`Failed to save recording: ${error}`);
+  }
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,83 @@
+import * as ts from 'typescript';
+import { toPascalCase } from './pluralize';
+import { hasTypeDeclaration, resolveTypeProperties } from './typeResolver';
+
+/**
+ * A field of an interface holding the ID of another type
+ */
+export interface FieldRelation {
+  /** Name of the field holding the foreign key (e.g. "userId") */
+  field: string;
+
+  /** Name of the referenced type (e.g. "User") */
+  target: string;
+
+  /** How the relation was detected: an explicit JSDoc tag or the `xxxId` naming convention */
+  via: 'belongsTo' | 'ref' | 'convention';
+}
+
+/**
+ * Extracts the foreign-key relations declared by an interface or type alias,
+ * including members inherited from base types
+ *
+ * Detection rules, in priority order:
+ * - `@belongsTo TypeName` or `@ref TypeName` JSDoc tag on a property
+ * - naming convention: a property named `xxxId` references the type `Xxx`
+ *   (e.g. `userId` → `User`, `blogPostId` → `BlogPost`)
+ */
+export function extractRelations(filePath: string, interfaceName: string): FieldRelation[] {
+  if (!hasTypeDeclaration(filePath, interfaceName)) return [];
+
+  const relations: FieldRelation[] = [];
+
+  for (const { name: field, declaration } of resolveTypeProperties(filePath, interfaceName)) {
+    const belongsTo = declaration && findTagValue(declaration, 'belongsTo');
+    if (belongsTo) {
+      relations.push({ field, target: belongsTo, via: 'belongsTo' });
+      continue;
+    }
+
+    const ref = declaration && findTagValue(declaration, 'ref');
+    if (ref) {
+      relations.push({ field, target: ref, via: 'ref' });
+      continue;
+    }
+
+    const match = /^([a-zA-Z][a-zA-Z0-9]*)Id$/.exec(field);
+    if (match && match[1]) {
+      relations.push({ field, target: toPascalCase(match[1]), via: 'convention' });
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * Finds the field of `interfaceName` that references `parentTypeName`, if any.
+ * An explicit `@belongsTo` tag wins over `@ref`, which wins over the naming convention.
+ */
+export function findParentKey(
+  filePath: string,
+  interfaceName: string,
+  parentTypeName: string
+): string | undefined {
+  const candidates = extractRelations(filePath, interfaceName).filter(
+    (relation) => relation.target === parentTypeName
+  );
+  const belongsTo = candidates.find((relation) => relation.via === 'belongsTo');
+  const ref = candidates.find((relation) => relation.via === 'ref');
+  return (belongsTo ?? ref ?? candidates[0])?.field;
+}
+
+/**
+ * Returns the first word of a JSDoc tag's comment (e.g. "User" for `@belongsTo User`)
+ */
+function findTagValue(node: ts.Node, tagName: string): string | undefined {
+  for (const tag of ts.getJSDocTags(node)) {
+    if (tag.tagName.text !== tagName) continue;
+    const comment = ts.getTextOfJSDocComment(tag.comment)?.trim();
+    const value = comment?.split(/\s+/)[0];
+    if (value) return value;
+  }
+  return undefined;
+}
@@ -0,0 +1,17 @@
+import * as ts from 'typescript';
+import { hasTypeDeclaration, resolveTypeProperties } from './typeResolver';
+
+/**
+ * Returns the properties of an interface or type alias tagged with `@searchable`,
+ * including members inherited from base types, in declaration order.
+ * `q` searches these fields only; without any tag, it searches every string field.
+ */
+export function extractSearchableFields(filePath: string, interfaceName: string): string[] {
+  if (!hasTypeDeclaration(filePath, interfaceName)) return [];
+
+  return resolveTypeProperties(filePath, interfaceName)
+    .filter(({ declaration }) =>
+      declaration !== undefined && ts.getJSDocTags(declaration).some((tag) => tag.tagName.text === 'searchable')
+    )
+    .map(({ name }) => name);
+}
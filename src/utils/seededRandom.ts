@@ -0,0 +1,111 @@
+import { faker } from '@faker-js/faker';
+
+/** Reference "now" used for relative dates (e.g. faker's date.past) while a seed is active. */
+export const SEED_REFERENCE_DATE = Date.UTC(2024, 0, 1);
+
+/**
+ * Intermock bundles its own faker (v4) instance for smart props such as `email` or `createdAt`.
+ * faker v4's own `seed()` is broken, so we seed the Mersenne Twister it draws from directly,
+ * resolved relative to intermock so it is the exact instance intermock uses.
+ */
+interface LegacyMersenne {
+  seed(value: number): void;
+}
+
+let legacyMersenne: LegacyMersenne | null | undefined;
+
+function getLegacyMersenne(): LegacyMersenne | null {
+  if (legacyMersenne === undefined) {
+    try {
+      const mersennePath = require.resolve('faker/vendor/mersenne', {
+        paths: [require.resolve('intermock')],
+      });
+      legacyMersenne = require(mersennePath) as LegacyMersenne;
+    } catch {
+      legacyMersenne = null;
+    }
+  }
+  return legacyMersenne;
+}
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32).
+ * Returns values in [0, 1), like Math.random.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives a stable sub-seed from a base seed and any number of discriminators
+ * (type name, item index, ...) using FNV-1a. Returns undefined when no base seed is set,
+ * so callers can pass the result straight into MockGenerationOptions.
+ */
+export function deriveSeed(
+  base: number | undefined,
+  ...parts: Array<string | number>
+): number | undefined {
+  if (base === undefined) return undefined;
+  let hash = 0x811c9dc5 ^ (base >>> 0);
+  for (const char of parts.join('\u0000')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Runs `fn` with every random source used during mock generation seeded:
+ * Math.random (intermock), intermock's bundled faker, @faker-js/faker (constraints)
+ * and the wall clock (relative dates). Everything is restored afterwards.
+ */
+export function withSeed<T>(seed: number, fn: () => T): T {
+  const originalRandom = Math.random;
+  const OriginalDate = globalThis.Date;
+  const legacy = getLegacyMersenne();
+
+  const random = createSeededRandom(seed);
+  Math.random = random;
+  globalThis.Date = createFixedDate(OriginalDate, SEED_REFERENCE_DATE);
+  legacy?.seed(Math.floor(random() * 0x7fffffff));
+  faker.seed(Math.floor(random() * 0x7fffffff));
+  faker.setDefaultRefDate(new OriginalDate(SEED_REFERENCE_DATE));
+
+  try {
+    return fn();
+  } finally {
+    Math.random = originalRandom;
+    globalThis.Date = OriginalDate;
+    faker.setDefaultRefDate();
+    faker.seed();
+    legacy?.seed(Math.floor(Math.random() * 0x7fffffff));
+  }
+}
+
+/**
+ * Returns a Date subclass whose argument-less constructor and Date.now()
+ * report `now` instead of the current time.
+ */
+function createFixedDate(Base: DateConstructor, now: number): DateConstructor {
+  class FixedDate extends Base {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) {
+        super(now);
+      } else {
+        super(...(args as [string | number | Date]));
+      }
+    }
+
+    static override now(): number {
+      return now;
+    }
+  }
+  return FixedDate as DateConstructor;
+}
@@ -1,7 +1,33 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { RouteTypeMapping, InterfaceMetadata } from '../types/config';
+import * as ts from 'typescript';
+import {
+  RouteTypeMapping,
+  InterfaceMetadata,
+  ParentResource,
+  EndpointSource,
+  PaginationMode,
+  IdStrategy,
+  IdStrategyDeclaration,
+} from '../types/config';
 import { parseUrlSegments, isIdSegment, urlSegmentToTypeName } from './pluralize';
+import { logger } from './logger';
+import { matchesIdPattern } from './idStrategy';
+
+/** Values accepted by the `@source` tag */
+export const ENDPOINT_SOURCES: EndpointSource[] = ['mock', 'proxy', 'hybrid'];
+
+/** Values accepted by the `@pagination` tag */
+export const PAGINATION_MODES: PaginationMode[] = ['offset', 'cursor'];
+
+/** Values accepted by the `@idStrategy` tag */
+export const ID_STRATEGIES: IdStrategy[] = ['increment', 'uuid', 'uuidv7', 'objectid', 'pattern'];
+
+/** Last URL segment of the aggregation route of a collection (`/orders/_aggregate`) */
+export const AGGREGATE_SEGMENT = '_aggregate';
+
+/** Invalid tag values already reported, so each is warned about once */
+const reportedTags = new Set<string>();
 
 /**
  * Recursively scans a directory to find all .ts files
@@ -45,75 +71,157 @@ export function findTypeScriptFiles(dir: string): string[] {
 }
 
 /**
- * Extracts all exported interface names from a TypeScript file with endpoint flags
- * Detects // @endpoint comments before interface declarations
+ * Extracts all exported interface and type alias names from a TypeScript file with endpoint flags
+ * Detects // @endpoint, @source, @passthrough, @pagination and @idStrategy comments (line or block) directly before the declaration
  */
 export function extractInterfaceNames(filePath: string): InterfaceMetadata[] {
   const content = fs.readFileSync(filePath, 'utf-8');
-  const lines = content.split('\n');
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
   const metadata: InterfaceMetadata[] = [];
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i] || '';
-    const interfaceMatch = /export\s+interface\s+(\w+)/.exec(line);
-
-    if (interfaceMatch && interfaceMatch[1]) {
-      const interfaceName = interfaceMatch[1];
-      
-      // Check preceding lines for @endpoint flag, skipping blank lines and comments
-      let hasEndpointFlag = false;
-      if (i > 0) {
-        const maxLookback = 10;
-        for (let j = i - 1; j >= 0 && i - j <= maxLookback; j--) {
-          const prevLineRaw = lines[j] || '';
-          const prevLine = prevLineRaw.trim();
-          // Skip empty lines
-          if (prevLine === '') {
-            continue;
-          }
-          const isLineComment = prevLine.startsWith('//');
-          const isBlockCommentPart =
-            prevLine.startsWith('/**') ||
-            prevLine.startsWith('/*') ||
-            prevLine.startsWith('*') ||
-            prevLine.startsWith('*/');
-          if (isLineComment || isBlockCommentPart) {
-            // Treat any comment line containing @endpoint as the flag
-            if (prevLine.includes('@endpoint')) {
-              hasEndpointFlag = true;
-              break;
-            }
-            // Continue scanning upwards through comment/JSDoc lines
-            continue;
-          }
-          // Reached a non-comment, non-blank line; stop scanning
-          break;
-        }
-      }
+  for (const statement of sourceFile.statements) {
+    if (!ts.isInterfaceDeclaration(statement) && !ts.isTypeAliasDeclaration(statement)) continue;
 
-      metadata.push({
-        name: interfaceName,
-        hasEndpointFlag,
-      });
-    }
+    const isExported = statement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    );
+    if (!isExported) continue;
+
+    // Comments between the previous statement and this declaration
+    const comments = ts.getLeadingCommentRanges(content, statement.getFullStart()) ?? [];
+    const commentText = comments.map((range) => content.slice(range.pos, range.end)).join('\n');
+
+    const typeName = statement.name.text;
+    const source = parseTag(commentText, 'source', ENDPOINT_SOURCES, filePath, typeName);
+    metadata.push({
+      name: typeName,
+      hasEndpointFlag: commentText.includes('@endpoint'),
+      // `@passthrough` is short for `@source proxy`
+      source: source ?? (commentText.includes('@passthrough') ? 'proxy' : undefined),
+      pagination: parseTag(commentText, 'pagination', PAGINATION_MODES, filePath, typeName),
+      idStrategy: parseIdStrategy(commentText, filePath, typeName),
+    });
   }
 
   return metadata;
 }
 
-/** Module-level cache for the type map */
-let typeMapCache: Map<string, string> | null = null;
+/**
+ * Reads the value of a `@tag value` comment among the allowed ones; invalid values are ignored with a warning
+ */
+function parseTag<T extends string>(
+  commentText: string,
+  tag: string,
+  allowed: T[],
+  filePath: string,
+  typeName: string
+): T | undefined {
+  const value = new RegExp(`@${tag}\\s+([\\w-]+)`).exec(commentText)?.[1];
+  if (value === undefined) return undefined;
+  if ((allowed as string[]).includes(value)) return value as T;
+
+  const key = `${filePath}:${typeName}:${tag}:${value}`;
+  if (!reportedTags.has(key)) {
+    reportedTags.add(key);
+    logger.warn(`Ignoring @${tag} ${value} on ${typeName}: expected one of ${allowed.join(', ')}`);
+  }
+  return undefined;
+}
 
 /**
- * Clears the type map cache so the next call to findTypeForUrl() rebuilds it.
+ * Reads an `@idStrategy` tag; the `pattern` strategy takes the pattern as next word
+ * (`@idStrategy pattern ORD-{seq:6}`) and is ignored with a warning without one
+ */
+function parseIdStrategy(
+  commentText: string,
+  filePath: string,
+  typeName: string
+): IdStrategyDeclaration | undefined {
+  const strategy = parseTag(commentText, 'idStrategy', ID_STRATEGIES, filePath, typeName);
+  if (strategy !== 'pattern') return strategy && { strategy };
+
+  const pattern = /@idStrategy\s+pattern\s+(\S+)/.exec(commentText)?.[1];
+  if (pattern !== undefined && !pattern.startsWith('*')) return { strategy, pattern };
+
+  const key = `${filePath}:${typeName}:idStrategy:pattern`;
+  if (!reportedTags.has(key)) {
+    reportedTags.add(key);
+    logger.warn(`Ignoring @idStrategy pattern on ${typeName}: expected a pattern such as ORD-{seq:6}`);
+  }
+  return undefined;
+}
+
+/**
+ * Returns where the routes of a type are served from, as declared by its `@source` tag
+ * (undefined when the type does not declare one)
+ */
+export function getEndpointSource(filePath: string, typeName: string): EndpointSource | undefined {
+  return findInterfaceMetadata(filePath, typeName)?.source;
+}
+
+/**
+ * Returns how the list endpoint of a type is paginated: its `@pagination` tag,
+ * else the configured default, else offset
+ */
+export function resolvePaginationMode(
+  filePath: string | undefined,
+  typeName: string,
+  defaultMode?: PaginationMode
+): PaginationMode {
+  const declared = filePath
+    ? findInterfaceMetadata(filePath, typeName)?.pagination
+    : undefined;
+  return declared ?? defaultMode ?? 'offset';
+}
+
+/** Returns how the server generates the IDs of a type, as declared by its `@idStrategy` tag */
+export function resolveIdStrategy(filePath: string, typeName: string): IdStrategyDeclaration | undefined {
+  return findInterfaceMetadata(filePath, typeName)?.idStrategy;
+}
+
+/** Module-level cache for the type map, with the directory it was built from */
+let typeMapCache: { directory: string; typeMap: Map<string, string> } | null = null;
+
+/** Module-level cache of the tags of each file's exported types */
+const interfaceMetadataCache = new Map<string, InterfaceMetadata[]>();
+
+/**
+ * Clears the type map and tag caches so the next call to getTypeMap() rebuilds them.
  */
 export function invalidateTypeMap(): void {
   typeMapCache = null;
+  interfaceMetadataCache.clear();
+}
+
+/** Returns the tagged types of a file, parsing it once until the type map is invalidated */
+function getInterfaceMetadata(filePath: string): InterfaceMetadata[] {
+  let metadata = interfaceMetadataCache.get(filePath);
+  if (!metadata) {
+    metadata = extractInterfaceNames(filePath);
+    interfaceMetadataCache.set(filePath, metadata);
+  }
+  return metadata;
+}
+
+function findInterfaceMetadata(filePath: string, typeName: string): InterfaceMetadata | undefined {
+  return getInterfaceMetadata(filePath).find((metadata) => metadata.name === typeName);
+}
+
+/**
+ * Returns the type map of a directory, built once and kept until invalidateTypeMap()
+ * (called by the hot-reload watcher). The same Map instance is returned in between,
+ * so data derived from it can be cached per build.
+ */
+export function getTypeMap(directory: string): Map<string, string> {
+  if (!typeMapCache || typeMapCache.directory !== directory) {
+    typeMapCache = { directory, typeMap: buildTypeMap(directory) };
+  }
+  return typeMapCache.typeMap;
 }
 
 /**
  * Creates a mapping of all available types
- * Only includes interfaces marked with // @endpoint
+ * Only includes interfaces and type aliases marked with // @endpoint
  * Map<TypeName, FilePath>
  */
 export function buildTypeMap(directory: string): Map<string, string> {
@@ -122,7 +230,7 @@ export function buildTypeMap(directory: string): Map<string, string> {
   const files = findTypeScriptFiles(directory);
 
   for (const file of files) {
-    const interfaceMetadata = extractInterfaceNames(file);
+    const interfaceMetadata = getInterfaceMetadata(file);
 
     for (const metadata of interfaceMetadata) {
       // Only include interfaces marked with // @endpoint
@@ -147,42 +255,57 @@ export function findTypeForUrl(
   url: string,
   directory: string
 ): RouteTypeMapping | null {
-  if (!typeMapCache) {
-    typeMapCache = buildTypeMap(directory);
-  }
-  const typeMap = typeMapCache;
+  const typeMap = getTypeMap(directory);
   const segments = parseUrlSegments(url);
-  const kinds = segments.map(s => isIdSegment(s) ? 'id' : 'col');
+  // /orders/_aggregate → the /orders collection, aggregated
+  const aggregate = segments.length > 1 && segments[segments.length - 1] === AGGREGATE_SEGMENT;
+  if (aggregate) segments.pop();
+  const kinds = segments.map((segment, i) =>
+    isIdSegment(segment) || isPatternId(typeMap, segments[i - 1], segment) ? 'id' : 'col'
+  );
 
   // Reject URLs starting with an ID
   if (kinds.length > 0 && kinds[0] === 'id') return null;
 
-  const shape = kinds.join('-');
+  // Segments must alternate collection / ID, starting with a collection, at any depth:
+  // /col, /col/{id}, /col/{id}/col, /col/{id}/col/{id}, ...
+  // Everything else (col-col, col-id-id, etc.) → 404
+  const alternates = kinds.every((kind, i) => kind === (i % 2 === 0 ? 'col' : 'id'));
+  if (kinds.length === 0 || !alternates) return null;
 
-  // Pattern: /collection → array (plural collection names only)
-  if (shape === 'col') {
-    const { typeName, isArray } = urlSegmentToTypeName(segments[0]!);
-    if (!isArray) return null; // reject singular collection names (e.g. /user)
-    const filePath = typeMap.get(typeName);
-    return filePath ? { typeName, isArray: true, filePath } : null;
-  }
+  // The leaf collection decides the type: a trailing collection → array,
+  // a trailing ID → single item of that collection
+  const isArray = kinds[kinds.length - 1] === 'col';
+  if (aggregate && !isArray) return null;
+  const leafIndex = isArray ? segments.length - 1 : segments.length - 2;
+  const { typeName, isArray: isPlural } = urlSegmentToTypeName(segments[leafIndex]!);
+  if (!isPlural) return null; // reject singular collection names (e.g. /user, /users/1/post/2)
 
-  // Pattern: /collection/{id} → single (plural collection names only)
-  if (shape === 'col-id') {
-    const { typeName, isArray } = urlSegmentToTypeName(segments[0]!);
-    if (!isArray) return null; // reject singular collection names (e.g. /user/123)
-    const filePath = typeMap.get(typeName);
-    return filePath ? { typeName, isArray: false, filePath } : null;
-  }
+  const filePath = typeMap.get(typeName);
+  if (!filePath) return null;
+
+  const id = isArray ? undefined : segments[segments.length - 1];
 
-  // Pattern: /collection/{id}/sub-collection → array (parent-scoped)
-  if (shape === 'col-id-col') {
-    const { typeName, isArray } = urlSegmentToTypeName(segments[2]!);
-    if (!isArray) return null; // reject singular sub-collection names
-    const filePath = typeMap.get(typeName);
-    return filePath ? { typeName, isArray: true, filePath } : null;
+  // Nested URL: the collection/ID pair right before the leaf is the parent
+  if (leafIndex >= 2) {
+    const parent: ParentResource = {
+      typeName: urlSegmentToTypeName(segments[leafIndex - 2]!).typeName,
+      id: segments[leafIndex - 1]!,
+    };
+    return { typeName, isArray, filePath, parent, ...(id !== undefined && { id }), ...(aggregate && { aggregate }) };
   }
 
-  // Everything else (col-id-col-id, col-col, etc.) → 404
-  return null;
+  return { typeName, isArray, filePath, ...(id !== undefined && { id }), ...(aggregate && { aggregate }) };
+}
+
+/**
+ * Returns true when a segment following a collection is an ID of its type's
+ * `@idStrategy pattern` (e.g. `/orders/ORD-00042`), which isIdSegment does not recognise
+ */
+function isPatternId(typeMap: Map<string, string>, collection: string | undefined, segment: string): boolean {
+  if (collection === undefined || isIdSegment(collection)) return false;
+  const { typeName } = urlSegmentToTypeName(collection);
+  const filePath = typeMap.get(typeName);
+  const idStrategy = filePath ? resolveIdStrategy(filePath, typeName) : undefined;
+  return idStrategy !== undefined && matchesIdPattern(idStrategy, segment);
 }
@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * A property of a resolved type, after following `extends`, intersections,
+ * type aliases and utility types (Pick, Omit, Partial, ...)
+ */
+export interface ResolvedProperty {
+  /** Property name */
+  name: string;
+
+  /** Whether the property is optional in the resolved type (e.g. every field of `Partial<T>`) */
+  optional: boolean;
+
+  /** Property type as source text, without the `undefined` added by optionality */
+  typeText: string;
+
+  /**
+   * Resolved type, owned by the checker of the program rooted at the resolved file
+   * (includes the `undefined` added by optionality)
+   */
+  type: ts.Type;
+
+  /**
+   * Declared type node, only set when it describes the resolved type exactly
+   * (not set for generic parameters substituted by a type argument)
+   */
+  typeNode?: ts.TypeNode;
+
+  /** Original property declaration, holding the JSDoc tags (possibly inherited from a base type) */
+  declaration?: ts.PropertySignature;
+
+  /** Named project type the property holds (directly or as array items), possibly imported */
+  reference?: TypeReference;
+}
+
+/**
+ * A named, non-generic interface, type alias or enum declared in the project
+ * (default library and node_modules types excluded)
+ */
+export interface NamedType {
+  /** Declared name (e.g. "Address") */
+  typeName: string;
+
+  /** File declaring the type */
+  filePath: string;
+
+  /** `object` for interfaces and object type aliases, `enum` for enum declarations */
+  kind: 'object' | 'enum';
+}
+
+/**
+ * A named interface or type alias declared in the project, referenced by a property
+ */
+export interface TypeReference {
+  /** Name of the referenced type (e.g. "Address") */
+  typeName: string;
+
+  /** File declaring the referenced type */
+  filePath: string;
+
+  /** True when the property is an array of the referenced type (e.g. `addresses: Address[]`) */
+  isArray: boolean;
+}
+
+/** Named declarations that can describe an object type */
+type TypeDeclaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  lib: ['lib.es2020.d.ts'],
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  strict: true,
+  noEmit: true,
+  skipLibCheck: true,
+  types: [],
+};
+
+interface ProgramEntry {
+  program: ts.Program;
+
+  /** Project files of the program (root and everything it imports), to invalidate dependents */
+  sourceFiles: ts.SourceFile[];
+
+  properties: Map<string, ResolvedProperty[]>;
+}
+
+/** One program per type file, dropped when the file or one of its imports changes */
+const programCache = new Map<string, ProgramEntry>();
+
+/** Compiler options per directory, merged with the module resolution settings of the nearest tsconfig */
+const optionsCache = new Map<string, ts.CompilerOptions>();
+
+/** Parsed default-library files, shared by every program (they never change) */
+const libFileCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Returns the compiler options for files in `directory`: the fixed options above plus
+ * `baseUrl`, `paths` and `rootDirs` from the nearest tsconfig.json, so path aliases
+ * (e.g. `@models/address`) resolve the same way they do in the project
+ */
+function getCompilerOptions(directory: string): ts.CompilerOptions {
+  const cached = optionsCache.get(directory);
+  if (cached) return cached;
+
+  let options = COMPILER_OPTIONS;
+  const configPath = ts.findConfigFile(directory, ts.sys.fileExists);
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!error) {
+      const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+      const { baseUrl, paths, rootDirs } = parsed.options;
+      options = { ...COMPILER_OPTIONS, baseUrl, paths, rootDirs };
+    }
+  }
+
+  optionsCache.set(directory, options);
+  return options;
+}
+
+function createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+  const host = ts.createCompilerHost(options, true);
+  const getSourceFile = host.getSourceFile.bind(host);
+  const libDir = path.dirname(host.getDefaultLibFileName(options));
+
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (!fileName.startsWith(libDir)) {
+      return getSourceFile(fileName, languageVersion, onError, shouldCreate);
+    }
+    let sourceFile = libFileCache.get(fileName);
+    if (!sourceFile) {
+      sourceFile = getSourceFile(fileName, languageVersion, onError, shouldCreate);
+      if (sourceFile) libFileCache.set(fileName, sourceFile);
+    }
+    return sourceFile;
+  };
+  return host;
+}
+
+/**
+ * Returns the (cached) program whose root is `filePath`. Programs are kept until
+ * invalidateTypeResolver() drops them, which the hot-reload watcher does when a file changes.
+ */
+function getProgramEntry(filePath: string): ProgramEntry {
+  // Fails early (ENOENT) for missing files
+  fs.accessSync(filePath);
+
+  const cached = programCache.get(filePath);
+  if (cached) return cached;
+
+  const options = getCompilerOptions(path.dirname(filePath));
+  const program = ts.createProgram({
+    rootNames: [filePath],
+    options,
+    host: createCompilerHost(options),
+  });
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter((sourceFile) => !program.isSourceFileDefaultLibrary(sourceFile))
+    .filter((sourceFile) => !program.isSourceFileFromExternalLibrary(sourceFile));
+
+  const entry: ProgramEntry = { program, sourceFiles, properties: new Map() };
+  programCache.set(filePath, entry);
+  return entry;
+}
+
+/**
+ * Returns the project source files a type file depends on: the file itself and
+ * everything it imports, transitively (default library and node_modules excluded)
+ */
+export function getProgramSourceFiles(filePath: string): ts.SourceFile[] {
+  return getProgramEntry(filePath).sourceFiles;
+}
+
+/**
+ * Returns the cached type files whose programs include `filePath`
+ * (the file itself and every file importing it, directly or not)
+ */
+export function findDependentFiles(filePath: string): string[] {
+  const target = path.resolve(filePath);
+  const dependents: string[] = [];
+  programCache.forEach((entry, rootFile) => {
+    if (entry.sourceFiles.some((sourceFile) => path.resolve(sourceFile.fileName) === target)) {
+      dependents.push(rootFile);
+    }
+  });
+  return dependents;
+}
+
+/**
+ * Drops cached programs (all of them, or the ones depending on `filePath`)
+ */
+export function invalidateTypeResolver(filePath?: string): void {
+  if (filePath) {
+    for (const dependent of findDependentFiles(filePath)) {
+      programCache.delete(dependent);
+    }
+    programCache.delete(filePath);
+  } else {
+    programCache.clear();
+    optionsCache.clear();
+  }
+}
+
+/** Finds an interface or type alias declaration by name anywhere in a source file. */
+function findTypeDeclaration(sourceFile: ts.SourceFile, typeName: string): TypeDeclaration | undefined {
+  let found: TypeDeclaration | undefined;
+
+  function visit(node: ts.Node): void {
+    if (found) return;
+    if ((ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) && node.name.text === typeName) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return found;
+}
+
+/** Returns true when the file declares an interface or type alias with this name. */
+export function hasTypeDeclaration(filePath: string, typeName: string): boolean {
+  const { program } = getProgramEntry(filePath);
+  const sourceFile = program.getSourceFile(filePath);
+  return sourceFile !== undefined && findTypeDeclaration(sourceFile, typeName) !== undefined;
+}
+
+/**
+ * Resolves the properties of an interface or type alias with the type checker:
+ * inherited members, intersections and mapped utility types are flattened into one list.
+ * Throws when the type is not declared in the file.
+ */
+export function resolveTypeProperties(filePath: string, typeName: string): ResolvedProperty[] {
+  const entry = getProgramEntry(filePath);
+  const cached = entry.properties.get(typeName);
+  if (cached) return cached;
+
+  const sourceFile = entry.program.getSourceFile(filePath);
+  const declaration = sourceFile && findTypeDeclaration(sourceFile, typeName);
+  if (!sourceFile || !declaration) {
+    throw new Error(`Interface "${typeName}" not found in file ${filePath}`);
+  }
+
+  const checker = entry.program.getTypeChecker();
+  const type = checker.getTypeAtLocation(declaration.name);
+
+  const properties = checker
+    .getPropertiesOfType(type)
+    .map((symbol) => resolveProperty(entry.program, symbol, declaration));
+
+  // The checker lists own members before inherited ones; follow declaration order instead
+  // so base fields (e.g. `id`) come first. Members declared elsewhere go before local ones.
+  const orderOf = (property: ResolvedProperty): [number, number] => {
+    const node = property.declaration;
+    if (!node) return [2, 0];
+    return [node.getSourceFile() === sourceFile ? 1 : 0, node.getStart()];
+  };
+  properties.sort((a, b) => {
+    const [groupA, posA] = orderOf(a);
+    const [groupB, posB] = orderOf(b);
+    return groupA - groupB || posA - posB;
+  });
+  entry.properties.set(typeName, properties);
+  return properties;
+}
+
+/**
+ * Resolves the properties of a type obtained from the checker of `filePath`'s program
+ * (e.g. an inline object literal or a generic instantiation nested in a property)
+ */
+export function resolvePropertiesOfType(filePath: string, type: ts.Type): ResolvedProperty[] {
+  const { program } = getProgramEntry(filePath);
+  return program
+    .getTypeChecker()
+    .getPropertiesOfType(type)
+    .map((symbol) => resolveProperty(program, symbol, undefined));
+}
+
+/** Returns the type checker of the program rooted at `filePath`. */
+export function getTypeChecker(filePath: string): ts.TypeChecker {
+  return getProgramEntry(filePath).program.getTypeChecker();
+}
+
+/**
+ * Returns the named project type `type` refers to, if any. `type` must come from
+ * the checker of `filePath`'s program.
+ */
+export function findNamedType(filePath: string, type: ts.Type): NamedType | undefined {
+  return namedProjectType(getProgramEntry(filePath).program, type);
+}
+
+function resolveProperty(
+  program: ts.Program,
+  symbol: ts.Symbol,
+  owner: ts.Node | undefined
+): ResolvedProperty {
+  const checker = program.getTypeChecker();
+  const propType = checker.getTypeOfSymbol(symbol);
+  const optional = (symbol.flags & ts.SymbolFlags.Optional) !== 0;
+  const declaration = symbol.declarations?.find(ts.isPropertySignature);
+
+  // The declared node is only reusable when the checker did not substitute anything into it
+  const typeNode =
+    declaration?.type && describesType(propType, checker.getTypeFromTypeNode(declaration.type))
+      ? declaration.type
+      : undefined;
+
+  const typeText = typeNode
+    ? typeNode.getText(typeNode.getSourceFile())
+    : checker
+        .typeToString(propType, owner, ts.TypeFormatFlags.NoTruncation)
+        .replace(/\s*\|\s*undefined\b/g, '');
+
+  const reference = findReference(program, propType);
+
+  return { name: symbol.name, optional, typeText, type: propType, typeNode, declaration, reference };
+}
+
+/**
+ * Finds the named project interface or type alias held by a property type, looking
+ * through `null` / `undefined` and array items. Generic instantiations, enums and
+ * library types (Date, Record, ...) are not references.
+ */
+function findReference(program: ts.Program, propType: ts.Type): TypeReference | undefined {
+  const checker = program.getTypeChecker();
+  let type = propType;
+  if (type.isUnion()) {
+    const members = type.types.filter((t) => (t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)) === 0);
+    if (members.length !== 1) return undefined;
+    type = members[0]!;
+  }
+
+  const isArray = checker.isArrayType(type);
+  if (isArray) {
+    const [itemType] = checker.getTypeArguments(type as ts.TypeReference);
+    if (!itemType) return undefined;
+    type = itemType;
+  }
+
+  const named = namedProjectType(program, type);
+  if (!named || named.kind !== 'object') return undefined;
+
+  return { typeName: named.typeName, filePath: named.filePath, isArray };
+}
+
+function namedProjectType(program: ts.Program, type: ts.Type): NamedType | undefined {
+  const symbol = type.aliasSymbol ?? type.getSymbol();
+  const declaration = symbol?.declarations?.[0];
+  if (!symbol || !declaration) return undefined;
+
+  const sourceFile = declaration.getSourceFile();
+  if (program.isSourceFileDefaultLibrary(sourceFile) || program.isSourceFileFromExternalLibrary(sourceFile)) {
+    return undefined;
+  }
+
+  const named = { typeName: symbol.name, filePath: sourceFile.fileName };
+  if (ts.isEnumDeclaration(declaration) && type.flags & ts.TypeFlags.EnumLike) {
+    return { ...named, kind: 'enum' };
+  }
+
+  const isObjectType = (type.flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) !== 0;
+  const isTypeDeclaration = ts.isInterfaceDeclaration(declaration) || ts.isTypeAliasDeclaration(declaration);
+  if (isObjectType && isTypeDeclaration && !declaration.typeParameters?.length) {
+    return { ...named, kind: 'object' };
+  }
+  return undefined;
+}
+
+/** True when `resolved` is `declared`, possibly widened with `undefined` by optionality. */
+function describesType(resolved: ts.Type, declared: ts.Type): boolean {
+  if (resolved === declared) return true;
+  if (!resolved.isUnion()) return false;
+
+  const members = resolved.types.filter((t) => (t.flags & ts.TypeFlags.Undefined) === 0);
+  const declaredMembers = declared.isUnion() ? declared.types : [declared];
+  return members.length === declaredMembers.length && members.every((m) => declaredMembers.includes(m));
+}
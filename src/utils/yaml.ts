@@ -0,0 +1,69 @@
+/**
+ * Minimal YAML serializer for JSON-compatible values (block style).
+ * Strings that could be read back as another type are written as double-quoted
+ * JSON strings, which YAML accepts as-is.
+ */
+
+/** Plain scalars YAML would not read back as strings */
+const RESERVED_SCALARS = /^(true|false|yes|no|on|off|null|~|y|n)$/i;
+
+/**
+ * Serializes a JSON-compatible value to a YAML document
+ */
+export function toYaml(value: unknown): string {
+  return `${renderLines(value, 0).join('\n')}\n`;
+}
+
+function renderLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${pad}[]`];
+    return value.flatMap((item) => {
+      if (!isBlock(item)) return [`${pad}- ${renderScalar(item)}`];
+      // Nested block: its first line shares the line of the dash
+      const lines = renderLines(item, indent + 2);
+      return [`${pad}- ${lines[0]!.trimStart()}`, ...lines.slice(1)];
+    });
+  }
+
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) return [`${pad}{}`];
+    return entries.flatMap(([key, entry]) =>
+      isBlock(entry)
+        ? [`${pad}${renderString(key)}:`, ...renderLines(entry, indent + 2)]
+        : [`${pad}${renderString(key)}: ${renderScalar(entry)}`]
+    );
+  }
+
+  return [`${pad}${renderScalar(value)}`];
+}
+
+/** Non-empty arrays and objects are written as indented blocks */
+function isBlock(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return isObject(value) && Object.values(value).some((entry) => entry !== undefined);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function renderScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'string') return renderString(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return '[]';
+  if (isObject(value)) return '{}';
+  return renderString(String(value));
+}
+
+function renderString(value: string): string {
+  const isPlain =
+    /^[A-Za-z_/][\w ./-]*$/.test(value) &&
+    !value.endsWith(' ') &&
+    !RESERVED_SCALARS.test(value);
+  return isPlain ? value : JSON.stringify(value);
+}
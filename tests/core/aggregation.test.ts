@@ -0,0 +1,85 @@
+import { aggregate, parseAggregateParams, validateAggregateParams } from '../../src/core/aggregation';
+
+const orders: Record<string, unknown>[] = [
+  { id: 1, status: 'paid', total: 100, tags: ['gift', 'rush'], createdAt: '2024-01-03' },
+  { id: 2, status: 'paid', total: 50, tags: ['gift'], createdAt: '2024-01-01' },
+  { id: 3, status: 'pending', total: 30, tags: [], createdAt: '2024-01-02' },
+  { id: 4, status: 'cancelled', total: 20, createdAt: '2024-01-05' },
+];
+
+describe('aggregation', () => {
+  describe('parseAggregateParams', () => {
+    it('separates the aggregation params from the filters', () => {
+      const { params, filterQuery } = parseAggregateParams({
+        groupBy: 'status',
+        sum: 'total, total',
+        max: ['total', 'createdAt'],
+        status_ne: 'cancelled',
+      });
+      expect(params).toEqual({ groupBy: ['status'], facets: [], metrics: { sum: ['total'], max: ['total', 'createdAt'] } });
+      expect(filterQuery).toEqual({ status_ne: 'cancelled' });
+    });
+  });
+
+  describe('validateAggregateParams', () => {
+    const parse = (query: Record<string, string>) => parseAggregateParams(query).params;
+
+    it('accepts known fields, through arrays too', () => {
+      expect(validateAggregateParams(parse({ groupBy: 'status', facets: 'tags', avg: 'total', min: 'createdAt' }), orders)).toBeNull();
+    });
+
+    it('rejects unknown fields and non-numeric sums', () => {
+      expect(validateAggregateParams(parse({ groupBy: 'country' }), orders)).toMatch(/Cannot aggregate unknown field "country"/);
+      expect(validateAggregateParams(parse({ sum: 'status' }), orders)).toBe('"sum" requires a numeric field, "status" holds no numbers');
+    });
+  });
+
+  describe('aggregate', () => {
+    it('computes the count and metrics of all items', () => {
+      const { params } = parseAggregateParams({ sum: 'total', avg: 'total', min: 'createdAt', max: 'total' });
+      expect(aggregate(orders, params)).toEqual({
+        count: 4,
+        sum: { total: 200 },
+        avg: { total: 50 },
+        min: { createdAt: '2024-01-01' },
+        max: { total: 100 },
+      });
+      expect(aggregate([], params)).toEqual({ count: 0, sum: { total: 0 }, avg: { total: null }, min: { createdAt: null }, max: { total: null } });
+    });
+
+    it('groups items by value, largest groups first', () => {
+      const { params } = parseAggregateParams({ groupBy: 'status', sum: 'total' });
+      expect(aggregate(orders, params).groups).toEqual([
+        { key: { status: 'paid' }, count: 2, sum: { total: 150 } },
+        { key: { status: 'cancelled' }, count: 1, sum: { total: 20 } },
+        { key: { status: 'pending' }, count: 1, sum: { total: 30 } },
+      ]);
+    });
+
+    it('counts array items in the group of each element, and missing values as null', () => {
+      const { params } = parseAggregateParams({ groupBy: 'status,tags' });
+      expect(aggregate(orders, params).groups?.map(({ key, count }) => [key, count])).toEqual([
+        [{ status: 'paid', tags: 'gift' }, 2],
+        [{ status: 'cancelled', tags: null }, 1],
+        [{ status: 'paid', tags: 'rush' }, 1],
+        [{ status: 'pending', tags: null }, 1],
+      ]);
+    });
+
+    it('counts the values of facets', () => {
+      const { params } = parseAggregateParams({ facets: 'tags,status' });
+      expect(aggregate(orders, params).facets).toEqual({
+        tags: [
+          { value: 'gift', count: 2 },
+          { value: null, count: 2 },
+          { value: 'rush', count: 1 },
+        ],
+        status: [
+          { value: 'paid', count: 2 },
+          { value: 'cancelled', count: 1 },
+          { value: 'pending', count: 1 },
+        ],
+      });
+    });
+  });
+});
@@ -271,6 +271,24 @@ describe('MockDataStore', () => {
     });
   });
 
+  describe('getVersion', () => {
+    it('counts the writes and deletes of an item, from 0', () => {
+      expect(store.getVersion('User', '/path/user.ts', '1')).toBe(0);
+      store.setById('User', '/path/user.ts', '1', { id: 1 });
+      store.setById('User', '/path/user.ts', '1', { id: 1, name: 'Alice' });
+      expect(store.getVersion('User', '/path/user.ts', '1')).toBe(2);
+      store.markDeleted('User', '/path/user.ts', '1');
+      expect(store.getVersion('User', '/path/user.ts', '1')).toBe(3);
+      expect(store.getVersion('User', '/path/user.ts', '2')).toBe(0);
+    });
+
+    it('is reset with the type', () => {
+      store.setById('User', '/path/user.ts', '1', { id: 1 });
+      store.invalidateType('User', '/path/user.ts');
+      expect(store.getVersion('User', '/path/user.ts', '1')).toBe(0);
+    });
+  });
+
   describe('invalidateType', () => {
     it('removes pool for the given type', () => {
       store.setPool('User', '/path/user.ts', [{ id: 1, name: 'Alice' }]);
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  findContractIssues,
+  formatVerifyReport,
+  renderJUnitReport,
+  verifyContracts,
+} from '../../src/core/contractVerifier';
+import { saveRecording } from '../../src/utils/recordings';
+
+describe('contractVerifier', () => {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'contract-verifier-'));
+  const typesDir = path.join(workDir, 'types');
+  const typesFile = path.join(typesDir, 'models.ts');
+
+  // Stub of the real API: users match the contract, products drift from it
+  const api = express();
+  api.get('/api/users', (_req, res) => {
+    res.json({ data: [{ id: 1, name: 'Ada', email: 'ada@example.com', role: 'admin' }], total: 1 });
+  });
+  api.get('/api/users/1', (_req, res) => {
+    res.json({ id: 1, name: 'Ada', email: 'ada@example.com', role: 'admin' });
+  });
+  api.get('/api/products', (_req, res) => {
+    res.json([{ id: 7, title: 'Lamp', price: -3, sku: 'L-1' }]);
+  });
+  api.get('/api/products/7', (_req, res) => {
+    res.status(404).json({ error: 'Not Found' });
+  });
+
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    fs.mkdirSync(typesDir);
+    fs.writeFileSync(
+      typesFile,
+      `// @endpoint
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: 'admin' | 'member';
+}
+
+// @endpoint
+export interface Product {
+  id: number;
+  title: string;
+  /** @min 0 */
+  price: number;
+  stock: number;
+}`
+    );
+    server = api.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    server.close(() => done());
+  });
+
+  describe('findContractIssues', () => {
+    it('reports missing, unknown, wrongly typed and constraint-violating fields', () => {
+      const issues = findContractIssues(typesFile, 'Product', { id: '7', title: 'Lamp', price: -3, sku: 'L-1' }, false);
+
+      expect(issues).toEqual([
+        { kind: 'unknown', path: 'sku', message: 'Unknown field "sku" is not declared on Product' },
+        { kind: 'type', path: 'id', message: 'Expected number, got string' },
+        { kind: 'constraint', path: 'price', message: 'Value -3 violates @min 0' },
+        { kind: 'missing', path: 'stock', message: 'Missing required field "stock"' },
+      ]);
+    });
+
+    it('checks each item of a collection, bare or in an envelope', () => {
+      const user = { id: 1, name: 'Ada', email: 'ada@example.com', role: 'admin' };
+
+      expect(findContractIssues(typesFile, 'User', [user, { ...user, role: 'owner' }], true)).toEqual([
+        { kind: 'type', path: '[1].role', message: `Expected 'admin' | 'member', got string` },
+      ]);
+      expect(findContractIssues(typesFile, 'User', { items: [user] }, true)).toEqual([]);
+      expect(findContractIssues(typesFile, 'User', { total: 0 }, true)[0]!.kind).toBe('shape');
+    });
+  });
+
+  describe('verifyContracts', () => {
+    it('checks the list and the first item of every endpoint', async () => {
+      const checks = await verifyContracts({ typesDir, against: baseUrl, basePath: '/api' });
+
+      expect(checks.map((check) => [check.typeName, check.path, check.outcome])).toEqual([
+        ['User', '/api/users', 'passed'],
+        ['User', '/api/users/1', 'passed'],
+        ['Product', '/api/products', 'failed'],
+        ['Product', '/api/products/7', 'failed'],
+      ]);
+      expect(checks[2]!.issues.map((issue) => `${issue.kind} ${issue.path}`)).toEqual([
+        'unknown [0].sku',
+        'constraint [0].price',
+        'missing [0].stock',
+      ]);
+      expect(checks[3]!.issues).toEqual([
+        { kind: 'status', path: 'body', message: 'Expected a 2xx response, got 404' },
+      ]);
+    });
+
+    it('reports unreachable APIs as errors', async () => {
+      const checks = await verifyContracts({ typesDir, against: 'http://127.0.0.1:1', timeout: 2000 });
+
+      expect(checks.filter((check) => check.outcome === 'error').map((check) => check.path)).toEqual([
+        '/users',
+        '/products',
+      ]);
+      expect(checks.filter((check) => check.outcome === 'skipped')).toHaveLength(2);
+    });
+
+    it('verifies proxy-mode recordings, skipping requests never recorded', async () => {
+      const recordingsDir = path.join(workDir, 'recordings');
+      saveRecording(recordingsDir, {
+        request: { method: 'GET', url: '/users' },
+        response: {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+          encoding: 'json',
+          body: [{ id: 2, name: 'Bob', email: 'bob@example.com', role: 'member', extra: true }],
+        },
+      });
+
+      const checks = await verifyContracts({ typesDir, against: recordingsDir });
+
+      expect(checks.map((check) => [check.path, check.outcome])).toEqual([
+        ['/users', 'failed'],
+        ['/users/2', 'skipped'],
+        ['/products', 'skipped'],
+        ['/products/{id}', 'skipped'],
+      ]);
+    });
+  });
+
+  describe('reports', () => {
+    const checksPromise = () => verifyContracts({ typesDir, against: baseUrl, basePath: '/api' });
+
+    it('formats a human-readable summary', async () => {
+      const report = formatVerifyReport(await checksPromise());
+
+      expect(report).toContain('User\n  ✓ GET /api/users\n  ✓ GET /api/users/1\n');
+      expect(report).toContain('  ✗ GET /api/products\n      unknown    [0].sku: Unknown field "sku" is not declared on Product\n');
+      expect(report).toContain('4 check(s): 2 passed, 2 failed, 0 error(s), 0 skipped');
+    });
+
+    it('renders a JUnit XML report with one suite per type', async () => {
+      const xml = renderJUnitReport(await checksPromise());
+
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<testsuites name="ts-mock-proxy verify" tests="4" failures="2" errors="0" skipped="0"/);
+      expect(xml).toMatch(/<testsuite name="User" tests="2" failures="0"/);
+      expect(xml).toMatch(/<testcase classname="User" name="GET \/api\/users" time="[\d.]+"\/>/);
+      expect(xml).toContain(
+        '<failure message="1 contract issue(s)" type="ContractDrift">[status] body: Expected a 2xx response, got 404</failure>'
+      );
+      expect(xml).toContain('[missing] [0].stock: Missing required field &quot;stock&quot;');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  ENVELOPE_PRESETS,
+  buildPageLinks,
+  envelopeSchema,
+  renderEnvelope,
+  resolveEnvelope,
+  validateEnvelopeTemplate,
+  PageLinks,
+} from '../../src/core/envelope';
+import { CursorPaginationMeta, PaginationMeta } from '../../src/core/queryProcessor';
+
+const BASE_URL = 'http://localhost:8080/api/users';
+const data = [{ id: 1 }, { id: 2 }];
+const offsetMeta: PaginationMeta = { total: 45, page: 2, pageSize: 20, totalPages: 3 };
+const cursorMeta: CursorPaginationMeta = { total: 45, limit: 20, nextCursor: 'abc', prevCursor: null };
+
+describe('envelope', () => {
+  describe('buildPageLinks', () => {
+    it('replaces the page param and keeps the other params', () => {
+      const links = buildPageLinks(BASE_URL, { page: '2', role: 'admin' }, offsetMeta);
+      expect(links).toEqual({
+        self: `${BASE_URL}?role=admin&page=2`,
+        first: `${BASE_URL}?role=admin&page=1`,
+        prev: `${BASE_URL}?role=admin&page=1`,
+        next: `${BASE_URL}?role=admin&page=3`,
+        last: `${BASE_URL}?role=admin&page=3`,
+      });
+    });
+
+    it('links cursor pages, without a last page', () => {
+      const links = buildPageLinks(BASE_URL, { cursor: 'xyz', limit: '20' }, cursorMeta);
+      expect(links).toEqual({
+        self: `${BASE_URL}?cursor=xyz&limit=20`,
+        first: `${BASE_URL}?limit=20`,
+        prev: null,
+        next: `${BASE_URL}?limit=20&cursor=abc`,
+        last: null,
+      });
+    });
+  });
+
+  describe('renderEnvelope', () => {
+    const links = buildPageLinks(BASE_URL, { page: '2' }, offsetMeta);
+
+    it('keeps { data, meta } by default', () => {
+      const rendered = renderEnvelope(resolveEnvelope(undefined), { data, meta: offsetMeta }, links);
+      expect(rendered).toEqual({ body: { data, meta: offsetMeta }, headers: {} });
+    });
+
+    it('renders the built-in presets', () => {
+      const page = { data, meta: offsetMeta };
+      expect(renderEnvelope(ENVELOPE_PRESETS.items, page, links).body).toEqual({ items: data, count: 45 });
+      expect(renderEnvelope(ENVELOPE_PRESETS.jsonapi, page, links).body).toEqual({
+        data,
+        meta: { total: 45 },
+        links,
+      });
+
+      const bare = renderEnvelope(ENVELOPE_PRESETS.bare, page, links);
+      expect(bare.body).toEqual(data);
+      expect(bare.headers).toEqual({
+        'X-Total-Count': '45',
+        Link:
+          `<${BASE_URL}?page=1>; rel="first", <${BASE_URL}?page=1>; rel="prev", ` +
+          `<${BASE_URL}?page=3>; rel="next", <${BASE_URL}?page=3>; rel="last"`,
+      });
+    });
+
+    it('fills nested and dotted placeholders of custom templates, dropping unavailable ones', () => {
+      const cursorLinks: PageLinks = buildPageLinks(BASE_URL, {}, cursorMeta);
+      const rendered = renderEnvelope(
+        {
+          body: { results: '$data', paging: { next: '$links.next', cursor: '$meta.nextCursor', page: '$page' }, kind: 'list' },
+          headers: { 'X-Next-Cursor': '$nextCursor', 'X-Prev-Cursor': '$prevCursor' },
+        },
+        { data, meta: cursorMeta },
+        cursorLinks
+      );
+      expect(rendered.body).toEqual({
+        results: data,
+        paging: { next: `${BASE_URL}?cursor=abc`, cursor: 'abc' },
+        kind: 'list',
+      });
+      expect(rendered.headers).toEqual({ 'X-Next-Cursor': 'abc' });
+    });
+  });
+
+  describe('validateEnvelopeTemplate', () => {
+    it('accepts the presets and valid templates', () => {
+      for (const template of Object.values(ENVELOPE_PRESETS)) {
+        expect(validateEnvelopeTemplate(template)).toBeNull();
+      }
+    });
+
+    it('reports malformed templates', () => {
+      expect(validateEnvelopeTemplate({ items: '$data' })).toMatch(/"body"/);
+      expect(validateEnvelopeTemplate({ body: { items: '$data' }, headers: { 'X-Total': 3 } })).toMatch(/"headers"/);
+      expect(validateEnvelopeTemplate({ body: { items: '$data', n: '$count' } })).toMatch(/Unknown placeholder "\$count"/);
+      expect(validateEnvelopeTemplate({ body: { count: '$total' } })).toMatch(/\$data/);
+    });
+  });
+
+  describe('envelopeSchema', () => {
+    it('describes the body and headers of a template', () => {
+      const schema = envelopeSchema(ENVELOPE_PRESETS.bare, 'User', 'offset');
+      expect(schema.body).toEqual({ type: 'array', items: { $ref: '#/components/schemas/User' } });
+      expect(schema.headers).toEqual({ 'X-Total-Count': { schema: { type: 'integer' } }, Link: { schema: { type: 'string' } } });
+    });
+
+    it('omits the placeholders of the other pagination mode', () => {
+      const template = { body: { items: '$data', meta: '$meta', page: '$page', next: '$nextCursor', kind: 'list' } };
+      expect(envelopeSchema(template, 'User', 'cursor').body).toEqual({
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+          meta: { $ref: '#/components/schemas/CursorPaginationMeta' },
+          next: { type: ['string', 'null'] },
+          kind: { type: 'string', enum: ['list'] },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaBuilder, flattenSchemaFields } from '../../src/core/openapiSchema';
+
+describe('openapiSchema', () => {
+  const testDir = path.join(__dirname, 'test-files-openapi');
+  const testFile = path.join(testDir, 'models.ts');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      testFile,
+      `export enum Role {
+  Admin = 'admin',
+  Member = 'member',
+}
+
+export enum Priority {
+  Low = 1,
+  High = 2,
+}
+
+export interface Address {
+  city: string;
+  zip?: string;
+}
+
+export interface Category {
+  name: string;
+  parent?: Category;
+}
+
+export interface Product {
+  id: number;
+  /**
+   * @minLength 2
+   * @maxLength 50
+   */
+  name: string;
+  /** @pattern ^[A-Z]{3}-\\d+$ */
+  sku: string;
+  /**
+   * @min 0
+   * @max 10000
+   */
+  price: number;
+  status: 'draft' | 'published';
+  rating: 1 | 2 | 3;
+  flag: true;
+  active: boolean;
+  role: Role;
+  adminOnly: Role.Admin;
+  priority?: Priority | null;
+  nickname: string | null;
+  value: string | number;
+  address: Address;
+  category?: Category | null;
+  tags: string[];
+  dimensions: { width: number; height?: number };
+  point: [number, number];
+  metadata: Record<string, string>;
+  extra: unknown;
+  createdAt: Date;
+}`
+    );
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const build = () => {
+    const builder = new SchemaBuilder();
+    const schema = builder.objectSchema(testFile, 'Product');
+    return { schema, properties: schema.properties!, components: builder.components };
+  };
+
+  it('derives the required array from optional markers', () => {
+    const { schema } = build();
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(expect.arrayContaining(['id', 'name', 'status', 'address']));
+    expect(schema.required).not.toContain('priority');
+    expect(schema.required).not.toContain('category');
+  });
+
+  it('maps primitives, dates and unknown', () => {
+    const { properties } = build();
+    expect(properties['id']).toEqual({ type: 'number' });
+    expect(properties['active']).toEqual({ type: 'boolean' });
+    expect(properties['createdAt']).toEqual({ type: 'string', format: 'date-time' });
+    expect(properties['extra']).toEqual({});
+  });
+
+  it('maps literals and literal unions to enums', () => {
+    const { properties } = build();
+    expect(properties['status']).toEqual({ type: 'string', enum: ['draft', 'published'] });
+    expect(properties['rating']).toEqual({ type: 'number', enum: [1, 2, 3] });
+    expect(properties['flag']).toEqual({ type: 'boolean', enum: [true] });
+  });
+
+  it('references TS enums as components', () => {
+    const { properties, components } = build();
+    expect(properties['role']).toEqual({ $ref: '#/components/schemas/Role' });
+    expect(components['Role']).toEqual({ type: 'string', enum: ['admin', 'member'] });
+    expect(properties['adminOnly']).toEqual({ type: 'string', enum: ['admin'] });
+    expect(properties['priority']).toEqual({
+      oneOf: [{ $ref: '#/components/schemas/Priority' }, { type: 'null' }],
+    });
+    expect(components['Priority']).toEqual({ type: 'number', enum: [1, 2] });
+  });
+
+  it('maps nullable fields and other unions', () => {
+    const { properties } = build();
+    expect(properties['nickname']).toEqual({ type: ['string', 'null'] });
+    expect(properties['value']).toEqual({ oneOf: [{ type: 'string' }, { type: 'number' }] });
+  });
+
+  it('references named interfaces, including recursive ones', () => {
+    const { properties, components } = build();
+    expect(properties['address']).toEqual({ $ref: '#/components/schemas/Address' });
+    expect(components['Address']).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string' }, zip: { type: 'string' } },
+      required: ['city'],
+    });
+    expect(properties['category']).toEqual({
+      oneOf: [{ $ref: '#/components/schemas/Category' }, { type: 'null' }],
+    });
+    expect(components['Category']!.properties!['parent']).toEqual({
+      $ref: '#/components/schemas/Category',
+    });
+  });
+
+  it('maps arrays, tuples, records and nested objects', () => {
+    const { properties } = build();
+    expect(properties['tags']).toEqual({ type: 'array', items: { type: 'string' } });
+    expect(properties['point']).toEqual({
+      type: 'array',
+      prefixItems: [{ type: 'number' }, { type: 'number' }],
+      minItems: 2,
+      maxItems: 2,
+    });
+    expect(properties['metadata']).toEqual({ type: 'object', additionalProperties: { type: 'string' } });
+    expect(properties['dimensions']).toEqual({
+      type: 'object',
+      properties: { width: { type: 'number' }, height: { type: 'number' } },
+      required: ['width'],
+    });
+  });
+
+  it('flattens nested fields into dot paths, marking array values', () => {
+    const { schema, components } = build();
+    const fields = flattenSchemaFields(schema, components);
+    const field = (fieldPath: string) => fields.find((candidate) => candidate.path === fieldPath);
+
+    expect(field('address.city')).toEqual({ path: 'address.city', schema: { type: 'string' }, inArray: false });
+    expect(field('dimensions.height')?.schema).toEqual({ type: 'number' });
+    expect(field('tags')).toEqual({ path: 'tags', schema: { type: 'string' }, inArray: true });
+    expect(field('role')?.schema).toEqual(components['Role']);
+    // Recursive types are expanded once
+    expect(field('category.parent')).toBeDefined();
+    expect(field('category.parent.name')).toBeUndefined();
+  });
+
+  it('maps JSDoc constraints to JSON Schema keywords', () => {
+    const { properties } = build();
+    expect(properties['name']).toEqual({ type: 'string', minLength: 2, maxLength: 50 });
+    expect(properties['sku']).toEqual({ type: 'string', pattern: '^[A-Z]{3}-\\d+$' });
+    expect(properties['price']).toEqual({ type: 'number', minimum: 0, maximum: 10000 });
+  });
+});
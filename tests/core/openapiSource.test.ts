@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  generateTypesFromOpenAPI,
+  loadOpenAPIDocument,
+  OpenAPIDocument,
+  writeOpenAPITypes,
+} from '../../src/core/openapiSource';
+import { buildTypeMap } from '../../src/utils/typeMapping';
+import { resolveTypeProperties } from '../../src/utils/typeResolver';
+
+describe('openapiSource', () => {
+  const testDir = path.join(__dirname, 'test-files-openapi-source');
+
+  const document: OpenAPIDocument = {
+    openapi: '3.0.3',
+    paths: {
+      '/api/v1/pets': {
+        get: {
+          responses: {
+            '200': {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      items: { type: 'array', items: { $ref: '#/components/schemas/Pet' } },
+                      total: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/pets/{petId}': {
+        get: { responses: { '200': { $ref: '#/components/responses/PetResponse' } } },
+      },
+      '/owners': {
+        get: {
+          responses: {
+            '200': {
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/Person' } },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/tags': {
+        post: {
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['id', 'label'],
+                  properties: { id: { type: 'integer' }, label: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+      },
+      '/status': { get: { responses: {} } },
+    },
+    components: {
+      responses: {
+        PetResponse: {
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } },
+        },
+      },
+      schemas: {
+        Status: { type: 'string', enum: ['available', 'sold'] },
+        Pet: {
+          type: 'object',
+          description: 'A pet for sale',
+          required: ['id', 'name', 'status'],
+          properties: {
+            id: { type: 'integer', minimum: 1 },
+            name: { type: 'string', minLength: 2, maxLength: 30 },
+            status: { $ref: '#/components/schemas/Status' },
+            ownerId: { type: 'integer', nullable: true },
+            contact: { type: 'string', format: 'email' },
+            tags: { type: 'array', items: { type: 'string' } },
+            weight: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+            meta: { type: 'object', additionalProperties: { type: 'string' } },
+            nickname: { type: ['string', 'null'] },
+          },
+        },
+        Person: {
+          type: 'object',
+          required: ['id', 'name'],
+          properties: { id: { type: 'integer' }, name: { type: 'string' } },
+        },
+        Order: {
+          allOf: [
+            { $ref: '#/components/schemas/Person' },
+            {
+              type: 'object',
+              required: ['lines'],
+              properties: {
+                lines: {
+                  type: 'array',
+                  items: { type: 'object', properties: { sku: { type: 'string' } } },
+                },
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('declares component schemas with optional markers and JSDoc constraints', () => {
+    const source = generateTypesFromOpenAPI(document);
+
+    expect(source).toContain('export type Status = "available" | "sold";');
+    expect(source).toContain(`// @endpoint
+/** A pet for sale */
+export interface Pet {
+  id: number;
+  /**
+   * @minLength 2
+   * @maxLength 30
+   */
+  name: string;
+  status: Status;
+  ownerId?: number | null;
+  /** @mockType {internet.email} */
+  contact?: string;
+  tags?: string[];
+  weight?: number | string;
+  meta?: object;
+  nickname?: string | null;
+}`);
+  });
+
+  it('marks collection item types as endpoints, named after the collection', () => {
+    const source = generateTypesFromOpenAPI(document);
+
+    // Item type with another name → endpoint alias; inline POST body → endpoint interface
+    expect(source).toContain('// @endpoint\nexport type Owner = Person;');
+    expect(source).toMatch(/\/\/ @endpoint\nexport interface Tag \{\n {2}id: number;\n {2}label: string;\n\}/);
+    expect(source).not.toContain('// @endpoint\nexport interface Person');
+    expect(source).not.toContain('Status = "available" | "sold";\n// @endpoint');
+  });
+
+  it('merges allOf and hoists nested objects into named interfaces', () => {
+    const source = generateTypesFromOpenAPI(document);
+
+    expect(source).toContain('export interface OrderLine {\n  sku?: string;\n}');
+    expect(source).toContain('export interface Order {\n  id: number;\n  name: string;\n  lines: OrderLine[];\n}');
+  });
+
+  it('writes types the server maps like hand-written ones', () => {
+    const specPath = path.join(testDir, 'petstore.yaml');
+    fs.writeFileSync(
+      specPath,
+      `openapi: 3.1.0
+paths:
+  /books:
+    get:
+      responses:
+        '200':
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  type: object
+                  required: [id, title]
+                  properties:
+                    id: { type: integer }
+                    title: { type: string }
+`
+    );
+
+    const typesDir = writeOpenAPITypes(specPath, path.join(testDir, 'types'));
+    const typeMap = buildTypeMap(typesDir);
+
+    expect(Array.from(typeMap.keys())).toEqual(['Book']);
+    expect(resolveTypeProperties(typeMap.get('Book')!, 'Book').map((p) => p.name)).toEqual(['id', 'title']);
+  });
+
+  it('rejects files that are not OpenAPI 3.x documents', () => {
+    const swaggerPath = path.join(testDir, 'swagger.json');
+    fs.writeFileSync(swaggerPath, JSON.stringify({ swagger: '2.0', paths: {} }));
+
+    expect(() => loadOpenAPIDocument(swaggerPath)).toThrow(/Not an OpenAPI 3.x document/);
+  });
+});
@@ -149,6 +149,163 @@ export interface Product {
     });
   });
 
+  describe('generateMockFromInterface with derived types', () => {
+    const derivedFile = path.join(testDir, 'derived-types.ts');
+
+    beforeAll(() => {
+      fs.writeFileSync(
+        derivedFile,
+        `export interface Entity {
+  id: number;
+  /** @min 1 @max 5 */
+  rank: number;
+}
+
+export interface Member extends Entity {
+  name: string;
+  email: string;
+}
+
+export type Team = {
+  title: string;
+};
+
+export type Captain = Member & { armband: boolean };
+export type MemberCard = Pick<Member, 'id' | 'name'>;
+export type MemberDraft = Omit<Member, 'id'>;`
+      );
+    });
+
+    it('should include inherited members', () => {
+      const mock = generateMockFromInterface(derivedFile, 'Member');
+      expect(Object.keys(mock)).toEqual(['id', 'rank', 'name', 'email']);
+    });
+
+    it('should mock object type aliases', () => {
+      const mock = generateMockFromInterface(derivedFile, 'Team');
+      expect(typeof mock.title).toBe('string');
+    });
+
+    it('should mock intersections', () => {
+      const mock = generateMockFromInterface(derivedFile, 'Captain');
+      expect(Object.keys(mock)).toEqual(['id', 'rank', 'name', 'email', 'armband']);
+      expect(typeof mock.armband).toBe('boolean');
+    });
+
+    it('should mock Pick and Omit', () => {
+      expect(Object.keys(generateMockFromInterface(derivedFile, 'MemberCard'))).toEqual(['id', 'name']);
+      expect(Object.keys(generateMockFromInterface(derivedFile, 'MemberDraft'))).toEqual([
+        'rank',
+        'name',
+        'email',
+      ]);
+    });
+
+    it('should apply inherited JSDoc constraints', () => {
+      for (let i = 0; i < 5; i++) {
+        const mock = generateMockFromInterface(derivedFile, 'MemberDraft');
+        expect(mock.rank).toBeGreaterThanOrEqual(1);
+        expect(mock.rank).toBeLessThanOrEqual(5);
+      }
+    });
+  });
+
+  describe('generateMockFromInterface with imported types', () => {
+    const ordersFile = path.join(testDir, 'orders.ts');
+
+    beforeAll(() => {
+      fs.writeFileSync(
+        path.join(testDir, 'address.ts'),
+        `export interface Address {
+  city: string;
+  zipCode: string;
+}`
+      );
+      fs.writeFileSync(
+        ordersFile,
+        `import { Address } from './address';
+
+export interface Order {
+  id: number;
+  shipping: Address;
+  stops: Address[];
+}`
+      );
+    });
+
+    it('should mock nested types imported from other files', () => {
+      const mock = generateMockFromInterface(ordersFile, 'Order');
+      expect(mock.shipping).toEqual({ city: expect.any(String), zipCode: expect.any(String) });
+      for (const stop of mock.stops as unknown[]) {
+        expect(Object.keys(stop as object)).toEqual(['city', 'zipCode']);
+      }
+    });
+
+    it('should follow aliased imports and keep same-named types of different files apart', () => {
+      const invoicesFile = path.join(testDir, 'invoices.ts');
+      fs.writeFileSync(
+        path.join(testDir, 'billing.ts'),
+        `import { Address as PostalAddress } from './address';
+
+export interface Address {
+  iban: string;
+}
+
+export interface Billing {
+  account: Address;
+  postal: PostalAddress;
+}`
+      );
+      fs.writeFileSync(
+        invoicesFile,
+        `import { Address as Addr } from './address';
+import { Billing } from './billing';
+
+export interface Invoice {
+  id: number;
+  sentTo: Addr;
+  copies: Addr[];
+  billing: Billing;
+}`
+      );
+
+      const mock = generateMockFromInterface(invoicesFile, 'Invoice');
+      expect(Object.keys(mock.sentTo as object)).toEqual(['city', 'zipCode']);
+      for (const copy of mock.copies as unknown[]) {
+        expect(Object.keys(copy as object)).toEqual(['city', 'zipCode']);
+      }
+      const billing = mock.billing as Record<string, unknown>;
+      expect(Object.keys(billing.account as object)).toEqual(['iban']);
+      expect(Object.keys(billing.postal as object)).toEqual(['city', 'zipCode']);
+    });
+  });
+
+  describe('generateMockFromInterface with Date fields', () => {
+    const datesFile = path.join(testDir, 'dates.ts');
+
+    beforeAll(() => {
+      fs.writeFileSync(
+        datesFile,
+        `export interface Audit {
+  at: Date;
+}
+
+export interface Post {
+  id: number;
+  createdAt: Date;
+  deletedAt?: Date | null;
+  audit: Audit;
+}`
+      );
+    });
+
+    it('should mock Date fields as ISO 8601 strings', () => {
+      const mock = generateMockFromInterface(datesFile, 'Post');
+      expect(mock.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+      expect(typeof (mock.audit as Record<string, unknown>).at).toBe('string');
+    });
+  });
+
   describe('generateMockArray', () => {
     it('should generate array of mocks', () => {
       const mocks = generateMockArray(testFile, 'User');
@@ -213,4 +370,58 @@ export interface Product {
       });
     });
   });
+
+  describe('seeded generation', () => {
+    const datedFile = path.join(testDir, 'dated-interface.ts');
+
+    beforeAll(() => {
+      fs.writeFileSync(
+        datedFile,
+        `export interface Event {
+  id: string;
+  createdAt: string;
+  /** @enum ACTIVE,INACTIVE,PENDING */
+  status: string;
+  /** @min 1 @max 1000 */
+  level: number;
+}`
+      );
+    });
+
+    it('should produce identical mocks for the same seed', () => {
+      const mock1 = generateMockFromInterface(testFile, 'User', { seed: 42 });
+      const mock2 = generateMockFromInterface(testFile, 'User', { seed: 42 });
+
+      expect(mock1).toEqual(mock2);
+    });
+
+    it('should produce different mocks for different seeds', () => {
+      const mock1 = generateMockFromInterface(testFile, 'User', { seed: 1 });
+      const mock2 = generateMockFromInterface(testFile, 'User', { seed: 2 });
+
+      expect(mock1).not.toEqual(mock2);
+    });
+
+    it('should make smart-prop dates and constrained fields reproducible', () => {
+      const mock1 = generateMockFromInterface(datedFile, 'Event', { seed: 7 });
+      const mock2 = generateMockFromInterface(datedFile, 'Event', { seed: 7 });
+
+      expect(JSON.stringify(mock1)).toBe(JSON.stringify(mock2));
+    });
+
+    it('should produce identical arrays with distinct items for the same seed', () => {
+      const mocks1 = generateMockArray(testFile, 'User', { arrayLength: 5, seed: 42 });
+      const mocks2 = generateMockArray(testFile, 'User', { arrayLength: 5, seed: 42 });
+
+      expect(mocks1).toEqual(mocks2);
+      expect(mocks1[0]).not.toEqual(mocks1[1]);
+    });
+
+    it('should not leave Math.random seeded afterwards', () => {
+      const originalRandom = Math.random;
+      generateMockFromInterface(testFile, 'User', { seed: 42 });
+
+      expect(Math.random).toBe(originalRandom);
+    });
+  });
 });
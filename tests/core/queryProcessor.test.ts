@@ -1,7 +1,16 @@
 import {
   parseQueryParams,
+  parseExpandParam,
+  parseFieldsParam,
   validateSortFields,
+  validateFilterFields,
+  validateProjectionFields,
+  collectFieldPaths,
+  projectFields,
   applyPagination,
+  applyCursorPagination,
+  matchRegexFilters,
+  ParsedQueryParams,
   DEFAULT_PAGE,
   DEFAULT_PAGE_SIZE,
   MAX_PAGE_SIZE,
@@ -30,6 +39,7 @@ describe('parseQueryParams', () => {
       containsFilters: {},
       gteFilters: {},
       lteFilters: {},
+      expand: [],
     });
   });
 
@@ -113,6 +123,101 @@ describe('parseQueryParams', () => {
       expect(result.lteFilters).toEqual({ createdAt: '2024-12-31' });
     }
   });
+
+  it('parses the other filter operators into conditions', () => {
+    const result = parseQueryParams({
+      status_ne: 'inactive',
+      role_in: 'admin, editor',
+      score_gt: '3',
+      name_startsWith: 'Item',
+      email_exists: 'true',
+    });
+    expect('error' in result).toBe(false);
+    if (!('error' in result)) {
+      expect(result.filters).toEqual([
+        { field: 'status', operator: 'ne', value: 'inactive' },
+        { field: 'role', operator: 'in', value: ['admin', 'editor'] },
+        { field: 'score', operator: 'gt', value: '3' },
+        { field: 'name', operator: 'startsWith', value: 'Item' },
+        { field: 'email', operator: 'exists', value: 'true' },
+      ]);
+      expect(result.exactFilters).toEqual({});
+    }
+  });
+
+  it('parses or groups of conditions', () => {
+    const result = parseQueryParams({ or: ['status:active|score_gte:9', 'createdAt_lt:2024-01-03T10:00:00Z'] });
+    expect('error' in result).toBe(false);
+    if (!('error' in result)) {
+      expect(result.orGroups).toEqual([
+        [
+          { field: 'status', operator: 'eq', value: 'active' },
+          { field: 'score', operator: 'gte', value: '9' },
+        ],
+        [{ field: 'createdAt', operator: 'lt', value: '2024-01-03T10:00:00Z' }],
+      ]);
+    }
+  });
+
+  it('returns error for invalid filter values and or conditions', () => {
+    expect(parseQueryParams({ email_exists: 'yes' })).toEqual({ error: '"email_exists" must be "true" or "false"' });
+    expect(parseQueryParams({ name_regex: '(' })).toEqual({ error: '"name_regex" is not a valid regular expression' });
+    expect(parseQueryParams({ name_regex: 'a'.repeat(101) })).toEqual({
+      error: '"name_regex" must be at most 100 characters',
+    });
+    expect(parseQueryParams({ or: 'status' })).toHaveProperty('error');
+  });
+
+  it('parses expand and include into a merged, de-duplicated list', () => {
+    const result = parseQueryParams({ expand: 'author, comments', include: 'comments,tags' });
+    expect('error' in result).toBe(false);
+    if (!('error' in result)) {
+      expect(result.expand).toEqual(['author', 'comments', 'tags']);
+      expect(result.exactFilters).toEqual({});
+    }
+  });
+});
+
+describe('parseExpandParam', () => {
+  it('returns an empty list when absent', () => {
+    expect(parseExpandParam({})).toEqual([]);
+  });
+
+  it('accepts repeated params and ignores empty entries', () => {
+    expect(parseExpandParam({ expand: ['author', 'comments,,'] })).toEqual(['author', 'comments']);
+  });
+});
+
+describe('sparse fieldsets', () => {
+  const item = {
+    id: 1,
+    name: 'Ada',
+    address: { city: 'Paris', zip: '75003' },
+    lines: [{ sku: 'A1', qty: 2 }, { sku: 'B2', qty: 1 }],
+    avatar: null,
+  };
+
+  it('parses fields and reserves the param', () => {
+    expect(parseFieldsParam({ fields: 'id, name,,id' })).toEqual(['id', 'name']);
+    const result = parseQueryParams({ fields: 'id' });
+    expect('error' in result ? undefined : result.exactFilters).toEqual({});
+  });
+
+  it('keeps only the selected fields, nested paths inside their parents', () => {
+    expect(projectFields(item, ['id', 'avatar', 'address.city', 'missing'])).toEqual({
+      id: 1,
+      avatar: null,
+      address: { city: 'Paris' },
+    });
+    expect(projectFields(item, ['lines.sku'])).toEqual({ lines: [{ sku: 'A1' }, { sku: 'B2' }] });
+    expect(projectFields(item, ['address', 'address.city'])).toEqual({ address: item.address });
+  });
+
+  it('rejects unknown fields', () => {
+    const allowed = new Set(['id', 'name', 'address.city']);
+    expect(validateProjectionFields(['id', 'address.city'], allowed)).toBeNull();
+    expect(validateProjectionFields(['avatar'], allowed)).toMatch(/Cannot select unknown field "avatar"/);
+  });
 });
 
 describe('validateSortFields', () => {
@@ -133,6 +238,22 @@ describe('validateSortFields', () => {
   });
 });
 
+describe('validateFilterFields', () => {
+  const allowed = new Set(['id', 'name', 'score']);
+
+  it('returns null when every filtered field is declared', () => {
+    const params = parseQueryParams({ name_contains: 'a', score_in: '1,2', or: 'id:1|name:b' });
+    expect('error' in params ? params.error : validateFilterFields(params, allowed)).toBeNull();
+  });
+
+  it('returns error message for unknown fields, including in or groups', () => {
+    const params = parseQueryParams({ or: 'name:a|nickname:b' });
+    expect('error' in params ? params.error : validateFilterFields(params, allowed)).toMatch(
+      /Cannot filter by unknown field "nickname"/
+    );
+  });
+});
+
 describe('applyPagination', () => {
   const baseParams = {
     page: 1,
@@ -142,6 +263,7 @@ describe('applyPagination', () => {
     containsFilters: {},
     gteFilters: {},
     lteFilters: {},
+    expand: [],
   };
 
   describe('pagination', () => {
@@ -257,6 +379,70 @@ describe('applyPagination', () => {
       expect(result.meta.total).toBe(0);
     });
 
+    /** IDs of the items matching a query */
+    function filterIds(pool: Record<string, unknown>[], query: Record<string, string | string[]>): unknown[] {
+      const params = parseQueryParams(query);
+      if ('error' in params) throw new Error(params.error);
+      return applyPagination(pool, { ...params, pageSize: MAX_PAGE_SIZE }).data.map((item) => item['id']);
+    }
+
+    it('applies _ne, _in and _nin filters', () => {
+      const pool = makeItems(6);
+      expect(filterIds(pool, { status_ne: 'ACTIVE' })).toEqual([2, 4, 6]);
+      expect(filterIds(pool, { score_in: '2,5,42' })).toEqual([2, 5]);
+      expect(filterIds(pool, { name_nin: 'item 1,Item 2' })).toEqual([3, 4, 5, 6]);
+    });
+
+    it('applies _startsWith and _regex filters', () => {
+      const pool = makeItems(12);
+      expect(filterIds(pool, { name_startsWith: 'item 1' })).toEqual([1, 10, 11, 12]);
+      expect(filterIds(pool, { email_regex: '^user[2-3]@' })).toEqual([2, 3]);
+    });
+
+    it('stops _regex filters that backtrack catastrophically within the time budget', () => {
+      const pool = [{ id: 1, name: `${'a'.repeat(40)}!`, tags: ['b'] }];
+      const queries: Array<[string, Record<string, string>]> = [
+        ['((a+))+$', { name_regex: '((a+))+$' }],
+        ['(a|aa)+$', { name_regex: '(a|aa)+$' }],
+        ['(a|a)*$', { name_regex: '(a|a)*$' }],
+        ['((a+))+$', { or: 'tags:b|name_regex:((a+))+$' }],
+      ];
+      for (const [pattern, query] of queries) {
+        const params = parseQueryParams(query);
+        if ('error' in params) throw new Error(params.error);
+        const started = Date.now();
+        expect(matchRegexFilters(params, pool)).toBe(
+          `Regular expression "${pattern}" took longer than 100 ms to match; simplify it`
+        );
+        expect(Date.now() - started).toBeLessThan(1000);
+      }
+
+      const params = parseQueryParams({ name_regex: '^a+!$' });
+      if ('error' in params) throw new Error(params.error);
+      expect(matchRegexFilters(params, pool)).toBeNull();
+      expect(applyPagination(pool, params).data).toEqual(pool);
+    });
+
+    it('applies _gt and _lt filters to numbers and dates', () => {
+      const pool = makeItems(10);
+      expect(filterIds(pool, { score_gt: '8' })).toEqual([9, 10]);
+      expect(filterIds(pool, { createdAt_lt: '2024-01-03' })).toEqual([1, 2]);
+    });
+
+    it('applies _exists filters and only matches missing values with negative operators', () => {
+      const pool = makeItems(4).map((item, i) => (i % 2 === 0 ? { ...item, nickname: `n${i}` } : item));
+      expect(filterIds(pool, { nickname_exists: 'true' })).toEqual([1, 3]);
+      expect(filterIds(pool, { nickname_exists: 'false' })).toEqual([2, 4]);
+      expect(filterIds(pool, { nickname: 'n0' })).toEqual([1]);
+      expect(filterIds(pool, { nickname_ne: 'n0' })).toEqual([2, 3, 4]);
+    });
+
+    it('requires one condition of each or group', () => {
+      const pool = makeItems(10);
+      expect(filterIds(pool, { or: 'score_lte:2|score_gte:9' })).toEqual([1, 2, 9, 10]);
+      expect(filterIds(pool, { or: ['score_lte:2|score_gte:9', 'status:active'], score_ne: '9' })).toEqual([1]);
+    });
+
     it('ignores filter for unknown field', () => {
       const pool = makeItems(5);
       const result = applyPagination(pool, {
@@ -315,3 +501,177 @@ describe('applyPagination', () => {
     });
   });
 });
+
+describe('nested fields and arrays', () => {
+  const pool: Record<string, unknown>[] = [
+    { id: 1, address: { city: 'Paris', zip: '75003' }, tags: ['vip', 'beta'], lines: [{ sku: 'A1' }, { sku: 'B2' }] },
+    { id: 2, address: { city: 'Lyon', zip: '69001' }, tags: ['beta'], lines: [{ sku: 'C3' }] },
+    { id: 3, address: { city: 'paris', zip: '75001' }, tags: [], lines: [] },
+  ];
+
+  function ids(query: Record<string, string>): unknown[] {
+    const params = parseQueryParams(query);
+    if ('error' in params) throw new Error(params.error);
+    return applyPagination(pool, params).data.map((item) => item['id']);
+  }
+
+  it('filters and sorts by dot paths', () => {
+    expect(ids({ 'address.city': 'Paris', sort: 'address.zip:asc' })).toEqual([3, 1]);
+    expect(ids({ 'address.zip_startsWith': '69' })).toEqual([2]);
+  });
+
+  it('matches array fields when any element matches', () => {
+    expect(ids({ tags: 'beta' })).toEqual([1, 2]);
+    expect(ids({ tags_contains: 'vi' })).toEqual([1]);
+    expect(ids({ tags_in: 'vip,alpha' })).toEqual([1]);
+    expect(ids({ 'lines.sku': 'C3' })).toEqual([2]);
+  });
+
+  it('excludes array fields when any element is excluded', () => {
+    expect(ids({ tags_ne: 'vip' })).toEqual([2, 3]);
+    expect(ids({ 'lines.sku_nin': 'A1,C3' })).toEqual([3]);
+    expect(ids({ 'lines.sku_exists': 'false' })).toEqual([3]);
+  });
+
+  it('collects the dot paths of the items, through arrays on demand', () => {
+    expect([...collectFieldPaths(pool)]).toEqual(['id', 'address', 'address.city', 'address.zip', 'tags', 'lines']);
+    expect(collectFieldPaths(pool, true).has('lines.sku')).toBe(true);
+  });
+});
+
+describe('cursor pagination', () => {
+  /** Parses a cursor-mode query, failing the test on a parse error */
+  function cursorParams(query: Record<string, string>): ParsedQueryParams {
+    const parsed = parseQueryParams(query, 'cursor');
+    if ('error' in parsed) throw new Error(parsed.error);
+    return parsed;
+  }
+
+  /** Follows nextCursor from the first page and returns the IDs of every page */
+  function walkPages(pool: Record<string, unknown>[], query: Record<string, string>): unknown[][] {
+    const pages: unknown[][] = [];
+    let cursor: string | null | undefined;
+    do {
+      const page = applyCursorPagination(pool, cursorParams(cursor ? { ...query, cursor } : query));
+      pages.push(page.data.map((item) => item['id']));
+      cursor = page.meta.nextCursor;
+    } while (cursor);
+    return pages;
+  }
+
+  it('parses limit and reserves cursor params instead of treating them as filters', () => {
+    const result = cursorParams({ limit: '5', status: 'active' });
+    expect(result.limit).toBe(5);
+    expect(result.cursor).toBeUndefined();
+    expect(result.exactFilters).toEqual({ status: 'active' });
+  });
+
+  it('keeps cursor and limit as filters in offset mode', () => {
+    const result = parseQueryParams({ limit: '5' });
+    expect('error' in result ? undefined : result.exactFilters).toEqual({ limit: '5' });
+  });
+
+  it('rejects an invalid limit or cursor', () => {
+    expect(parseQueryParams({ limit: '0' }, 'cursor')).toEqual({ error: '"limit" must be a positive integer' });
+    expect(parseQueryParams({ limit: String(MAX_PAGE_SIZE + 1) }, 'cursor')).toHaveProperty('error');
+    expect(parseQueryParams({ cursor: 'not-a-cursor' }, 'cursor')).toEqual({ error: '"cursor" is invalid' });
+  });
+
+  it('rejects a cursor issued for another sort', () => {
+    const page = applyCursorPagination(makeItems(10), cursorParams({ limit: '3', sort: 'score:desc' }));
+    const result = parseQueryParams({ cursor: page.meta.nextCursor!, sort: 'score:asc' }, 'cursor');
+    expect(result).toHaveProperty('error');
+    expect((result as { error: string }).error).toMatch(/different sort/);
+  });
+
+  it('walks the whole collection forward, ordered by ID by default', () => {
+    const pool = makeItems(7).reverse();
+    expect(walkPages(pool, { limit: '3' })).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+  });
+
+  it('returns the meta of the first and last pages', () => {
+    const first = applyCursorPagination(makeItems(5), cursorParams({ limit: '5' }));
+    expect(first.meta).toEqual({ total: 5, limit: 5, nextCursor: null, prevCursor: null });
+  });
+
+  it('follows the sort, filters, and prevCursor', () => {
+    const pool = makeItems(10);
+    const query = { limit: '2', sort: 'score:desc', status: 'active' };
+    expect(walkPages(pool, query)).toEqual([[9, 7], [5, 3], [1]]);
+
+    const first = applyCursorPagination(pool, cursorParams(query));
+    const second = applyCursorPagination(pool, cursorParams({ ...query, cursor: first.meta.nextCursor! }));
+    const back = applyCursorPagination(pool, cursorParams({ ...query, cursor: second.meta.prevCursor! }));
+    expect(back.data.map((item) => item['id'])).toEqual([9, 7]);
+    expect(back.meta.prevCursor).toBeNull();
+    expect(second.meta.total).toBe(5);
+  });
+
+  it('breaks ties of the sort field by ID so no item is skipped or repeated', () => {
+    const pool = makeItems(6).map((item) => ({ ...item, score: 1 }));
+    expect(walkPages(pool, { limit: '4', sort: 'score:asc' })).toEqual([[1, 2, 3, 4], [5, 6]]);
+  });
+
+  it('keeps its position when items are inserted or deleted before it', () => {
+    const pool = makeItems(10);
+    const first = applyCursorPagination(pool, cursorParams({ limit: '3' }));
+    const cursor = first.meta.nextCursor!;
+
+    // Delete a seen item and the boundary item itself, insert one before the boundary
+    const changed = [{ id: 0, name: 'New' }, ...pool.filter((item) => item['id'] !== 2 && item['id'] !== 3)];
+    const next = applyCursorPagination(changed, cursorParams({ limit: '3', cursor }));
+    expect(next.data.map((item) => item['id'])).toEqual([4, 5, 6]);
+    expect(next.meta.total).toBe(9);
+  });
+});
+
+describe('full-text search', () => {
+  const pool: Record<string, unknown>[] = [
+    { id: 1, name: 'Blue sneaker', description: 'Running shoe', price: 80 },
+    { id: 2, name: 'Red shoe', description: 'Leather, red sole', price: 120 },
+    { id: 3, name: 'Red scarf', description: 'Wool, dark red', price: 30 },
+    { id: 4, name: 'Shoelaces', description: 'Cotton', tags: ['spare'], price: 5 },
+    { id: 5, name: 'Hat', description: 'Felt', price: 40 },
+  ];
+
+  function ids(query: Record<string, string>, searchFields?: string[]): unknown[] {
+    const params = parseQueryParams(query);
+    if ('error' in params) throw new Error(params.error);
+    return applyPagination(pool, { ...params, ...(searchFields && { searchFields }) }).data.map((item) => item['id']);
+  }
+
+  it('parses q into lowercase terms and reserves it', () => {
+    const result = parseQueryParams({ q: '  Red   SHOE red ' });
+    expect('error' in result ? undefined : result.search).toEqual(['red', 'shoe']);
+    expect('error' in result ? undefined : result.exactFilters).toEqual({});
+    expect(parseQueryParams({ q: ' ' })).not.toHaveProperty('search');
+  });
+
+  it('ranks items by relevance, whole words above partial matches', () => {
+    expect(ids({ q: 'red shoe' })).toEqual([2, 3, 1, 4]);
+  });
+
+  it('searches only the given fields, nested and array values included', () => {
+    expect(ids({ q: 'shoe' }, ['name'])).toEqual([2, 4]);
+    expect(ids({ q: 'spare' })).toEqual([4]);
+  });
+
+  it('combines with filters, and an explicit sort overrides the ranking', () => {
+    expect(ids({ q: 'red shoe', price_gte: '30', sort: 'price:asc' })).toEqual([3, 1, 2]);
+    expect(ids({ q: 'velvet' })).toEqual([]);
+  });
+
+  it('pages search results with cursors bound to the search', () => {
+    const params = parseQueryParams({ q: 'red shoe', limit: '2' }, 'cursor');
+    if ('error' in params) throw new Error(params.error);
+    const first = applyCursorPagination(pool, params);
+    expect(first.data.map((item) => item['id'])).toEqual([2, 3]);
+
+    const next = parseQueryParams({ q: 'red shoe', limit: '2', cursor: first.meta.nextCursor! }, 'cursor');
+    if ('error' in next) throw new Error(next.error);
+    expect(applyCursorPagination(pool, next).data.map((item) => item['id'])).toEqual([1, 4]);
+
+    const other = parseQueryParams({ q: 'red', cursor: first.meta.nextCursor! }, 'cursor');
+    expect(other).toHaveProperty('error');
+  });
+});
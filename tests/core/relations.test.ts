@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MockDataStore } from '../../src/core/cache';
+import {
+  getEndpointRelations,
+  linkPoolReferences,
+  applyDeleteToReferences,
+  getExpandableRelations,
+  expandItem,
+} from '../../src/core/relations';
+
+describe('relations', () => {
+  const testDir = path.join(__dirname, 'test-files-relations');
+  const typesFile = path.join(testDir, 'blog.ts');
+  let typeMap: Map<string, string>;
+  let store: MockDataStore;
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      typesFile,
+      `export interface User {
+  id: number;
+  name: string;
+}
+
+export interface Post {
+  id: number;
+  userId: number;
+  /** @ref User */
+  editor: number;
+  authorId: number;
+}
+
+export interface Comment {
+  id: number;
+  postId: number;
+}`
+    );
+
+    typeMap = new Map([
+      ['User', typesFile],
+      ['Post', typesFile],
+      ['Comment', typesFile],
+    ]);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  beforeEach(() => {
+    store = new MockDataStore();
+    store.setPool('User', typesFile, [
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+    ]);
+    store.setPool('Post', typesFile, [
+      { id: 10, userId: 999, editor: 998, authorId: 5 },
+      { id: 11, userId: 2, editor: 1, authorId: 6 },
+    ]);
+    store.setPool('Comment', typesFile, [
+      { id: 100, postId: 10 },
+      { id: 101, postId: 11 },
+    ]);
+  });
+
+  describe('getEndpointRelations', () => {
+    it('keeps only relations targeting known endpoint types', () => {
+      const relations = getEndpointRelations('Post', typesFile, typeMap);
+      expect(relations.map((r) => r.field)).toEqual(['userId', 'editor']);
+    });
+  });
+
+  describe('linkPoolReferences', () => {
+    it('replaces dangling foreign keys with existing IDs', () => {
+      linkPoolReferences(store, typeMap);
+      const posts = store.getPool('Post', typesFile)!;
+      for (const post of posts) {
+        expect([1, 2]).toContain(post['userId']);
+        expect([1, 2]).toContain(post['editor']);
+      }
+    });
+
+    it('keeps valid references and unrelated fields untouched', () => {
+      linkPoolReferences(store, typeMap);
+      const posts = store.getPool('Post', typesFile)!;
+      expect(posts[1]).toEqual({ id: 11, userId: 2, editor: 1, authorId: 6 });
+      expect(posts[0]!['authorId']).toBe(5);
+    });
+
+    it('does not touch items written by clients', () => {
+      const written = { id: 10, userId: 999, editor: 998, authorId: 5 };
+      store.setById('Post', typesFile, '10', written);
+      linkPoolReferences(store, typeMap);
+      expect(store.getPool('Post', typesFile)![0]).toEqual(written);
+      expect(store.getById('Post', typesFile, '10')).toEqual(written);
+    });
+
+    it('is reproducible with a seed', () => {
+      const bigUsers = Array.from({ length: 50 }, (_, i) => ({ id: i + 1 }));
+      const danglingPosts = Array.from({ length: 20 }, (_, i) => ({ id: i + 1, userId: 0, editor: 0 }));
+
+      store.setPool('User', typesFile, bigUsers);
+      store.setPool('Post', typesFile, danglingPosts.map((p) => ({ ...p })));
+      linkPoolReferences(store, typeMap, 42);
+      const first = store.getPool('Post', typesFile);
+
+      store.setPool('Post', typesFile, danglingPosts.map((p) => ({ ...p })));
+      linkPoolReferences(store, typeMap, 42);
+      expect(store.getPool('Post', typesFile)).toEqual(first);
+    });
+  });
+
+  describe('applyDeleteToReferences', () => {
+    it('does nothing in "none" mode', () => {
+      applyDeleteToReferences(store, typeMap, 'User', '2', 'none');
+      expect(store.getLivePool('Post', typesFile)).toHaveLength(2);
+    });
+
+    it('nullifies referencing fields in "nullify" mode', () => {
+      applyDeleteToReferences(store, typeMap, 'User', '2', 'nullify');
+      const post = store.getLivePool('Post', typesFile).find((p) => p['id'] === 11);
+      expect(post!['userId']).toBeNull();
+      expect(post!['editor']).toBe(1);
+      expect(store.getById('Post', typesFile, '11')).toEqual(post);
+    });
+
+    it('deletes referencing items recursively in "cascade" mode', () => {
+      applyDeleteToReferences(store, typeMap, 'User', '2', 'cascade');
+      expect(store.getLivePool('Post', typesFile).map((p) => p['id'])).toEqual([10]);
+      expect(store.getLivePool('Comment', typesFile).map((c) => c['id'])).toEqual([100]);
+      expect(store.getDeletedIds('Comment', typesFile).has('101')).toBe(true);
+    });
+  });
+
+  describe('getExpandableRelations', () => {
+    it('lists to-one relations from foreign keys and to-many from referencing types', () => {
+      expect(getExpandableRelations('Post', typesFile, typeMap)).toEqual([
+        { name: 'user', kind: 'one', field: 'userId', target: 'User' },
+        { name: 'editor', kind: 'one', field: 'editor', target: 'User' },
+        { name: 'comments', kind: 'many', field: 'postId', target: 'Comment' },
+      ]);
+    });
+
+    it('keeps the first relation when names collide', () => {
+      expect(getExpandableRelations('User', typesFile, typeMap)).toEqual([
+        { name: 'posts', kind: 'many', field: 'userId', target: 'Post' },
+      ]);
+    });
+  });
+
+  describe('expandItem', () => {
+    it('embeds to-one and to-many relations without mutating the item', () => {
+      const post = { id: 11, userId: 2, editor: 1 };
+      const expanded = expandItem(store, typeMap, post, getExpandableRelations('Post', typesFile, typeMap));
+
+      expect(expanded['user']).toEqual({ id: 2, name: 'B' });
+      expect(expanded['editor']).toEqual({ id: 1, name: 'A' });
+      expect(expanded['comments']).toEqual([{ id: 101, postId: 11 }]);
+      expect(post).toEqual({ id: 11, userId: 2, editor: 1 });
+    });
+
+    it('embeds null for a dangling reference', () => {
+      const [user] = getExpandableRelations('Post', typesFile, typeMap);
+      expect(expandItem(store, typeMap, { id: 12, userId: 999 }, [user!])['user']).toBeNull();
+    });
+  });
+});
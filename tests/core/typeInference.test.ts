@@ -0,0 +1,67 @@
+import { inferInterfaces } from '../../src/core/typeInference';
+
+describe('typeInference', () => {
+  const users = [
+    {
+      id: 1,
+      name: 'Alice',
+      role: 'admin',
+      level: 1,
+      createdAt: '2024-01-02T10:00:00Z',
+      address: { city: 'Paris', zip: '75001' },
+      tags: ['a', 'b'],
+      nickname: null,
+    },
+    {
+      id: 2,
+      name: 'Bob',
+      role: 'member',
+      level: 2,
+      createdAt: '2024-02-03T11:00:00Z',
+      address: { city: 'Lyon' },
+      tags: [],
+      nickname: 'bobby',
+    },
+    { id: 3, name: 'Carol', role: 'member', level: 1, createdAt: '2024-03-04', tags: ['c'] },
+    { id: 4, name: 'Dan', role: 'admin', level: 2, createdAt: '2024-04-05', tags: ['a'], nickname: 'd' },
+  ];
+
+  it('declares an endpoint interface with optional and nullable fields', () => {
+    const source = inferInterfaces(users, 'User');
+
+    expect(source.startsWith('// @endpoint\nexport interface User {\n  id: number;\n')).toBe(true);
+    expect(source).toContain('  address?: UserAddress;\n');
+    expect(source).toContain('  tags: string[];\n');
+    expect(source).toContain('  /** @minLength 1 */\n  nickname?: string | null;\n');
+  });
+
+  it('infers literal unions, dates and value hints', () => {
+    const source = inferInterfaces(users, 'User');
+
+    expect(source).toContain("  role: 'admin' | 'member';\n");
+    expect(source).toContain('  createdAt: Date;\n');
+    expect(source).toContain('  /** @enum 1,2 */\n  level: number;\n');
+    expect(source).toContain('  /** @minLength 3 */\n  name: string;\n');
+  });
+
+  it('declares nested objects as interfaces named after their parent field', () => {
+    const source = inferInterfaces(users, 'User');
+
+    expect(source).toContain(
+      'export interface UserAddress {\n  /** @minLength 4 */\n  city: string;\n  /** @minLength 5 */\n  zip?: string;\n}'
+    );
+    expect(source).not.toContain('// @endpoint\nexport interface UserAddress');
+  });
+
+  it('accepts a single object and mixed-type fields', () => {
+    const source = inferInterfaces({ id: 'a1', score: 3, extra: null, items: [1, 'x'] }, 'Entry');
+
+    expect(source).toBe(
+      '// @endpoint\nexport interface Entry {\n  /** @minLength 2 */\n  id: string;\n  score: number;\n  extra: any;\n  items: (string | number)[];\n}\n'
+    );
+  });
+
+  it('rejects samples without objects', () => {
+    expect(() => inferInterfaces([1, 2], 'Nope')).toThrow('Expected a JSON object or an array of objects');
+  });
+});
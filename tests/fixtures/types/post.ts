@@ -0,0 +1,7 @@
+// @endpoint
+export interface Post {
+  id: number;
+  userId: number;
+  title: string;
+  body: string;
+}
@@ -6,6 +6,15 @@ import { createServer } from '../../src/server';
 import { invalidateTypeMap } from '../../src/utils/typeMapping';
 import { mockDataStore } from '../../src/core/cache';
 import { ServerConfig } from '../../src/types/config';
+import { writeOpenAPITypes } from '../../src/core/openapiSource';
+import { serializeOpenAPISpec } from '../../src/core/swagger';
+import yaml from 'js-yaml';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { recordingPath } from '../../src/utils/recordings';
+import { logger } from '../../src/utils/logger';
+import * as dataPersistence from '../../src/utils/dataPersistence';
 
 const FIXTURES_DIR = path.join(__dirname, '../fixtures/types');
 
@@ -74,6 +83,194 @@ describe('Server integration', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Filter operators
+  // ---------------------------------------------------------------------------
+  describe('Filter operators', () => {
+    it('combines operators and or groups', async () => {
+      const all = await request(app).get('/api/users?pageSize=100');
+      const [first, second] = all.body.data;
+
+      const res = await request(app).get('/api/users').query({ or: `id:${first.id}|id:${second.id}`, id_ne: first.id });
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((user: { id: number }) => user.id)).toEqual([second.id]);
+
+      const withAge = await request(app).get('/api/users?age_exists=true');
+      const withoutAge = await request(app).get('/api/users?age_exists=false');
+      expect(withAge.body.meta.total + withoutAge.body.meta.total).toBe(100);
+    });
+
+    it('ignores undeclared fields by default and rejects them with strictFilters', async () => {
+      const lenient = await request(app).get('/api/users?nickname_in=a,b');
+      expect(lenient.status).toBe(200);
+      expect(lenient.body.meta.total).toBe(100);
+
+      const strictApp = createServer({ ...testConfig, strictFilters: true });
+      const res = await request(strictApp).get('/api/users?or=name:a|nickname:b');
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({
+        error: 'Invalid filter parameter',
+        message: 'Cannot filter by unknown field "nickname". Allowed fields: age, email, id, name',
+      });
+    });
+
+    it('rejects _regex filters that backtrack catastrophically instead of stalling the server', async () => {
+      await request(app).post('/api/users').send({ id: 9100, name: `${'a'.repeat(40)}!` });
+
+      for (const pattern of ['((a+))+$', '(a|aa)+$']) {
+        const res = await request(app).get('/api/users').query({ name_regex: pattern });
+        expect(res.status).toBe(400);
+        expect(res.body.error).toBe('Invalid filter parameter');
+      }
+      expect((await request(app).get('/api/users').query({ name_regex: '^a+!$' })).body.meta.total).toBe(1);
+    });
+
+    it('documents the operators of each field', () => {
+      const names = app.locals.swaggerSpec.paths['/users'].get.parameters.map(
+        (parameter: { name?: string; $ref?: string }) => parameter.name ?? parameter.$ref
+      );
+      expect(names).toEqual(
+        expect.arrayContaining([
+          '#/components/parameters/or',
+          'name_ne',
+          'name_in',
+          'name_nin',
+          'name_startsWith',
+          'name_regex',
+          'age_gt',
+          'age_lt',
+          'age_exists',
+        ])
+      );
+      expect(names).not.toContain('age_startsWith');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Nested fields and arrays
+  // ---------------------------------------------------------------------------
+  describe('Nested fields and arrays', () => {
+    type Address = { city: string; zip: string };
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-nested-types-'));
+    fs.writeFileSync(
+      path.join(typesDir, 'models.ts'),
+      `export interface Address {
+  city: string;
+  zip: string;
+}
+
+// @endpoint
+export interface Customer {
+  id: number;
+  address: Address;
+  tags: string[];
+}`
+    );
+    const nestedApp = createServer({ ...testConfig, typesDir, strictFilters: true });
+
+    beforeEach(() => {
+      invalidateTypeMap();
+      mockDataStore.clear();
+    });
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('filters and sorts by dot paths and array elements', async () => {
+      const all = await request(nestedApp).get('/api/customers?pageSize=100');
+      const { address, tags } = all.body.data.find((customer: { tags: string[] }) => customer.tags.length > 0);
+
+      const byCity = await request(nestedApp).get('/api/customers').query({ 'address.city': address.city });
+      expect(byCity.status).toBe(200);
+      byCity.body.data.forEach((customer: { address: Address }) =>
+        expect(customer.address.city.toLowerCase()).toBe(address.city.toLowerCase())
+      );
+
+      const byTag = await request(nestedApp).get('/api/customers').query({ tags: tags[0] });
+      expect(byTag.body.data.length).toBeGreaterThan(0);
+      byTag.body.data.forEach((customer: { tags: string[] }) => expect(customer.tags).toContain(tags[0]));
+
+      const sorted = await request(nestedApp).get('/api/customers?sort=address.zip:asc&pageSize=100');
+      expect(sorted.status).toBe(200);
+      const zips = sorted.body.data.map((customer: { address: Address }) => customer.address.zip);
+      expect(zips).toEqual([...zips].sort((a, b) => a.localeCompare(b)));
+    });
+
+    it('rejects unknown nested paths in strict mode', async () => {
+      const res = await request(nestedApp).get('/api/customers?address.country=FR');
+      expect(res.status).toBe(400);
+      expect(res.body.message).toMatch(/Cannot filter by unknown field "address.country"/);
+
+      const sort = await request(nestedApp).get('/api/customers?sort=address.country:asc');
+      expect(sort.status).toBe(400);
+    });
+
+    it('documents nested and array filter parameters', () => {
+      const names = nestedApp.locals.swaggerSpec.paths['/customers'].get.parameters.map(
+        (parameter: { name?: string }) => parameter.name
+      );
+      expect(names).toEqual(expect.arrayContaining(['address.city', 'address.zip_contains', 'tags', 'tags_contains']));
+    });
+  });
+
+  describe('Full-text search', () => {
+    type Product = { id: number; name: string; sku: string };
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-search-types-'));
+    fs.writeFileSync(
+      path.join(typesDir, 'product.ts'),
+      `// @endpoint
+export interface Product {
+  id: number;
+  /** @searchable */
+  name: string;
+  sku: string;
+}`
+    );
+    const searchApp = createServer({ ...testConfig, typesDir });
+
+    beforeEach(() => {
+      invalidateTypeMap();
+      mockDataStore.clear();
+    });
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('returns the items whose @searchable fields match a term', async () => {
+      const all = await request(searchApp).get('/api/products?pageSize=100');
+      const [product] = all.body.data as Product[];
+      const term = product!.name.split(/\s+/)[0]!.toLowerCase();
+
+      const res = await request(searchApp).get('/api/products').query({ q: term, pageSize: '100' });
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((item: Product) => item.id)).toContain(product!.id);
+      res.body.data.forEach((item: Product) => expect(item.name.toLowerCase()).toContain(term));
+    });
+
+    it('does not search the other fields', async () => {
+      const all = await request(searchApp).get('/api/products?pageSize=100');
+      const products = all.body.data as Product[];
+      const term = products
+        .map((item) => item.sku.split(/\W+/)[0]!.toLowerCase())
+        .find((word) => word.length > 0 && products.every((item) => !item.name.toLowerCase().includes(word)));
+
+      const res = await request(searchApp).get('/api/products').query({ q: term });
+      expect(res.status).toBe(200);
+      expect(res.body.meta.total).toBe(0);
+    });
+
+    it('documents the q parameter with the searched fields', () => {
+      const q = searchApp.locals.swaggerSpec.paths['/products'].get.parameters.find(
+        (parameter: { name?: string }) => parameter.name === 'q'
+      );
+      expect(q.description).toMatch(/`name`/);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // GET single item
   // ---------------------------------------------------------------------------
@@ -299,6 +496,605 @@ describe('Server integration', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Conditional requests
+  // ---------------------------------------------------------------------------
+  describe('ETag / If-None-Match / If-Match', () => {
+    it('returns an ETag on GET and 304 when If-None-Match matches', async () => {
+      await request(app).put('/api/users/60').send({ name: 'Lena' });
+      const first = await request(app).get('/api/users/60');
+      expect(first.headers['etag']).toMatch(/^"1-[0-9a-f]{8}"$/);
+
+      const cached = await request(app).get('/api/users/60').set('If-None-Match', String(first.headers['etag']));
+      expect(cached.status).toBe(304);
+      expect(cached.text).toBe('');
+    });
+
+    it('gives projected bodies their own weak ETag', async () => {
+      await request(app).put('/api/users/65').send({ name: 'Rita' });
+      const full = await request(app).get('/api/users/65');
+      const ids = await request(app).get('/api/users/65?fields=id');
+      const names = await request(app).get('/api/users/65?fields=id,name');
+      expect(ids.headers['etag']).toMatch(/^W\/"1-[0-9a-f]{8}"$/);
+      expect(names.headers['etag']).not.toBe(ids.headers['etag']);
+      expect(names.headers['etag']).not.toBe(full.headers['etag']);
+
+      const other = await request(app).get('/api/users/65?fields=id,name').set('If-None-Match', String(ids.headers['etag']));
+      expect(other.status).toBe(200);
+      expect(Object.keys(other.body)).toEqual(['id', 'name']);
+      const same = await request(app).get('/api/users/65?fields=id').set('If-None-Match', String(ids.headers['etag']));
+      expect(same.status).toBe(304);
+
+      const write = await request(app).patch('/api/users/65').set('If-Match', String(ids.headers['etag'])).send({ name: 'R' });
+      expect(write.status).toBe(412);
+    });
+
+    it('changes the ETag on every write', async () => {
+      const put = await request(app).put('/api/users/61').send({ name: 'Max' });
+      const patch = await request(app).patch('/api/users/61').send({ name: 'Max' });
+      expect(patch.headers['etag']).not.toBe(put.headers['etag']);
+
+      const stale = await request(app).get('/api/users/61').set('If-None-Match', String(put.headers['etag']));
+      expect(stale.status).toBe(200);
+    });
+
+    it('applies writes whose If-Match is the current ETag', async () => {
+      const created = await request(app).post('/api/users').send({ id: 62, name: 'Nina' });
+      const res = await request(app)
+        .patch('/api/users/62')
+        .set('If-Match', String(created.headers['etag']))
+        .send({ name: 'Nina 2' });
+      expect(res.status).toBe(200);
+    });
+
+    it('returns 412 when the resource changed since the If-Match ETag, without writing', async () => {
+      const read = await request(app).put('/api/users/63').send({ name: 'Otto' });
+      const concurrent = await request(app).patch('/api/users/63').send({ name: 'Otto (other tab)' });
+
+      const patch = await request(app).patch('/api/users/63').set('If-Match', String(read.headers['etag'])).send({ name: 'Mine' });
+      expect(patch.status).toBe(412);
+      expect(patch.body.error).toBe('Precondition Failed');
+      expect(patch.headers['etag']).toBe(concurrent.headers['etag']);
+
+      const del = await request(app).delete('/api/users/63').set('If-Match', String(read.headers['etag']));
+      expect(del.status).toBe(412);
+      expect((await request(app).get('/api/users/63')).body.name).toBe('Otto (other tab)');
+    });
+
+    it('returns 412 for If-Match on a missing resource, even with *', async () => {
+      const res = await request(app).put('/api/users/64').set('If-Match', '*').send({ name: 'Pia' });
+      expect(res.status).toBe(412);
+      expect((await request(app).get('/api/users/64')).status).toBe(404);
+    });
+
+    it('documents the conditional headers in the OpenAPI spec', () => {
+      const single = app.locals.swaggerSpec.paths['/users/{id}'];
+      expect(single.get.responses['304']).toBeDefined();
+      expect(single.patch.parameters.map((parameter: { name: string }) => parameter.name)).toContain('If-Match');
+      expect(single.delete.responses['412']).toBeDefined();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Bulk operations
+  // ---------------------------------------------------------------------------
+  describe('Bulk operations on /api/users', () => {
+    it('POST with an array creates every item', async () => {
+      const body = Array.from({ length: 50 }, (_, i) => ({ id: 7000 + i, name: `Bulk ${i}` }));
+      const res = await request(app).post('/api/users').send(body);
+      expect(res.status).toBe(201);
+      expect(res.headers['location']).toBeUndefined();
+      expect(res.body).toHaveLength(50);
+      expect(res.body[49]).toMatchObject({ id: 7049, name: 'Bulk 49' });
+
+      const list = await request(app).get('/api/users?name_startsWith=Bulk%20&pageSize=100');
+      expect(list.body.meta.total).toBe(50);
+    });
+
+    it('POST rejects an empty array and duplicate IDs', async () => {
+      expect((await request(app).post('/api/users').send([])).status).toBe(400);
+      const res = await request(app).post('/api/users').send([{ id: 7100 }, { id: 7100 }]);
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('ID "7100" appears more than once in the batch');
+      expect((await request(app).get('/api/users/7100')).status).toBe(404);
+    });
+
+    it('PATCH with an array merges each partial into the item of its ID', async () => {
+      await request(app).post('/api/users').send([{ id: 7200, name: 'A', email: 'a@example.com' }, { id: 7201, name: 'B' }]);
+      const res = await request(app).patch('/api/users').send([{ id: 7201, name: 'B2' }, { id: 7200, name: 'A2' }]);
+      expect(res.status).toBe(200);
+      expect(res.body.map((u: { name: string }) => u.name)).toEqual(['B2', 'A2']);
+      expect((await request(app).get('/api/users/7200')).body).toMatchObject({ name: 'A2', email: 'a@example.com' });
+    });
+
+    it('PATCH applies nothing when an ID is missing or unknown', async () => {
+      await request(app).post('/api/users').send({ id: 7300, name: 'Kept' });
+
+      const noId = await request(app).patch('/api/users').send([{ id: 7300, name: 'Changed' }, { name: 'No ID' }]);
+      expect(noId.status).toBe(400);
+      const unknown = await request(app).patch('/api/users').send([{ id: 7300, name: 'Changed' }, { id: 7399, name: 'X' }]);
+      expect(unknown.status).toBe(404);
+      expect(unknown.body.message).toContain('7399');
+
+      expect((await request(app).get('/api/users/7300')).body.name).toBe('Kept');
+    });
+
+    it('DELETE with id_in removes every listed item', async () => {
+      await request(app).post('/api/users').send([{ id: 7400 }, { id: 7401 }, { id: 7402 }]);
+      const res = await request(app).delete('/api/users?id_in=7400,7401');
+      expect(res.status).toBe(204);
+      expect((await request(app).get('/api/users/7400')).status).toBe(404);
+      expect((await request(app).get('/api/users/7401')).status).toBe(404);
+      expect((await request(app).get('/api/users/7402')).status).toBe(200);
+    });
+
+    it('DELETE removes nothing when an ID is unknown', async () => {
+      await request(app).post('/api/users').send({ id: 7500 });
+      const res = await request(app).delete('/api/users?id_in=7500,7599');
+      expect(res.status).toBe(404);
+      expect((await request(app).get('/api/users/7500')).status).toBe(200);
+    });
+
+    it('rejects the whole batch when one item fails validation', async () => {
+      const validatingApp = createServer({ ...testConfig, validateBody: true });
+      const res = await request(validatingApp)
+        .post('/api/users')
+        .send([{ id: 7600, name: 'Valid' }, { id: 7601, name: 42 }]);
+      expect(res.status).toBe(422);
+      expect(res.body.errors).toEqual([{ field: '[1].name', message: 'Expected string, got number' }]);
+      expect((await request(validatingApp).get('/api/users/7600')).status).toBe(404);
+    });
+
+    it('documents the batch operations on the collection path', () => {
+      const collection = app.locals.swaggerSpec.paths['/users'];
+      expect(collection.post.requestBody.content['application/json'].schema.oneOf).toHaveLength(2);
+      expect(collection.patch.requestBody.content['application/json'].schema.type).toBe('array');
+      expect(collection.delete.parameters.map((parameter: { name: string }) => parameter.name)).toEqual(['id_in']);
+    });
+
+    it('persists the store once per batch', async () => {
+      const filePath = path.join(os.tmpdir(), `mock-bulk-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
+      try {
+        const persistApp = createServer({ ...testConfig, persistData: filePath });
+        const saveSpy = jest.spyOn(dataPersistence, 'saveMockData');
+        await request(persistApp).post('/api/users').send([{ id: 7700 }, { id: 7701 }, { id: 7702 }]);
+        expect(saveSpy).toHaveBeenCalledTimes(1);
+        saveSpy.mockRestore();
+        expect(JSON.stringify(JSON.parse(fs.readFileSync(filePath, 'utf-8')))).toContain('7702');
+      } finally {
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+      }
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ID strategies
+  // ---------------------------------------------------------------------------
+  describe('ID strategies', () => {
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-id-types-'));
+    fs.writeFileSync(
+      path.join(typesDir, 'models.ts'),
+      `// @endpoint
+// @idStrategy increment
+export interface Invoice {
+  id: number;
+  total: number;
+}
+
+// @endpoint
+// @idStrategy pattern ORD-{seq:5}
+export interface Order {
+  id: string;
+}`
+    );
+    const idApp = createServer({ ...testConfig, typesDir });
+
+    beforeEach(() => {
+      invalidateTypeMap();
+      mockDataStore.clear();
+    });
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('seeds the pool with IDs of the strategy and continues from its largest', async () => {
+      const list = await request(idApp).get('/api/invoices?sort=id:desc&pageSize=1');
+      expect(list.body.data[0].id).toBe(100);
+
+      const created = await request(idApp).post('/api/invoices').send({ total: 5 });
+      expect(created.status).toBe(201);
+      expect(created.body.id).toBe(101);
+      expect(created.headers['location']).toBe('/api/invoices/101');
+
+      const batch = await request(idApp).post('/api/invoices').send([{ total: 1 }, { id: 150, total: 2 }, { total: 3 }]);
+      expect(batch.body.map((invoice: { id: number }) => invoice.id)).toEqual([102, 150, 151]);
+    });
+
+    it('fills custom patterns, whose IDs route to the item', async () => {
+      const res = await request(idApp).post('/api/orders').send({});
+      expect(res.body.id).toBe('ORD-00101');
+      const location = String(res.headers['location']);
+      expect(location).toBe('/api/orders/ORD-00101');
+
+      expect((await request(idApp).get(location)).body.id).toBe('ORD-00101');
+      expect((await request(idApp).patch(location).send({ note: 'x' })).status).toBe(200);
+      expect((await request(idApp).delete(location)).status).toBe(204);
+      expect((await request(idApp).get(location)).status).toBe(404);
+    });
+
+    it('never reuses the ID of a deleted item', async () => {
+      await request(idApp).delete('/api/invoices?id_in=100');
+      const res = await request(idApp).post('/api/invoices').send({ total: 5 });
+      expect(res.body.id).toBe(101);
+    });
+
+    it('returns 409 when a client-supplied ID already exists, without writing', async () => {
+      const res = await request(idApp).post('/api/invoices').send({ id: 7, total: 999 });
+      expect(res.status).toBe(409);
+      expect(res.body).toEqual({ error: 'Conflict', message: 'Invoice with ID "7" already exists' });
+      expect((await request(idApp).get('/api/invoices/7')).body.total).not.toBe(999);
+
+      const batch = await request(idApp).post('/api/invoices').send([{ id: 200 }, { id: 8 }]);
+      expect(batch.status).toBe(409);
+      expect((await request(idApp).get('/api/invoices/200')).status).toBe(404);
+    });
+
+    it('returns 409 on types without a strategy too', async () => {
+      await request(app).post('/api/users').send({ id: 8100, name: 'First' });
+      const res = await request(app).post('/api/users').send({ id: 8100, name: 'Second' });
+      expect(res.status).toBe(409);
+      expect((await request(app).get('/api/users/8100')).body.name).toBe('First');
+    });
+
+    it('documents the 409 response', () => {
+      expect(idApp.locals.swaggerSpec.paths['/invoices'].post.responses['409']).toBeDefined();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Parent-scoped sub-collections
+  // ---------------------------------------------------------------------------
+  describe('Parent-scoped sub-collections /api/users/:id/posts', () => {
+    it('POST stamps the parent ID onto the foreign key', async () => {
+      const res = await request(app).post('/api/users/7/posts').send({ title: 'Scoped' });
+      expect(res.status).toBe(201);
+      expect(res.body.userId).toBe(7);
+    });
+
+    it('the URL parent ID wins over a foreign key in the body', async () => {
+      const res = await request(app).post('/api/users/7/posts').send({ userId: 8 });
+      expect(res.body.userId).toBe(7);
+    });
+
+    it('GET only returns items whose foreign key matches the parent ID', async () => {
+      await request(app).post('/api/users/4242/posts').send({ title: 'Mine' });
+      await request(app).post('/api/users/4243/posts').send({ title: 'Theirs' });
+
+      const res = await request(app).get('/api/users/4242/posts?pageSize=100');
+      expect(res.status).toBe(200);
+      expect(res.body.data.length).toBeGreaterThan(0);
+      expect(res.body.data.every((p: { userId: unknown }) => p.userId === 4242)).toBe(true);
+      expect(res.body.data.map((p: { title: unknown }) => p.title)).not.toContain('Theirs');
+      expect(res.body.meta.total).toBe(res.body.data.length);
+    });
+
+    it('validates sort fields against the items of the parent only', async () => {
+      await request(app).post('/api/users/4244/posts').send({ title: 'Pinned', pinned: true });
+      await request(app).post('/api/users/4245/posts').send({ title: 'Plain' });
+
+      expect((await request(app).get('/api/users/4244/posts?sort=pinned:asc')).status).toBe(200);
+      const res = await request(app).get('/api/users/4245/posts?sort=pinned:asc');
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid sort parameter');
+    });
+
+    it('top-level collection still returns every item', async () => {
+      await request(app).post('/api/users/4242/posts').send({ title: 'Mine' });
+      await request(app).post('/api/users/4243/posts').send({ title: 'Theirs' });
+
+      const res = await request(app).get('/api/posts?pageSize=100');
+      const titles = res.body.data.map((p: { title: unknown }) => p.title);
+      expect(titles).toEqual(expect.arrayContaining(['Mine', 'Theirs']));
+    });
+
+    it('returns the whole pool when the child has no foreign key to the parent', async () => {
+      const scoped = await request(app).get('/api/posts/1/users?pageSize=100');
+      const all = await request(app).get('/api/users?pageSize=100');
+      expect(scoped.body.meta.total).toBe(all.body.meta.total);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Referential integrity
+  // ---------------------------------------------------------------------------
+  describe('Referential integrity', () => {
+    it('seeds foreign keys with IDs present in the referenced pool', async () => {
+      mockDataStore.clear();
+      const seededApp = createServer(testConfig);
+
+      const users = await request(seededApp).get('/api/users?pageSize=100');
+      const posts = await request(seededApp).get('/api/posts?pageSize=100');
+      const userIds = new Set(users.body.data.map((u: { id: unknown }) => String(u.id)));
+
+      expect(posts.body.data.length).toBeGreaterThan(0);
+      for (const post of posts.body.data) {
+        expect(userIds.has(String(post.userId))).toBe(true);
+      }
+    });
+
+    it('parent-scoped collections are populated from the seeded pools', async () => {
+      mockDataStore.clear();
+      const seededApp = createServer(testConfig);
+
+      const posts = await request(seededApp).get('/api/posts?pageSize=100');
+      const userId = posts.body.data[0].userId;
+      const scoped = await request(seededApp).get(`/api/users/${userId}/posts?pageSize=100`);
+
+      expect(scoped.body.data.length).toBeGreaterThan(0);
+    });
+
+    it('cascades deletes when onDelete is "cascade"', async () => {
+      const cascadeApp = createServer({ ...testConfig, onDelete: 'cascade' });
+      await request(cascadeApp).put('/api/users/500').send({ name: 'Parent' });
+      const child = await request(cascadeApp).post('/api/users/500/posts').send({ title: 'Child' });
+
+      await request(cascadeApp).delete('/api/users/500');
+
+      const res = await request(cascadeApp).get(`/api/posts/${child.body.id}`);
+      expect(res.status).toBe(404);
+    });
+
+    it('nulls out references when onDelete is "nullify"', async () => {
+      const nullifyApp = createServer({ ...testConfig, onDelete: 'nullify' });
+      await request(nullifyApp).put('/api/users/501').send({ name: 'Parent' });
+      const child = await request(nullifyApp).post('/api/users/501/posts').send({ title: 'Child' });
+
+      await request(nullifyApp).delete('/api/users/501');
+
+      const res = await request(nullifyApp).get(`/api/posts/${child.body.id}`);
+      expect(res.status).toBe(200);
+      expect(res.body.userId).toBeNull();
+    });
+
+    it('leaves references untouched by default', async () => {
+      await request(app).put('/api/users/502').send({ name: 'Parent' });
+      const child = await request(app).post('/api/users/502/posts').send({ title: 'Child' });
+
+      await request(app).delete('/api/users/502');
+
+      const res = await request(app).get(`/api/posts/${child.body.id}`);
+      expect(res.status).toBe(200);
+      expect(res.body.userId).toBe(502);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ?expand / ?include
+  // ---------------------------------------------------------------------------
+  describe('?expand / ?include', () => {
+    it('embeds the referenced object on list items', async () => {
+      await request(app).put('/api/users/900').send({ name: 'Author' });
+      await request(app).post('/api/users/900/posts').send({ title: 'Expanded' });
+
+      const res = await request(app).get('/api/users/900/posts?expand=user');
+      expect(res.status).toBe(200);
+      expect(res.body.data[0].user).toMatchObject({ name: 'Author' });
+      expect(res.body.data[0].userId).toBe(900);
+    });
+
+    it('embeds to-many relations on a single item via include', async () => {
+      await request(app).put('/api/users/901').send({ name: 'Author' });
+      await request(app).post('/api/users/901/posts').send({ title: 'One' });
+      await request(app).post('/api/users/901/posts').send({ title: 'Two' });
+
+      const res = await request(app).get('/api/users/901?include=posts');
+      expect(res.status).toBe(200);
+      expect(res.body.posts.map((p: { title: unknown }) => p.title).sort()).toEqual(['One', 'Two']);
+    });
+
+    it('embeds null when the referenced item does not exist', async () => {
+      await request(app).put('/api/posts/902').send({ userId: 123456789 });
+      const res = await request(app).get('/api/posts/902?expand=user');
+      expect(res.status).toBe(200);
+      expect(res.body.user).toBeNull();
+    });
+
+    it('returns 400 for an unknown relation', async () => {
+      const res = await request(app).get('/api/posts?expand=author');
+      expect(res.status).toBe(400);
+      expect(res.body.message).toMatch(/author/);
+      expect(res.body.message).toMatch(/user/);
+    });
+
+    it('is not treated as a field filter', async () => {
+      const all = await request(app).get('/api/posts');
+      const expanded = await request(app).get('/api/posts?include=user');
+      expect(expanded.body.meta.total).toBe(all.body.meta.total);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // ?fields
+  // ---------------------------------------------------------------------------
+  describe('?fields', () => {
+    it('returns only the selected fields of list items', async () => {
+      const res = await request(app).get('/api/users?fields=id,name');
+      expect(res.status).toBe(200);
+      expect(res.body.meta.total).toBe(100);
+      res.body.data.forEach((user: Record<string, unknown>) => expect(Object.keys(user).sort()).toEqual(['id', 'name']));
+    });
+
+    it('projects single items, embedded relations included', async () => {
+      await request(app).put('/api/users/910').send({ name: 'Author', email: 'author@example.com' });
+      await request(app).put('/api/posts/911').send({ userId: 910, title: 'Sparse', body: 'Text' });
+
+      const res = await request(app).get('/api/posts/911?expand=user&fields=title,user.name');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ title: 'Sparse', user: { name: 'Author' } });
+    });
+
+    it('returns 400 for an unknown field', async () => {
+      const res = await request(app).get('/api/users?fields=id,nickname');
+      expect(res.status).toBe(400);
+      expect(res.body).toEqual({
+        error: 'Invalid fields parameter',
+        message: 'Cannot select unknown field "nickname". Allowed fields: age, email, id, name',
+      });
+
+      const single = await request(app).get('/api/posts/911?fields=user.name');
+      expect(single.status).toBe(400);
+    });
+
+    it('documents the fields parameter on list and single-item GETs', () => {
+      for (const path of ['/users', '/users/{id}']) {
+        const names = app.locals.swaggerSpec.paths[path].get.parameters.map((parameter: { name?: string }) => parameter.name);
+        expect(names).toContain('fields');
+      }
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // /_aggregate
+  // ---------------------------------------------------------------------------
+  describe('GET /api/users/_aggregate', () => {
+    it('counts and sums the filtered items, by group', async () => {
+      const all = await request(app).get('/api/users?pageSize=100');
+      const users = all.body.data as Array<{ id: number; name: string; age?: number }>;
+      const ages = users.map((user) => user.age).filter((age): age is number => typeof age === 'number');
+
+      const res = await request(app).get('/api/users/_aggregate?sum=age&max=age&groupBy=name');
+      expect(res.status).toBe(200);
+      expect(res.body.count).toBe(100);
+      expect(res.body.sum).toEqual({ age: ages.reduce((total, age) => total + age, 0) });
+      expect(res.body.max).toEqual({ age: Math.max(...ages) });
+      const groupCounts = res.body.groups.map((group: { count: number }) => group.count);
+      expect(groupCounts.reduce((total: number, count: number) => total + count, 0)).toBe(100);
+
+      const filtered = await request(app).get('/api/users/_aggregate').query({ id_in: `${users[0]!.id},${users[1]!.id}` });
+      expect(filtered.body).toEqual({ count: 2 });
+    });
+
+    it('aggregates the children of a parent and reflects writes', async () => {
+      await request(app).put('/api/users/920').send({ name: 'Author' });
+      await request(app).post('/api/users/920/posts').send({ title: 'One' });
+      await request(app).post('/api/users/920/posts').send({ title: 'Two' });
+
+      const list = await request(app).get('/api/users/920/posts');
+      const res = await request(app).get('/api/users/920/posts/_aggregate?facets=title');
+      expect(res.status).toBe(200);
+      expect(res.body.count).toBe(list.body.meta.total);
+      expect(res.body.facets.title).toEqual(
+        expect.arrayContaining([{ value: 'One', count: 1 }, { value: 'Two', count: 1 }])
+      );
+    });
+
+    it('validates the aggregated fields against the children of the parent only', async () => {
+      await request(app).post('/api/users/4246/posts').send({ title: 'Pinned', pinned: true });
+      await request(app).post('/api/users/4247/posts').send({ title: 'Plain' });
+
+      const own = await request(app).get('/api/users/4246/posts/_aggregate?groupBy=pinned');
+      expect(own.status).toBe(200);
+      expect(own.body.groups).toEqual([{ key: { pinned: true }, count: 1 }]);
+
+      const res = await request(app).get('/api/users/4247/posts/_aggregate?groupBy=pinned');
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid aggregate parameter');
+    });
+
+    it('rejects unknown fields and write methods', async () => {
+      const res = await request(app).get('/api/users/_aggregate?groupBy=nickname');
+      expect(res.status).toBe(400);
+      expect(res.body.error).toBe('Invalid aggregate parameter');
+
+      const post = await request(app).post('/api/users/_aggregate').send({});
+      expect(post.status).toBe(405);
+      expect(post.headers['allow']).toBe('GET');
+    });
+
+    it('is documented with its parameters', () => {
+      const operation = app.locals.swaggerSpec.paths['/users/_aggregate'].get;
+      const names = operation.parameters.map((parameter: { name?: string }) => parameter.name);
+      expect(names).toEqual(expect.arrayContaining(['groupBy', 'facets', 'sum', 'avg', 'min', 'max', 'name_ne', 'q']));
+      expect(operation.responses['200'].content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/AggregateResponse',
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Nested single-item routes
+  // ---------------------------------------------------------------------------
+  describe('Nested single-item routes /api/users/:id/posts/:postId', () => {
+    it('GET returns a pool item of the parent by ID', async () => {
+      const listRes = await request(app).get('/api/posts');
+      const { id: postId, userId } = listRes.body.data[0];
+
+      const res = await request(app).get(`/api/users/${userId}/posts/${postId}`);
+      expect(res.status).toBe(200);
+      expect(res.body.id).toBe(postId);
+    });
+
+    it('answers 404 for an item of another parent, without changing it', async () => {
+      await request(app).put('/api/users/2/posts/322').send({ title: 'Theirs' });
+
+      const get = await request(app).get('/api/users/1/posts/322');
+      expect(get.status).toBe(404);
+      expect(get.body.message).toBe('Post 322 does not belong to User 1');
+      expect((await request(app).put('/api/users/1/posts/322').send({ title: 'Mine' })).status).toBe(404);
+      expect((await request(app).patch('/api/users/1/posts/322').send({ title: 'Mine' })).status).toBe(404);
+      expect((await request(app).delete('/api/users/1/posts/322')).status).toBe(404);
+
+      const own = await request(app).get('/api/users/2/posts/322');
+      expect(own.status).toBe(200);
+      expect(own.body).toMatchObject({ title: 'Theirs', userId: 2 });
+    });
+
+    it('GET returns 404 for an unknown ID', async () => {
+      const res = await request(app).get('/api/users/1/posts/00000000-0000-0000-0000-000000000000');
+      expect(res.status).toBe(404);
+    });
+
+    it('PUT → PATCH → GET → DELETE behave like the top-level handlers', async () => {
+      const put = await request(app)
+        .put('/api/users/1/posts/321')
+        .send({ title: 'Nested', body: 'Hello' });
+      expect(put.status).toBe(200);
+      expect(String(put.body.id)).toBe('321');
+
+      const patch = await request(app).patch('/api/users/1/posts/321').send({ title: 'Patched' });
+      expect(patch.status).toBe(200);
+      expect(patch.body.title).toBe('Patched');
+      expect(patch.body.body).toBe('Hello');
+
+      const get = await request(app).get('/api/users/1/posts/321');
+      expect(get.status).toBe(200);
+      expect(get.body.title).toBe('Patched');
+
+      const topLevel = await request(app).get('/api/posts/321');
+      expect(topLevel.body.title).toBe('Patched');
+
+      const del = await request(app).delete('/api/users/1/posts/321');
+      expect(del.status).toBe(204);
+
+      const after = await request(app).get('/api/users/1/posts/321');
+      expect(after.status).toBe(404);
+    });
+
+    it('supports deeper nesting', async () => {
+      await request(app).put('/api/posts/654').send({ title: 'Deep', userId: 3 });
+      const res = await request(app).get('/api/users/1/posts/2/users/3/posts/654');
+      expect(res.status).toBe(200);
+      expect(res.body.title).toBe('Deep');
+    });
+
+    it('returns 405 when POST is sent to a nested single-resource URL', async () => {
+      const res = await request(app).post('/api/users/1/posts/5');
+      expect(res.status).toBe(405);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Full CRUD cycle
   // ---------------------------------------------------------------------------
@@ -354,6 +1150,552 @@ describe('Server integration', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Request body validation
+  // ---------------------------------------------------------------------------
+  describe('Request body validation', () => {
+    const validatingApp = createServer({ ...testConfig, validateBody: true });
+
+    it('is disabled by default in dev mode', async () => {
+      const res = await request(app).post('/api/users').send({ emial: 'x@example.com' });
+      expect(res.status).toBe(201);
+    });
+
+    it('rejects unknown fields and wrong types with 422 and per-field errors', async () => {
+      const res = await request(validatingApp)
+        .post('/api/users')
+        .send({ name: 42, emial: 'x@example.com' });
+      expect(res.status).toBe(422);
+      expect(res.body.error).toBe('Validation failed');
+      expect(res.body.errors).toEqual(
+        expect.arrayContaining([
+          { field: 'emial', message: expect.stringContaining('Unknown field') },
+          { field: 'name', message: 'Expected string, got number' },
+        ])
+      );
+    });
+
+    it('does not store rejected bodies', async () => {
+      await request(validatingApp).patch('/api/users/555').send({ age: 'old' });
+      const res = await request(validatingApp).get('/api/users/555');
+      expect(res.status).toBe(404);
+    });
+
+    it('accepts partial bodies on POST and PATCH', async () => {
+      const post = await request(validatingApp).post('/api/users').send({ name: 'Alice' });
+      expect(post.status).toBe(201);
+
+      const patch = await request(validatingApp).patch('/api/users/42').send({ age: 30 });
+      expect(patch.status).toBe(200);
+    });
+
+    it('requires non-optional fields on PUT', async () => {
+      const res = await request(validatingApp).put('/api/users/42').send({ name: 'Alice' });
+      expect(res.status).toBe(422);
+      expect(res.body.errors).toEqual([{ field: 'email', message: 'Missing required field "email"' }]);
+
+      const ok = await request(validatingApp)
+        .put('/api/users/42')
+        .send({ name: 'Alice', email: 'alice@example.com' });
+      expect(ok.status).toBe(200);
+    });
+
+    it('is enabled by default in strict mode and can be turned off', async () => {
+      const strictApp = createServer({ ...testConfig, mockMode: 'strict' });
+      const rejected = await request(strictApp).post('/api/users').send({ emial: 'x@example.com' });
+      expect(rejected.status).toBe(422);
+
+      const lenientApp = createServer({ ...testConfig, mockMode: 'strict', validateBody: false });
+      const accepted = await request(lenientApp).post('/api/users').send({ emial: 'x@example.com' });
+      expect(accepted.status).toBe(201);
+    });
+
+    it('documents the 422 response in the OpenAPI spec', () => {
+      const spec = validatingApp.locals.swaggerSpec;
+      expect(spec.paths['/users'].post.responses['422']).toBeDefined();
+      expect(spec.components.schemas.ValidationErrorResponse).toBeDefined();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Type aliases, extends and utility types
+  // ---------------------------------------------------------------------------
+  describe('Type aliases, extends and utility types', () => {
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-derived-types-'));
+    fs.writeFileSync(
+      path.join(typesDir, 'models.ts'),
+      `export interface Entity {
+  id: number;
+}
+
+// @endpoint
+export interface Member extends Entity {
+  name: string;
+}
+
+// @endpoint
+export type Badge = Pick<Member, 'id'> & { label: string };`
+    );
+    const derivedApp = createServer({ ...testConfig, typesDir });
+
+    beforeEach(() => invalidateTypeMap());
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('serves endpoints for interfaces with extends and for type aliases', async () => {
+      const members = await request(derivedApp).get('/api/members');
+      expect(members.status).toBe(200);
+      expect(Object.keys(members.body.data[0])).toEqual(['id', 'name']);
+
+      const badges = await request(derivedApp).get('/api/badges');
+      expect(badges.status).toBe(200);
+      expect(Object.keys(badges.body.data[0])).toEqual(['id', 'label']);
+    });
+
+    it('documents resolved properties in the OpenAPI spec', () => {
+      const schemas = derivedApp.locals.swaggerSpec.components.schemas;
+      expect(Object.keys(schemas.Member.properties)).toEqual(['id', 'name']);
+      expect(Object.keys(schemas.Badge.properties)).toEqual(['id', 'label']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Types imported from other files
+  // ---------------------------------------------------------------------------
+  describe('Types imported from other files', () => {
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-imported-types-'));
+    fs.mkdirSync(path.join(typesDir, 'shared'));
+    fs.writeFileSync(
+      path.join(typesDir, 'shared', 'address.ts'),
+      `export interface Address {
+  city: string;
+  country: string;
+}`
+    );
+    fs.writeFileSync(
+      path.join(typesDir, 'customer.ts'),
+      `import { Address } from './shared/address';
+
+// @endpoint
+export interface Customer {
+  id: number;
+  billing: Address;
+  deliveries: Address[];
+}`
+    );
+    const importingApp = createServer({ ...testConfig, typesDir });
+
+    beforeEach(() => invalidateTypeMap());
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('mocks the imported nested object', async () => {
+      const res = await request(importingApp).get('/api/customers');
+      expect(res.status).toBe(200);
+      expect(Object.keys(res.body.data[0].billing)).toEqual(['city', 'country']);
+    });
+
+    it('documents imported types as $ref components', () => {
+      const { schemas } = importingApp.locals.swaggerSpec.components;
+      expect(schemas.Customer.properties.billing).toEqual({ $ref: '#/components/schemas/Address' });
+      expect(schemas.Customer.properties.deliveries).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/Address' },
+      });
+      expect(Object.keys(schemas.Address.properties)).toEqual(['city', 'country']);
+    });
+
+    it('produces an OpenAPI 3.1 document with required arrays', () => {
+      const spec = importingApp.locals.swaggerSpec;
+      expect(spec.openapi).toBe('3.1.0');
+      expect(spec.components.schemas.Customer.required).toEqual(['id', 'billing', 'deliveries']);
+      expect(spec.components.schemas.CustomerPartial.required).toBeUndefined();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Cursor pagination
+  // ---------------------------------------------------------------------------
+  describe('Cursor pagination', () => {
+    const typesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-cursor-types-'));
+    fs.writeFileSync(
+      path.join(typesDir, 'models.ts'),
+      `// @endpoint
+// @pagination cursor
+export interface Event {
+  id: number;
+  title: string;
+}
+
+// @endpoint
+export interface Venue {
+  id: number;
+  name: string;
+}`
+    );
+    const cursorApp = createServer({ ...testConfig, typesDir });
+
+    beforeEach(() => {
+      invalidateTypeMap();
+      mockDataStore.clear();
+    });
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(typesDir, { recursive: true, force: true });
+    });
+
+    it('pages @pagination cursor types with nextCursor, across inserts and deletes', async () => {
+      const first = await request(cursorApp).get('/api/events?limit=40');
+      expect(first.status).toBe(200);
+      expect(first.body.meta).toMatchObject({ total: 100, limit: 40, prevCursor: null });
+      expect(first.body.meta).not.toHaveProperty('page');
+
+      const all = await request(cursorApp).get('/api/events?limit=100');
+      const originalIds: unknown[] = all.body.data.map((event: { id: unknown }) => event.id);
+
+      // A deleted item of the first page and a new item must not shift the next page
+      await request(cursorApp).delete(`/api/events/${first.body.data[0].id}`);
+      await request(cursorApp).post('/api/events').send({ title: 'Launch' });
+
+      const seen: unknown[] = first.body.data.map((event: { id: unknown }) => event.id);
+      let cursor: string | null = first.body.meta.nextCursor;
+      while (cursor) {
+        const page = await request(cursorApp).get('/api/events').query({ limit: 40, cursor });
+        expect(page.status).toBe(200);
+        seen.push(...page.body.data.map((event: { id: unknown }) => event.id));
+        cursor = page.body.meta.nextCursor;
+      }
+      // Every item is seen once; the new one only if its ID sorts after the first page
+      expect(seen).toHaveLength(new Set(seen).size);
+      expect(seen).toEqual(expect.arrayContaining(originalIds));
+    });
+
+    it('returns 400 for a malformed cursor', async () => {
+      const res = await request(cursorApp).get('/api/events?cursor=garbage');
+      expect(res.status).toBe(400);
+      expect(res.body.message).toBe('"cursor" is invalid');
+    });
+
+    it('keeps offset pagination for other types unless configured', async () => {
+      const offset = await request(cursorApp).get('/api/venues');
+      expect(offset.body.meta).toHaveProperty('page', 1);
+
+      const cursorByDefault = createServer({ ...testConfig, typesDir, pagination: 'cursor' });
+      const res = await request(cursorByDefault).get('/api/venues?limit=5');
+      expect(res.body.data).toHaveLength(5);
+      expect(res.body.meta).toHaveProperty('nextCursor');
+    });
+
+    it('documents cursor and limit parameters for cursor-paginated types', () => {
+      const spec = cursorApp.locals.swaggerSpec;
+      const parameters = spec.paths['/events'].get.parameters.map((parameter: { $ref?: string }) => parameter.$ref);
+      expect(parameters).toEqual(expect.arrayContaining(['#/components/parameters/cursor', '#/components/parameters/limit']));
+      expect(parameters).not.toContain('#/components/parameters/page');
+      expect(spec.paths['/events'].get.responses['200'].content['application/json'].schema.properties.meta).toEqual({
+        $ref: '#/components/schemas/CursorPaginationMeta',
+      });
+      expect(spec.paths['/venues'].get.parameters[0]).toEqual({ $ref: '#/components/parameters/page' });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Response envelopes
+  // ---------------------------------------------------------------------------
+  describe('Response envelopes', () => {
+    it('returns bare arrays with X-Total-Count and Link headers', async () => {
+      const bareApp = createServer({ ...testConfig, envelope: 'bare' });
+      const res = await request(bareApp).get('/api/users?pageSize=10&page=2');
+      expect(res.status).toBe(200);
+      expect(Array.isArray(res.body)).toBe(true);
+      expect(res.body).toHaveLength(10);
+      expect(res.headers['x-total-count']).toBe('100');
+      expect(res.headers['link']).toContain('page=3>; rel="next"');
+      expect(res.headers['link']).toContain('page=10>; rel="last"');
+    });
+
+    it('applies custom templates and documents them in the OpenAPI spec', async () => {
+      const templateApp = createServer({
+        ...testConfig,
+        envelope: { body: { items: '$data', count: '$total', next: '$links.next' } },
+      });
+      const res = await request(templateApp).get('/api/users?pageSize=5');
+      expect(Object.keys(res.body)).toEqual(['items', 'count', 'next']);
+      expect(res.body.items).toHaveLength(5);
+      expect(res.body.count).toBe(100);
+      expect(res.body.next).toMatch(/\/api\/users\?pageSize=5&page=2$/);
+
+      const schema = templateApp.locals.swaggerSpec.paths['/users'].get.responses['200'].content['application/json'].schema;
+      expect(Object.keys(schema.properties)).toEqual(['items', 'count', 'next']);
+      expect(schema.properties.items.items).toEqual({ $ref: '#/components/schemas/User' });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // OpenAPI document as source
+  // ---------------------------------------------------------------------------
+  describe('OpenAPI document as source', () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-openapi-source-'));
+    const specPath = path.join(workDir, 'petstore.yaml');
+    fs.writeFileSync(
+      specPath,
+      `openapi: 3.0.3
+info: { title: Petstore, version: 1.0.0 }
+paths:
+  /pets:
+    get:
+      responses:
+        '200':
+          content:
+            application/json:
+              schema: { type: array, items: { $ref: '#/components/schemas/Pet' } }
+  /pets/{petId}:
+    get:
+      responses:
+        '200':
+          content:
+            application/json:
+              schema: { $ref: '#/components/schemas/Pet' }
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id, name, status]
+      properties:
+        id: { type: integer }
+        name: { type: string, minLength: 3 }
+        status: { type: string, enum: [available, sold] }
+`
+    );
+    const typesDir = writeOpenAPITypes(specPath, path.join(workDir, 'types'));
+    const openapiApp = createServer({ ...testConfig, typesDir, openapi: specPath, validateBody: true });
+
+    beforeEach(() => invalidateTypeMap());
+
+    afterAll(() => {
+      invalidateTypeMap();
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('serves paginated, filterable collections from the document', async () => {
+      const res = await request(openapiApp).get('/api/pets?status=sold&pageSize=5');
+      expect(res.status).toBe(200);
+      expect(res.body.meta.pageSize).toBe(5);
+      for (const pet of res.body.data) {
+        expect(pet.status).toBe('sold');
+        expect(pet.name.length).toBeGreaterThanOrEqual(3);
+      }
+    });
+
+    it('supports the same write operations and body validation', async () => {
+      const created = await request(openapiApp).post('/api/pets').send({ name: 'Rex', status: 'available' });
+      expect(created.status).toBe(201);
+      const fetched = await request(openapiApp).get(`/api/pets/${created.body.id}`);
+      expect(fetched.body.name).toBe('Rex');
+
+      const invalid = await request(openapiApp).post('/api/pets').send({ status: 'lost' });
+      expect(invalid.status).toBe(422);
+    });
+
+    it('documents the endpoints in /api-docs and exports them as YAML', () => {
+      const spec = openapiApp.locals.swaggerSpec;
+      expect(spec.paths['/pets']).toBeDefined();
+      expect(spec.components.schemas.Pet.required).toEqual(['id', 'name', 'status']);
+      expect(yaml.load(serializeOpenAPISpec(spec, 'yaml'))).toEqual(JSON.parse(JSON.stringify(spec)));
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Proxy mode: record & replay
+  // ---------------------------------------------------------------------------
+  describe('Proxy mode: record & replay', () => {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-proxy-'));
+    const typesDir = path.join(workDir, 'types');
+    const recordingsDir = path.join(workDir, 'recordings');
+    fs.mkdirSync(typesDir);
+    fs.writeFileSync(
+      path.join(typesDir, 'models.ts'),
+      `// @endpoint
+export interface Book {
+  id: number;
+  title: string;
+}
+
+/** @passthrough */
+// @endpoint
+export interface Account {
+  id: number;
+  owner: string;
+}
+
+/** @source hybrid */
+// @endpoint
+export interface Review {
+  id: number;
+  rating: number;
+}`
+    );
+
+    // Stand-in for the real backend, recording the requests it receives
+    const received: { method: string; url: string; body: unknown }[] = [];
+    const upstream = express();
+    upstream.use(express.json());
+    upstream.all('*', (req, res) => {
+      received.push({ method: req.method, url: req.originalUrl, body: req.body });
+      if (req.path === '/api/status') {
+        res.set('x-upstream', 'yes').json({ ok: true, query: req.query });
+      } else if (req.path.startsWith('/api/accounts/')) {
+        res.json({ id: Number(req.path.split('/').pop()), owner: 'upstream' });
+      } else if (req.path === '/api/reviews' && req.method === 'GET') {
+        res.json({ items: [{ id: 1, rating: 5 }, { id: '2', stars: 4 }], total: 2 });
+      } else if (req.path === '/api/books/1') {
+        res.json({ id: 1, title: 'From upstream' });
+      } else if (req.method === 'POST') {
+        res.status(201).json({ created: req.body });
+      } else {
+        res.status(404).type('text').send('upstream 404');
+      }
+    });
+
+    let server: Server;
+    let upstreamUrl: string;
+    let proxyApp: ReturnType<typeof createServer>;
+
+    beforeAll((done) => {
+      server = upstream.listen(0, () => {
+        upstreamUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        proxyApp = createServer({ ...testConfig, typesDir, proxy: upstreamUrl, recordingsDir });
+        done();
+      });
+    });
+
+    beforeEach(() => {
+      invalidateTypeMap();
+      received.length = 0;
+    });
+
+    afterAll((done) => {
+      invalidateTypeMap();
+      fs.rmSync(workDir, { recursive: true, force: true });
+      server.close(() => done());
+    });
+
+    it('forwards unmatched routes to the upstream and records the responses', async () => {
+      const res = await request(proxyApp).get('/api/status?b=2&a=1');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ ok: true, query: { a: '1', b: '2' } });
+      expect(res.headers['x-upstream']).toBe('yes');
+      expect(res.headers['x-mock-source']).toBe('proxy');
+
+      const recording = JSON.parse(fs.readFileSync(recordingPath(recordingsDir, 'GET', '/api/status?a=1&b=2'), 'utf-8'));
+      expect(recording.response).toMatchObject({ status: 200, encoding: 'json', body: { ok: true } });
+    });
+
+    it('keeps mocking @endpoint types and forwards @passthrough ones', async () => {
+      const books = await request(proxyApp).get('/api/books');
+      expect(books.status).toBe(200);
+      expect(books.body.data.length).toBeGreaterThan(0);
+
+      const account = await request(proxyApp).get('/api/accounts/7');
+      expect(account.body).toEqual({ id: 7, owner: 'upstream' });
+      expect(received.map((r) => r.url)).toEqual(['/api/accounts/7']);
+    });
+
+    it('forwards request bodies and upstream errors unchanged', async () => {
+      const created = await request(proxyApp).post('/api/orders').send({ sku: 'A-1', quantity: 2 });
+      expect(created.status).toBe(201);
+      expect(received[0]!.body).toEqual({ sku: 'A-1', quantity: 2 });
+
+      const missing = await request(proxyApp).get('/api/unknown');
+      expect(missing.status).toBe(404);
+      expect(missing.text).toBe('upstream 404');
+    });
+
+    it('replays the recordings without reaching the upstream', async () => {
+      await request(proxyApp).get('/api/status?a=1&b=2');
+      received.length = 0;
+
+      const replayApp = createServer({ ...testConfig, typesDir, replay: true, recordingsDir });
+      const res = await request(replayApp).get('/api/status?b=2&a=1');
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ ok: true, query: { a: '1', b: '2' } });
+      expect(res.headers['x-mock-source']).toBe('replay');
+
+      const missing = await request(replayApp).get('/api/never-recorded');
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('Recording not found');
+      expect(received).toHaveLength(0);
+    });
+
+    it('forwards reads of hybrid types and mocks their writes', async () => {
+      const list = await request(proxyApp).get('/api/reviews');
+      expect(list.body.items).toHaveLength(2);
+      expect(list.headers['x-mock-source']).toBe('proxy');
+
+      const created = await request(proxyApp).post('/api/reviews').send({ rating: 3 });
+      expect(created.status).toBe(201);
+      expect(created.headers['x-mock-source']).toBeUndefined();
+      expect(received.map((r) => `${r.method} ${r.url}`)).toEqual(['GET /api/reviews']);
+    });
+
+    it('lets config sources override the @source tags', async () => {
+      const app = createServer({
+        ...testConfig,
+        typesDir,
+        proxy: upstreamUrl,
+        recordingsDir,
+        sources: { Book: 'proxy', Review: 'mock' },
+      });
+
+      const book = await request(app).get('/api/books/1');
+      expect(book.body).toEqual({ id: 1, title: 'From upstream' });
+      const reviews = await request(app).get('/api/reviews');
+      expect(reviews.body.meta).toBeDefined();
+      expect(received.map((r) => r.url)).toEqual(['/api/books/1']);
+    });
+
+    it('logs drift between proxied responses and the interface with validateProxy', async () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+      try {
+        const app = createServer({
+          ...testConfig,
+          typesDir,
+          proxy: upstreamUrl,
+          recordingsDir,
+          validateProxy: true,
+        });
+
+        await request(app).get('/api/accounts/3');
+        expect(warn).not.toHaveBeenCalled();
+
+        const res = await request(app).get('/api/reviews');
+        expect(res.status).toBe(200);
+        expect(warn).toHaveBeenCalledTimes(1);
+        const message = warn.mock.calls[0]![0];
+        expect(message).toContain('Contract drift: GET /api/reviews does not match Review');
+        expect(message).toContain('[1].stars: Unknown field "stars" is not declared on Review');
+        expect(message).toContain('[1].id: Expected number, got string');
+        expect(message).toContain('[1].rating: Missing required field "rating"');
+        expect(message).not.toContain('[0]');
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('answers 502 when the upstream is unreachable', async () => {
+      const offlineApp = createServer({ ...testConfig, typesDir, proxy: 'http://127.0.0.1:1', recordingsDir });
+      const res = await request(offlineApp).get('/api/status');
+      expect(res.status).toBe(502);
+      expect(res.body.error).toBe('Bad Gateway');
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // mockMode: strict
   // ---------------------------------------------------------------------------
@@ -434,6 +1776,13 @@ describe('Server integration', () => {
       const res = await request(readOnlyApp).delete('/api/users/1');
       expect(res.status).toBe(405);
     });
+
+    it('returns 405 for bulk PATCH and DELETE when disabled', async () => {
+      const patch = await request(readOnlyApp).patch('/api/users').send([{ id: 1, name: 'X' }]);
+      expect(patch.status).toBe(405);
+      expect(patch.headers['allow']).toBe('GET');
+      expect((await request(readOnlyApp).delete('/api/users?id_in=1')).status).toBe(405);
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -482,6 +1831,58 @@ describe('Server integration', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // seed — deterministic generation
+  // ---------------------------------------------------------------------------
+  describe('seed', () => {
+    const seededConfig: ServerConfig = { ...testConfig, seed: 1234 };
+
+    afterEach(() => {
+      invalidateTypeMap();
+      mockDataStore.clear();
+    });
+
+    it('seeds identical pools across restarts', async () => {
+      mockDataStore.clear();
+      const first = await request(createServer(seededConfig)).get('/api/users?pageSize=100');
+
+      mockDataStore.clear();
+      const second = await request(createServer(seededConfig)).get('/api/users?pageSize=100');
+
+      expect(first.status).toBe(200);
+      expect(second.body.data).toEqual(first.body.data);
+    });
+
+    it('replays identical POST fillers across restarts', async () => {
+      mockDataStore.clear();
+      const firstApp = createServer(seededConfig);
+      const first = [
+        await request(firstApp).post('/api/users').send({ name: 'Seeded' }),
+        await request(firstApp).post('/api/users').send({ name: 'Seeded' }),
+      ];
+
+      mockDataStore.clear();
+      const secondApp = createServer(seededConfig);
+      const second = [
+        await request(secondApp).post('/api/users').send({ name: 'Seeded' }),
+        await request(secondApp).post('/api/users').send({ name: 'Seeded' }),
+      ];
+
+      expect(second.map((r) => r.body)).toEqual(first.map((r) => r.body));
+      expect(first[0]!.body.id).not.toEqual(first[1]!.body.id);
+    });
+
+    it('seeds different pools for different seeds', async () => {
+      mockDataStore.clear();
+      const first = await request(createServer(seededConfig)).get('/api/users?pageSize=100');
+
+      mockDataStore.clear();
+      const second = await request(createServer({ ...seededConfig, seed: 4321 })).get('/api/users?pageSize=100');
+
+      expect(second.body.data).not.toEqual(first.body.data);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // persistData — JSON persistence
   // ---------------------------------------------------------------------------
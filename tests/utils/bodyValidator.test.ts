@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateRequestBody } from '../../src/utils/bodyValidator';
+
+describe('bodyValidator', () => {
+  const testDir = path.join(__dirname, 'test-files-body');
+  const testFile = path.join(testDir, 'body.ts');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      testFile,
+      `export enum Role {
+  Admin = 'admin',
+  Member = 'member',
+}
+
+export type Status = 'active' | 'inactive';
+
+export interface Address {
+  city: string;
+  zip?: string;
+}
+
+export interface GeoAddress extends Address {
+  lat: number;
+}
+
+export type Audited = { createdBy: string } & { updatedBy?: string };
+
+export interface Account {
+  id: number;
+  /** @minLength 2 */
+  name: string;
+  email: string;
+  /** @min 18 */
+  age?: number;
+  active: boolean;
+  role: Role;
+  status: Status;
+  tags: string[];
+  address?: Address;
+  nickname: string | null;
+  createdAt?: Date;
+  location?: GeoAddress | null;
+  audit?: Audited;
+  range?: [number, number];
+}`
+    );
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const validBody = {
+    name: 'Alice',
+    email: 'alice@example.com',
+    active: true,
+    role: 'admin',
+    status: 'active',
+    tags: ['a', 'b'],
+    nickname: null,
+  };
+
+  it('accepts a valid body', () => {
+    expect(validateRequestBody(testFile, 'Account', validBody, 'replace')).toEqual([]);
+  });
+
+  it('reports unknown fields', () => {
+    const errors = validateRequestBody(testFile, 'Account', { emial: 'x@y.z' }, 'patch');
+    expect(errors).toEqual([{ field: 'emial', message: expect.stringContaining('Unknown field') }]);
+  });
+
+  it('reports type mismatches per field', () => {
+    const errors = validateRequestBody(
+      testFile,
+      'Account',
+      { name: 42, active: 'yes', tags: ['ok', 3] },
+      'patch'
+    );
+    expect(errors.map((e) => e.field)).toEqual(['name', 'active', 'tags']);
+    expect(errors[0]!.message).toBe('Expected string, got number');
+  });
+
+  it('checks enums, literal unions and nullable fields', () => {
+    expect(validateRequestBody(testFile, 'Account', { role: 'member', status: 'inactive' }, 'patch')).toEqual([]);
+
+    const errors = validateRequestBody(
+      testFile,
+      'Account',
+      { role: 'owner', status: 'deleted', email: null },
+      'patch'
+    );
+    expect(errors.map((e) => e.field)).toEqual(['email', 'role', 'status']);
+  });
+
+  it('checks nested interfaces and dates', () => {
+    expect(
+      validateRequestBody(testFile, 'Account', { address: { city: 'Paris' }, createdAt: '2024-01-01' }, 'patch')
+    ).toEqual([]);
+
+    const errors = validateRequestBody(
+      testFile,
+      'Account',
+      { address: { zip: '75001' }, createdAt: 'not a date' },
+      'patch'
+    );
+    expect(errors.map((e) => e.field)).toEqual(['address.city', 'createdAt']);
+  });
+
+  it('reports unknown and wrongly typed fields of nested objects on their path', () => {
+    const errors = validateRequestBody(testFile, 'Account', { address: { city: 'Paris', bogus: 1 } }, 'patch');
+    expect(errors).toEqual([
+      { field: 'address.bogus', message: 'Unknown field "address.bogus" is not declared on Address' },
+    ]);
+
+    expect(validateRequestBody(testFile, 'Account', { address: { city: 5 } }, 'patch')).toEqual([
+      { field: 'address.city', message: 'Expected string, got number' },
+    ]);
+  });
+
+  it('checks inherited members of nested types', () => {
+    expect(validateRequestBody(testFile, 'Account', { location: { city: 'Paris', lat: 48.8 } }, 'patch')).toEqual([]);
+    expect(validateRequestBody(testFile, 'Account', { location: null }, 'patch')).toEqual([]);
+
+    const errors = validateRequestBody(testFile, 'Account', { location: { lat: 48.8, zip: 75001 } }, 'patch');
+    expect(errors.map((e) => e.field)).toEqual(['location.zip']);
+    expect(validateRequestBody(testFile, 'Account', { location: { lat: 48.8 } }, 'patch')).toEqual([
+      { field: 'location.city', message: 'Missing required field "location.city"' },
+    ]);
+  });
+
+  it('checks intersections and tuples', () => {
+    expect(validateRequestBody(testFile, 'Account', { audit: { createdBy: 'a', updatedBy: 'b' }, range: [1, 2] }, 'patch')).toEqual([]);
+
+    const errors = validateRequestBody(
+      testFile,
+      'Account',
+      { audit: { createdBy: 'a', deletedBy: 'c' }, range: [1, 'two'] },
+      'patch'
+    );
+    expect(errors.map((e) => e.field)).toEqual(['audit.deletedBy', 'range']);
+    expect(validateRequestBody(testFile, 'Account', { range: [1, 2, 3] }, 'patch')).toEqual([
+      { field: 'range', message: 'Expected [number, number], got array' },
+    ]);
+  });
+
+  it('checks JSDoc constraints', () => {
+    const errors = validateRequestBody(testFile, 'Account', { name: 'A', age: 12 }, 'patch');
+    expect(errors).toEqual([
+      { field: 'name', message: 'Value "A" violates @minLength 2' },
+      { field: 'age', message: 'Value 12 violates @min 18' },
+    ]);
+  });
+
+  it('requires non-optional fields only in replace mode, except the ID', () => {
+    const body = { name: 'Alice' };
+    expect(validateRequestBody(testFile, 'Account', body, 'create')).toEqual([]);
+    expect(validateRequestBody(testFile, 'Account', body, 'patch')).toEqual([]);
+
+    const missing = validateRequestBody(testFile, 'Account', body, 'replace').map((e) => e.field);
+    expect(missing).toEqual(['email', 'active', 'role', 'status', 'tags', 'nickname']);
+  });
+
+  it('throws when the interface does not exist', () => {
+    expect(() => validateRequestBody(testFile, 'Missing', {}, 'patch')).toThrow(/not found/);
+  });
+});
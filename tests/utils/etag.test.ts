@@ -0,0 +1,32 @@
+import { computeETag, matchesETag } from '../../src/utils/etag';
+
+describe('etag', () => {
+  describe('computeETag', () => {
+    it('changes with the version and the content', () => {
+      const etag = computeETag({ id: 1, name: 'Alice' }, 2);
+      expect(etag).toMatch(/^"2-[0-9a-f]{8}"$/);
+      expect(computeETag({ id: 1, name: 'Alice' }, 2)).toBe(etag);
+      expect(computeETag({ id: 1, name: 'Alice' }, 3)).not.toBe(etag);
+      expect(computeETag({ id: 1, name: 'Bob' }, 2)).not.toBe(etag);
+    });
+  });
+
+  describe('matchesETag', () => {
+    const etag = '"2-0badcafe"';
+
+    it('matches a listed tag or *', () => {
+      expect(matchesETag('"1-00000000", "2-0badcafe"', etag, false)).toBe(true);
+      expect(matchesETag('"1-00000000"', etag, false)).toBe(false);
+      expect(matchesETag('*', etag, false)).toBe(true);
+    });
+
+    it('never matches a missing resource', () => {
+      expect(matchesETag('*', undefined, false)).toBe(false);
+    });
+
+    it('matches weak tags only in weak comparison', () => {
+      expect(matchesETag('W/"2-0badcafe"', etag, true)).toBe(true);
+      expect(matchesETag('W/"2-0badcafe"', etag, false)).toBe(false);
+    });
+  });
+});
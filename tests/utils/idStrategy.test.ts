@@ -0,0 +1,54 @@
+import { createIdAllocator, matchesIdPattern } from '../../src/utils/idStrategy';
+
+describe('idStrategy', () => {
+  describe('createIdAllocator', () => {
+    it('continues integers from the largest taken one', () => {
+      const ids = createIdAllocator({ strategy: 'increment' }, [3, '17', 'abc']);
+      expect([ids.next(), ids.next()]).toEqual([18, 19]);
+    });
+
+    it('skips IDs reserved after creation', () => {
+      const ids = createIdAllocator({ strategy: 'increment' }, []);
+      ids.reserve(5);
+      expect(ids.next()).toBe(6);
+    });
+
+    it('generates UUID v4 and time-ordered UUID v7', () => {
+      const v4 = createIdAllocator({ strategy: 'uuid' }, []).next();
+      expect(v4).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+
+      const v7 = createIdAllocator({ strategy: 'uuidv7' }, [], 42).next();
+      expect(v7).toMatch(/^018cc251-f400-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('generates ObjectIds with a seconds timestamp and an increasing counter', () => {
+      const ids = createIdAllocator({ strategy: 'objectid' }, [], 42);
+      const [first, second] = [String(ids.next()), String(ids.next())];
+      expect(first).toMatch(/^65920080[0-9a-f]{16}$/);
+      expect(parseInt(second.slice(-6), 16) - parseInt(first.slice(-6), 16)).toBe(1);
+    });
+
+    it('fills custom patterns, continuing their sequence', () => {
+      const ids = createIdAllocator({ strategy: 'pattern', pattern: 'ORD-{seq:4}-{hex:2}' }, ['ORD-0041-ff', 'INV-0099']);
+      expect(ids.next()).toMatch(/^ORD-0042-[0-9a-f]{2}$/);
+      expect(ids.next()).toMatch(/^ORD-0043-[0-9a-f]{2}$/);
+    });
+
+    it('recognises the IDs of a pattern', () => {
+      const declaration = { strategy: 'pattern' as const, pattern: 'ORD-{seq:4}-{hex:2}' };
+      expect(matchesIdPattern(declaration, 'ORD-0042-ff')).toBe(true);
+      expect(matchesIdPattern(declaration, 'orders')).toBe(false);
+      expect(matchesIdPattern({ strategy: 'uuid' }, 'ORD-0042-ff')).toBe(false);
+    });
+
+    it('is reproducible with a seed', () => {
+      const draw = () => createIdAllocator({ strategy: 'uuid' }, [], 7).next();
+      expect(draw()).toBe(draw());
+    });
+
+    it('fails when a pattern has no free ID left', () => {
+      const ids = createIdAllocator({ strategy: 'pattern', pattern: 'X{digits:1}' }, Array.from({ length: 10 }, (_, i) => `X${i}`));
+      expect(() => ids.next()).toThrow('Could not generate a free ID with the "pattern" strategy');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractRelations, findParentKey } from '../../src/utils/relationExtractor';
+
+describe('relationExtractor', () => {
+  const testDir = path.join(__dirname, 'test-files-relations');
+  const testFile = path.join(testDir, 'relations.ts');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      testFile,
+      `export interface Comment {
+  id: number;
+  postId: number;
+  blogPostId: string;
+  /** @belongsTo User */
+  writtenBy: number;
+  /** @belongsTo User */
+  ownerId: number;
+  body: string;
+}
+
+export interface Plain {
+  id: number;
+  name: string;
+}`
+    );
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('extractRelations', () => {
+    it('detects xxxId fields by naming convention', () => {
+      const relations = extractRelations(testFile, 'Comment');
+      expect(relations).toContainEqual({ field: 'postId', target: 'Post', via: 'convention' });
+      expect(relations).toContainEqual({ field: 'blogPostId', target: 'BlogPost', via: 'convention' });
+    });
+
+    it('detects @belongsTo tags', () => {
+      const relations = extractRelations(testFile, 'Comment');
+      expect(relations).toContainEqual({ field: 'writtenBy', target: 'User', via: 'belongsTo' });
+    });
+
+    it('prefers the tag over the naming convention on the same field', () => {
+      const relations = extractRelations(testFile, 'Comment');
+      expect(relations.filter((r) => r.field === 'ownerId')).toEqual([
+        { field: 'ownerId', target: 'User', via: 'belongsTo' },
+      ]);
+    });
+
+    it('does not treat the plain id field as a relation', () => {
+      expect(extractRelations(testFile, 'Plain')).toEqual([]);
+    });
+
+    it('returns an empty list for a non-existent interface', () => {
+      expect(extractRelations(testFile, 'Missing')).toEqual([]);
+    });
+  });
+
+  describe('findParentKey', () => {
+    it('finds the conventional key for the parent type', () => {
+      expect(findParentKey(testFile, 'Comment', 'Post')).toBe('postId');
+    });
+
+    it('returns the first tagged key when several fields reference the parent', () => {
+      expect(findParentKey(testFile, 'Comment', 'User')).toBe('writtenBy');
+    });
+
+    it('returns undefined when no field references the parent', () => {
+      expect(findParentKey(testFile, 'Plain', 'User')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractSearchableFields } from '../../src/utils/searchableFields';
+
+describe('searchableFields', () => {
+  const testDir = path.join(__dirname, 'test-files-searchable');
+  const testFile = path.join(testDir, 'searchable.ts');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      testFile,
+      `interface Named {
+  /** Display name @searchable */
+  name: string;
+}
+
+export interface Product extends Named {
+  id: number;
+  /**
+   * Long description
+   * @searchable
+   */
+  description: string;
+  sku: string;
+}
+
+export interface Plain {
+  id: number;
+  name: string;
+}`
+    );
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns the properties tagged @searchable, inherited ones included', () => {
+    expect(extractSearchableFields(testFile, 'Product').sort()).toEqual(['description', 'name']);
+  });
+
+  it('returns an empty list without tags or for unknown types', () => {
+    expect(extractSearchableFields(testFile, 'Plain')).toEqual([]);
+    expect(extractSearchableFields(testFile, 'Missing')).toEqual([]);
+  });
+});
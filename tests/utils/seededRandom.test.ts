@@ -0,0 +1,64 @@
+import { createSeededRandom, deriveSeed, withSeed, SEED_REFERENCE_DATE } from '../../src/utils/seededRandom';
+
+describe('seededRandom', () => {
+  describe('createSeededRandom', () => {
+    it('returns the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      const seqA = Array.from({ length: 5 }, () => a());
+      const seqB = Array.from({ length: 5 }, () => b());
+      expect(seqA).toEqual(seqB);
+    });
+
+    it('returns values in [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 100; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('deriveSeed', () => {
+    it('returns undefined when no base seed is set', () => {
+      expect(deriveSeed(undefined, 'User')).toBeUndefined();
+    });
+
+    it('is stable for the same inputs', () => {
+      expect(deriveSeed(42, 'User', 3)).toBe(deriveSeed(42, 'User', 3));
+    });
+
+    it('differs across discriminators and base seeds', () => {
+      expect(deriveSeed(42, 'User')).not.toBe(deriveSeed(42, 'Post'));
+      expect(deriveSeed(42, 'User', 0)).not.toBe(deriveSeed(42, 'User', 1));
+      expect(deriveSeed(1, 'User')).not.toBe(deriveSeed(2, 'User'));
+    });
+  });
+
+  describe('withSeed', () => {
+    it('makes Math.random deterministic inside the callback', () => {
+      const first = withSeed(5, () => [Math.random(), Math.random()]);
+      const second = withSeed(5, () => [Math.random(), Math.random()]);
+      expect(first).toEqual(second);
+    });
+
+    it('pins the current date to the reference date', () => {
+      const now = withSeed(5, () => new Date().getTime());
+      expect(now).toBe(SEED_REFERENCE_DATE);
+      expect(withSeed(5, () => Date.now())).toBe(SEED_REFERENCE_DATE);
+    });
+
+    it('restores Math.random and Date afterwards, even on error', () => {
+      const originalRandom = Math.random;
+      const OriginalDate = Date;
+      expect(() =>
+        withSeed(5, () => {
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+      expect(Math.random).toBe(originalRandom);
+      expect(Date).toBe(OriginalDate);
+    });
+  });
+});
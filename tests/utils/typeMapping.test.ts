@@ -4,7 +4,12 @@ import {
   findTypeScriptFiles,
   extractInterfaceNames,
   buildTypeMap,
+  getTypeMap,
+  invalidateTypeMap,
   findTypeForUrl,
+  getEndpointSource,
+  resolvePaginationMode,
+  resolveIdStrategy,
 } from '../../src/utils/typeMapping';
 
 describe('typeMapping', () => {
@@ -162,6 +167,141 @@ export interface WithoutFlag {
 
       fs.rmSync(testFile);
     });
+
+    it('should detect @source and @passthrough tags', () => {
+      const testFile = path.join(testDir, 'source-test.ts');
+      fs.writeFileSync(
+        testFile,
+        `/** Served by the real backend in proxy mode @passthrough */
+// @endpoint
+export interface Forwarded {
+  id: number;
+}
+
+/** @source hybrid */
+// @endpoint
+export interface Mixed {
+  id: number;
+}
+
+/** @source backend */
+// @endpoint
+export interface Misspelled {
+  id: number;
+}
+
+// @endpoint
+export interface Mocked {
+  id: number;
+}`
+      );
+
+      const interfaces = extractInterfaceNames(testFile);
+
+      expect(interfaces.every((i) => i.hasEndpointFlag)).toBe(true);
+      expect(getEndpointSource(testFile, 'Forwarded')).toBe('proxy');
+      expect(getEndpointSource(testFile, 'Mixed')).toBe('hybrid');
+      expect(getEndpointSource(testFile, 'Misspelled')).toBeUndefined();
+      expect(getEndpointSource(testFile, 'Mocked')).toBeUndefined();
+
+      fs.rmSync(testFile);
+    });
+
+    it('should resolve the pagination mode from @pagination tags, else the default', () => {
+      const testFile = path.join(testDir, 'pagination-test.ts');
+      fs.writeFileSync(
+        testFile,
+        `// @endpoint
+// @pagination cursor
+export interface Feed {
+  id: number;
+}
+
+// @endpoint
+export interface Page {
+  id: number;
+}`
+      );
+
+      expect(extractInterfaceNames(testFile).find((i) => i.name === 'Feed')?.pagination).toBe('cursor');
+      expect(resolvePaginationMode(testFile, 'Feed', 'offset')).toBe('cursor');
+      expect(resolvePaginationMode(testFile, 'Page')).toBe('offset');
+      expect(resolvePaginationMode(testFile, 'Page', 'cursor')).toBe('cursor');
+
+      fs.rmSync(testFile);
+    });
+
+    it('should resolve the ID strategy from @idStrategy tags, with the pattern of custom ones', () => {
+      const testFile = path.join(testDir, 'id-strategy-test.ts');
+      fs.writeFileSync(
+        testFile,
+        `// @endpoint
+// @idStrategy increment
+export interface Invoice {
+  id: number;
+}
+
+/**
+ * @endpoint
+ * @idStrategy pattern ORD-{seq:6}
+ */
+export interface Order {
+  id: string;
+}
+
+// @endpoint
+// @idStrategy pattern
+export interface Refund {
+  id: string;
+}
+
+// @endpoint
+// @idStrategy serial
+export interface Receipt {
+  id: number;
+}`
+      );
+
+      expect(resolveIdStrategy(testFile, 'Invoice')).toEqual({ strategy: 'increment' });
+      expect(resolveIdStrategy(testFile, 'Order')).toEqual({ strategy: 'pattern', pattern: 'ORD-{seq:6}' });
+      expect(resolveIdStrategy(testFile, 'Refund')).toBeUndefined();
+      expect(resolveIdStrategy(testFile, 'Receipt')).toBeUndefined();
+
+      fs.rmSync(testFile);
+    });
+
+    it('should extract exported type aliases and block-comment flags', () => {
+      const testFile = path.join(testDir, 'alias-test.ts');
+      fs.writeFileSync(
+        testFile,
+        `interface Internal {
+  id: number;
+}
+
+/**
+ * Administrators
+ * @endpoint
+ */
+export interface Admin extends Internal {
+  role: string;
+}
+
+// @endpoint
+export type Account = Internal & { owner: string };
+
+export type Status = 'active' | 'inactive';`
+      );
+
+      const interfaces = extractInterfaceNames(testFile);
+
+      expect(interfaces).toEqual([
+        { name: 'Admin', hasEndpointFlag: true },
+        { name: 'Account', hasEndpointFlag: true },
+        { name: 'Status', hasEndpointFlag: false },
+      ]);
+
+      fs.rmSync(testFile);
+    });
   });
 
   describe('buildTypeMap', () => {
@@ -205,6 +345,28 @@ export interface Hidden {
     });
   });
 
+  describe('getTypeMap', () => {
+    it('keeps the type map and tags until invalidated', () => {
+      const testFile = path.join(testDir, 'cached-test.ts');
+      fs.writeFileSync(testFile, `// @endpoint\n// @idStrategy increment\nexport interface Ticket {\n  id: number;\n}`);
+      invalidateTypeMap();
+      const typeMap = getTypeMap(testDir);
+      expect(typeMap.has('Ticket')).toBe(true);
+      expect(resolveIdStrategy(testFile, 'Ticket')).toEqual({ strategy: 'increment' });
+
+      fs.writeFileSync(testFile, `// @endpoint\n// @idStrategy uuid\nexport interface Ticket {\n  id: string;\n}`);
+      expect(getTypeMap(testDir)).toBe(typeMap);
+      expect(resolveIdStrategy(testFile, 'Ticket')).toEqual({ strategy: 'increment' });
+
+      invalidateTypeMap();
+      expect(getTypeMap(testDir)).not.toBe(typeMap);
+      expect(resolveIdStrategy(testFile, 'Ticket')).toEqual({ strategy: 'uuid' });
+
+      fs.rmSync(testFile);
+      invalidateTypeMap();
+    });
+  });
+
   describe('findTypeForUrl', () => {
     it('should find type for plural URL', () => {
       const result = findTypeForUrl('/api/users', testDir);
@@ -272,8 +434,37 @@ export interface Hidden {
       expect(r?.isArray).toBe(true);
     });
 
-    it('should return null for /users/123/posts/456 (nested single not supported)', () => {
-      expect(findTypeForUrl('/users/123/posts/456', testDir)).toBeNull();
+    it('should resolve /users/123/posts/456 to single Post', () => {
+      const r = findTypeForUrl('/users/123/posts/456', testDir);
+      expect(r?.typeName).toBe('Post');
+      expect(r?.isArray).toBe(false);
+    });
+
+    it('should expose the immediate parent resource of nested URLs', () => {
+      expect(findTypeForUrl('/users/123/posts', testDir)?.parent).toEqual({ typeName: 'User', id: '123' });
+      expect(findTypeForUrl('/users/123/posts/456', testDir)?.parent).toEqual({ typeName: 'User', id: '123' });
+      expect(findTypeForUrl('/orders/1/users/2/posts', testDir)?.parent).toEqual({ typeName: 'User', id: '2' });
+      expect(findTypeForUrl('/users/123', testDir)?.parent).toBeUndefined();
+    });
+
+    it('should resolve arbitrarily deep nested paths to the leaf type', () => {
+      const list = findTypeForUrl('/orders/1/users/2/posts', testDir);
+      expect(list?.typeName).toBe('Post');
+      expect(list?.isArray).toBe(true);
+
+      const single = findTypeForUrl('/api/v1/orders/1/users/2/posts/3', testDir);
+      expect(single?.typeName).toBe('Post');
+      expect(single?.isArray).toBe(false);
+    });
+
+    it('should return null for nested paths with a singular leaf collection', () => {
+      expect(findTypeForUrl('/users/123/post/456', testDir)).toBeNull();
+    });
+
+    it('should return null for paths that do not alternate collection and ID', () => {
+      expect(findTypeForUrl('/users/posts', testDir)).toBeNull();
+      expect(findTypeForUrl('/users/1/2', testDir)).toBeNull();
+      expect(findTypeForUrl('/users/1/posts/2/3', testDir)).toBeNull();
     });
 
     it('should resolve /api/v1/users/123 to single User', () => {
@@ -281,5 +472,17 @@ export interface Hidden {
       expect(r?.typeName).toBe('User');
       expect(r?.isArray).toBe(false);
     });
+
+    it('should resolve the _aggregate route of a collection', () => {
+      expect(findTypeForUrl('/api/users/_aggregate', testDir)).toMatchObject({ typeName: 'User', isArray: true, aggregate: true });
+      expect(findTypeForUrl('/users/123/posts/_aggregate', testDir)).toMatchObject({
+        typeName: 'Post',
+        aggregate: true,
+        parent: { typeName: 'User', id: '123' },
+      });
+      expect(findTypeForUrl('/users', testDir)?.aggregate).toBeUndefined();
+      expect(findTypeForUrl('/users/123/_aggregate', testDir)).toBeNull();
+      expect(findTypeForUrl('/_aggregate', testDir)).toBeNull();
+    });
   });
 });
@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findDependentFiles,
+  getProgramSourceFiles,
+  hasTypeDeclaration,
+  invalidateTypeResolver,
+  resolveTypeProperties,
+} from '../../src/utils/typeResolver';
+
+describe('typeResolver', () => {
+  const testDir = path.join(__dirname, 'test-files-resolver');
+  const testFile = path.join(testDir, 'models.ts');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDir)) {
+      fs.mkdirSync(testDir, { recursive: true });
+    }
+
+    fs.writeFileSync(
+      testFile,
+      `export interface Entity {
+  /** @min 1 */
+  id: number;
+}
+
+export interface User extends Entity {
+  name: string;
+  email?: string | null;
+  active: boolean;
+}
+
+export type Account = {
+  id: number;
+  owner: string;
+};
+
+export type Admin = User & { permissions: string[] };
+export type UserSummary = Pick<User, 'id' | 'name'>;
+export type UserDraft = Partial<Omit<User, 'id'>>;
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
+export type UserPage = Page<User>;`
+    );
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  const describeProps = (typeName: string) =>
+    resolveTypeProperties(testFile, typeName).map(
+      (p) => `${p.name}${p.optional ? '?' : ''}: ${p.typeText}`
+    );
+
+  it('includes inherited members, base fields first', () => {
+    expect(describeProps('User')).toEqual([
+      'id: number',
+      'name: string',
+      'email?: string | null',
+      'active: boolean',
+    ]);
+  });
+
+  it('resolves object type aliases', () => {
+    expect(describeProps('Account')).toEqual(['id: number', 'owner: string']);
+  });
+
+  it('flattens intersections', () => {
+    expect(describeProps('Admin')).toEqual([
+      'id: number',
+      'name: string',
+      'email?: string | null',
+      'active: boolean',
+      'permissions: string[]',
+    ]);
+  });
+
+  it('resolves Pick, Omit and Partial', () => {
+    expect(describeProps('UserSummary')).toEqual(['id: number', 'name: string']);
+    expect(describeProps('UserDraft')).toEqual(['name?: string', 'email?: string | null', 'active?: boolean']);
+  });
+
+  it('substitutes generic type arguments', () => {
+    const [items, total] = resolveTypeProperties(testFile, 'UserPage');
+    expect(items).toMatchObject({ name: 'items', typeText: 'User[]' });
+    expect(items!.typeNode).toBeUndefined();
+    expect(total).toMatchObject({ name: 'total', typeText: 'number' });
+    expect(total!.typeNode).toBeDefined();
+  });
+
+  it('keeps the original declaration of inherited members for JSDoc', () => {
+    const id = resolveTypeProperties(testFile, 'UserSummary').find((p) => p.name === 'id');
+    expect(id?.declaration?.getFullText()).toContain('@min 1');
+  });
+
+  it('keeps the program until invalidated, then picks up changes to the file', () => {
+    const file = path.join(testDir, 'changing.ts');
+    fs.writeFileSync(file, 'export interface Thing { a: string; }');
+    expect(resolveTypeProperties(file, 'Thing').map((p) => p.name)).toEqual(['a']);
+
+    fs.writeFileSync(file, 'export interface Thing { a: string; b: number; }');
+    expect(resolveTypeProperties(file, 'Thing').map((p) => p.name)).toEqual(['a']);
+
+    invalidateTypeResolver(file);
+    expect(resolveTypeProperties(file, 'Thing').map((p) => p.name)).toEqual(['a', 'b']);
+  });
+
+  describe('imported types', () => {
+    const projectDir = path.join(testDir, 'project');
+    const userFile = path.join(projectDir, 'models', 'user.ts');
+    const addressFile = path.join(projectDir, 'shared', 'address.ts');
+
+    beforeAll(() => {
+      fs.mkdirSync(path.join(projectDir, 'models'), { recursive: true });
+      fs.mkdirSync(path.join(projectDir, 'shared'), { recursive: true });
+      fs.writeFileSync(
+        path.join(projectDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@shared/*': ['shared/*'] } } })
+      );
+      fs.writeFileSync(
+        addressFile,
+        `export interface Address {
+  city: string;
+}`
+      );
+      fs.writeFileSync(
+        path.join(projectDir, 'models', 'base.ts'),
+        `export interface Entity {
+  id: number;
+}`
+      );
+      fs.writeFileSync(
+        userFile,
+        `import { Address } from '@shared/address';
+import { Entity } from './base';
+
+export interface User extends Entity {
+  address: Address;
+  previous?: Address[] | null;
+  tags: string[];
+  createdAt: Date;
+}`
+      );
+    });
+
+    it('follows imports, including tsconfig path aliases', () => {
+      const files = getProgramSourceFiles(userFile).map((file) => path.basename(file.fileName));
+      expect(files.sort()).toEqual(['address.ts', 'base.ts', 'user.ts']);
+      expect(resolveTypeProperties(userFile, 'User').map((p) => p.name)).toEqual([
+        'id',
+        'address',
+        'previous',
+        'tags',
+        'createdAt',
+      ]);
+    });
+
+    it('reports references to named project types', () => {
+      const [, address, previous, tags, createdAt] = resolveTypeProperties(userFile, 'User');
+      expect(address!.reference).toEqual({
+        typeName: 'Address',
+        filePath: expect.stringContaining('address.ts'),
+        isArray: false,
+      });
+      expect(previous!.reference).toMatchObject({ typeName: 'Address', isArray: true });
+      expect(tags!.reference).toBeUndefined();
+      expect(createdAt!.reference).toBeUndefined();
+    });
+
+    it('lists the type files depending on an imported file', () => {
+      resolveTypeProperties(userFile, 'User');
+      expect(findDependentFiles(addressFile)).toContain(userFile);
+    });
+
+    it('picks up changes to imported files', () => {
+      fs.writeFileSync(
+        addressFile,
+        `export interface Address {
+  city: string;
+  zip: string;
+}`
+      );
+      // As the hot-reload watcher does: dropping the changed file drops the programs importing it
+      invalidateTypeResolver(addressFile);
+      const property = resolveTypeProperties(userFile, 'User').find((p) => p.name === 'address');
+      const addressProps = resolveTypeProperties(property!.reference!.filePath, 'Address');
+      expect(addressProps.map((p) => p.name)).toEqual(['city', 'zip']);
+      expect(getProgramSourceFiles(userFile).find((f) => f.fileName.endsWith('address.ts'))!.text).toContain('zip');
+    });
+  });
+
+  it('reports whether a type is declared', () => {
+    expect(hasTypeDeclaration(testFile, 'UserDraft')).toBe(true);
+    expect(hasTypeDeclaration(testFile, 'Missing')).toBe(false);
+    expect(() => resolveTypeProperties(testFile, 'Missing')).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,57 @@
+import { toYaml } from '../../src/utils/yaml';
+
+describe('yaml', () => {
+  it('writes nested objects and arrays as indented blocks', () => {
+    const yaml = toYaml({
+      info: { title: 'API', version: '1.0.0' },
+      tags: ['users', 'posts'],
+      servers: [{ url: 'http://localhost:8080', description: 'Dev' }],
+    });
+
+    expect(yaml).toBe(
+      [
+        'info:',
+        '  title: API',
+        '  version: "1.0.0"',
+        'tags:',
+        '  - users',
+        '  - posts',
+        'servers:',
+        '  - url: "http://localhost:8080"',
+        '    description: Dev',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes scalars and empty collections inline', () => {
+    expect(toYaml({ size: 1.5, ok: true, none: null, list: [], obj: {} })).toBe(
+      'size: 1.5\nok: true\nnone: null\nlist: []\nobj: {}\n'
+    );
+  });
+
+  it('quotes strings that would be read as another type or contain special characters', () => {
+    expect(toYaml(['true', 'null', '42', '', 'a: b', '#/components/schemas/User', 'line\nbreak'])).toBe(
+      [
+        '- "true"',
+        '- "null"',
+        '- "42"',
+        '- ""',
+        '- "a: b"',
+        '- "#/components/schemas/User"',
+        '- "line\\nbreak"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('quotes keys when needed and skips undefined values', () => {
+    expect(toYaml({ '200': { $ref: '#/x' }, '/users/{id}': 'ok', skipped: undefined })).toBe(
+      '"200":\n  "$ref": "#/x"\n"/users/{id}": ok\n'
+    );
+  });
+
+  it('nests arrays inside arrays', () => {
+    expect(toYaml([[1, 2], { a: [3] }])).toBe('- - 1\n  - 2\n- a:\n    - 3\n');
+  });
+});